@@ -4,6 +4,7 @@ import { socket } from './lib/socket';
 import GameLobby from './components/GameLobby';
 import GameRoom from './components/GameRoom';
 import AndarBahar from './components/AndarBahar';
+import AndarBaharSpectator from './components/AndarBaharSpectator';
 import CoinTossRoom from './components/CoinToss/CoinTossRoom';
 import AuthContainer from './components/Auth/AuthContainer';
 import HomePage from './components/HomePage';
@@ -15,6 +16,8 @@ import GamesPage from './components/Admin/Pages/Games';
 import ResultsControl from './components/Admin/Pages/ResultsControl';
 import AnalyticsPage from './components/Admin/Pages/Analytics';
 import ActivityLogs from './components/Admin/Pages/ActivityLogs';
+import ChatModeration from './components/Admin/Pages/ChatModeration';
+import WalletRequests from './components/Admin/Pages/WalletRequests';
 import DataReset from './components/Admin/Pages/DataReset';
 import Lucky7Control from './components/Admin/Pages/GameControls/Lucky7Control';
 import CoinTossControl from './components/Admin/Pages/GameControls/CoinTossControl';
@@ -23,14 +26,15 @@ import { useGameStore } from './lib/stores/useGameStore';
 import { useAudio } from './lib/stores/useAudio';
 import { useAuthStore } from './lib/stores/useAuthStore';
 import { Button } from './components/ui/button';
-import { Toaster } from 'sonner';
+import { Toaster, toast } from 'sonner';
+import { isAdminRole } from '@shared/permissions';
 
 function App() {
   const [isConnected, setIsConnected] = useState(false);
   const [socketId, setSocketId] = useState<string>('');
   const { isAuthenticated, user } = useAuthStore();
-  const [currentView, setCurrentView] = useState<'game' | 'userDashboard' | 'adminDashboard' | 'andarBahar' | 'coinToss'>(
-    user?.role === 'admin' ? 'adminDashboard' : 'userDashboard'
+  const [currentView, setCurrentView] = useState<'game' | 'userDashboard' | 'adminDashboard' | 'andarBahar' | 'andarBaharSpectate' | 'coinToss'>(
+    isAdminRole(user?.role) ? 'adminDashboard' : 'userDashboard'
   );
   const [showHomePage, setShowHomePage] = useState(true); // New state for home vs auth
   const { currentRoom, setCurrentRoom, setPlayers } = useGameStore();
@@ -39,7 +43,7 @@ function App() {
   // Update view when user changes (after login)
   useEffect(() => {
     if (user) {
-      setCurrentView(user.role === 'admin' ? 'adminDashboard' : 'userDashboard');
+      setCurrentView(isAdminRole(user.role) ? 'adminDashboard' : 'userDashboard');
     }
   }, [user]);
 
@@ -78,6 +82,10 @@ function App() {
       alert(error);
     }
 
+    function onServerMaintenance(data: { message: string }) {
+      toast.warning(data.message, { duration: 15000 });
+    }
+
     // Listen for coin toss exit event
     function handleExitCoinToss() {
       setCurrentView('userDashboard');
@@ -93,6 +101,7 @@ function App() {
     socket.on('disconnect', onDisconnect);
     socket.on('room-updated', onRoomUpdated);
     socket.on('error', onError);
+    socket.on('server-maintenance', onServerMaintenance);
     window.addEventListener('exitCoinToss', handleExitCoinToss);
     window.addEventListener('exitLucky7', handleExitLucky7);
 
@@ -101,6 +110,7 @@ function App() {
       socket.off('disconnect', onDisconnect);
       socket.off('room-updated', onRoomUpdated);
       socket.off('error', onError);
+      socket.off('server-maintenance', onServerMaintenance);
       window.removeEventListener('exitCoinToss', handleExitCoinToss);
       window.removeEventListener('exitLucky7', handleExitLucky7);
     };
@@ -108,7 +118,7 @@ function App() {
 
   // Admins should not access the game view - redirect to admin dashboard
   useEffect(() => {
-    if (user?.role === 'admin' && (currentView === 'game' || currentView === 'andarBahar' || currentView === 'coinToss')) {
+    if (isAdminRole(user?.role) && (currentView === 'game' || currentView === 'andarBahar' || currentView === 'andarBaharSpectate' || currentView === 'coinToss')) {
       setCurrentView('adminDashboard');
     }
   }, [user, currentView]);
@@ -167,12 +177,14 @@ function App() {
           <Routes>
             <Route path="/admin" element={<AdminLayout><Overview /></AdminLayout>} />
             <Route path="/admin/users" element={<AdminLayout><UsersPage /></AdminLayout>} />
+            <Route path="/admin/wallet-requests" element={<AdminLayout><WalletRequests /></AdminLayout>} />
             <Route path="/admin/games" element={<AdminLayout><GamesPage /></AdminLayout>} />
             <Route path="/admin/results" element={<AdminLayout><ResultsControl /></AdminLayout>} />
             <Route path="/admin/results/lucky7" element={<AdminLayout><Lucky7Control /></AdminLayout>} />
             <Route path="/admin/results/cointoss" element={<AdminLayout><CoinTossControl /></AdminLayout>} />
             <Route path="/admin/analytics" element={<AdminLayout><AnalyticsPage /></AdminLayout>} />
             <Route path="/admin/logs" element={<AdminLayout><ActivityLogs /></AdminLayout>} />
+            <Route path="/admin/chat" element={<AdminLayout><ChatModeration /></AdminLayout>} />
             <Route path="/admin/data-reset" element={<AdminLayout><DataReset /></AdminLayout>} />
             <Route path="*" element={<Navigate to="/admin" replace />} />
           </Routes>
@@ -181,8 +193,10 @@ function App() {
     );
   }
 
-  // Show Andar Bahar game view
-  if (currentView === 'andarBahar') {
+  // Show Andar Bahar game view, or the live matches others are playing
+  if (currentView === 'andarBahar' || currentView === 'andarBaharSpectate') {
+    const isSpectating = currentView === 'andarBaharSpectate';
+
     return (
       <div className="min-h-screen bg-gradient-purple relative">
         <div className="absolute top-0 left-0 right-0 z-50 glass-header border-b border-purple-accent/30">
@@ -194,6 +208,14 @@ function App() {
             
             <div className="flex items-center gap-2">
               <HeaderWallet socketId={socketId} />
+              <Button
+                onClick={() => setCurrentView(isSpectating ? 'andarBahar' : 'andarBaharSpectate')}
+                variant="outline"
+                size="sm"
+                className="glass-button border-purple-accent/50 text-white hover:border-purple-accent"
+              >
+                {isSpectating ? '🃏 Play' : '👀 Watch Live'}
+              </Button>
               <Button
                 onClick={() => setCurrentView('userDashboard')}
                 variant="outline"
@@ -215,7 +237,7 @@ function App() {
         </div>
         
         <div className="pt-16">
-          <AndarBahar />
+          {isSpectating ? <AndarBaharSpectator /> : <AndarBahar />}
         </div>
       </div>
     );
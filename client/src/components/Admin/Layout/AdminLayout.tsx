@@ -2,6 +2,7 @@ import { ReactNode, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { Button } from '../../ui/button';
 import { useAuthStore } from '../../../lib/stores/useAuthStore';
+import { hasPermission, toAdminRole, type Permission } from '@shared/permissions';
 import { 
   LayoutDashboard, 
   Users, 
@@ -13,27 +14,39 @@ import {
   Activity,
   Menu,
   X,
-  Database
+  Database,
+  MessageSquare,
+  Wallet
 } from 'lucide-react';
 
 interface AdminLayoutProps {
   children: ReactNode;
 }
 
+interface NavItem {
+  name: string;
+  href: string;
+  icon: typeof LayoutDashboard;
+  permissions: Permission[]; // Shown when the role holds any of these
+}
+
 export default function AdminLayout({ children }: AdminLayoutProps) {
   const { user, logout } = useAuthStore();
   const location = useLocation();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
-  const navigation = [
-    { name: 'Overview', href: '/admin', icon: LayoutDashboard },
-    { name: 'Users', href: '/admin/users', icon: Users },
-    { name: 'Games', href: '/admin/games', icon: Gamepad2 },
-    { name: 'Results Control', href: '/admin/results', icon: Target },
-    { name: 'Analytics', href: '/admin/analytics', icon: TrendingUp },
-    { name: 'Activity Logs', href: '/admin/logs', icon: Activity },
-    { name: 'Data Reset', href: '/admin/data-reset', icon: Database },
+  const allNavigation: NavItem[] = [
+    { name: 'Overview', href: '/admin', icon: LayoutDashboard, permissions: ['users.view'] },
+    { name: 'Users', href: '/admin/users', icon: Users, permissions: ['users.view'] },
+    { name: 'Wallet Requests', href: '/admin/wallet-requests', icon: Wallet, permissions: ['funds.manage'] },
+    { name: 'Games', href: '/admin/games', icon: Gamepad2, permissions: ['games.configure', 'deposit_settings.manage'] },
+    { name: 'Results Control', href: '/admin/results', icon: Target, permissions: ['games.control'] },
+    { name: 'Analytics', href: '/admin/analytics', icon: TrendingUp, permissions: ['analytics.view'] },
+    { name: 'Activity Logs', href: '/admin/logs', icon: Activity, permissions: ['audit.view'] },
+    { name: 'Chat Moderation', href: '/admin/chat', icon: MessageSquare, permissions: ['chat.moderate'] },
+    { name: 'Data Reset', href: '/admin/data-reset', icon: Database, permissions: ['data.reset'] },
   ];
+  const navigation = allNavigation.filter(item => item.permissions.some(permission => hasPermission(user?.role, permission)));
 
   const isActive = (href: string) => {
     if (href === '/admin') {
@@ -122,6 +135,7 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
             <div className="mb-4">
               <p className="text-sm text-neo-text-secondary">Logged in as</p>
               <p className="text-sm font-semibold text-neo-accent truncate">{user?.username}</p>
+              <p className="text-xs text-neo-text-secondary uppercase">{toAdminRole(user?.role)}</p>
             </div>
             <Button
               onClick={() => {
@@ -1,169 +1,128 @@
 import { useEffect, useState } from 'react';
-import { Activity, AlertCircle, CheckCircle, Info, XCircle, Filter, Download } from 'lucide-react';
+import { Activity, Filter, Download, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Button } from '../../ui/button';
+import { Input } from '../../ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
 
-interface LogEntry {
-  id: string;
-  timestamp: string;
-  type: 'info' | 'success' | 'warning' | 'error';
-  category: 'game' | 'user' | 'admin' | 'system';
-  message: string;
-  details?: string;
+interface AuditEvent {
+  id: number;
+  actorUsername: string;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  description: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ipAddress: string | null;
+  createdAt: string;
 }
 
-export default function ActivityLogs() {
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [filteredLogs, setFilteredLogs] = useState<LogEntry[]>([]);
-  const [filterType, setFilterType] = useState<string>('all');
-  const [filterCategory, setFilterCategory] = useState<string>('all');
+const ACTIONS: { value: string; label: string }[] = [
+  { value: 'user.funds', label: 'Fund changes' },
+  { value: 'user.status', label: 'Status changes' },
+  { value: 'user.password', label: 'Password resets' },
+  { value: 'user.role', label: 'Role changes' },
+  { value: 'game.override_result', label: 'Result overrides' },
+  { value: 'game.background', label: 'Background uploads' },
+  { value: 'settings.deposit', label: 'Deposit settings' },
+  { value: 'settings.game_timings', label: 'Round timings' },
+  { value: 'settings.table_limits', label: 'Table limits' },
+  { value: 'chat.delete_message', label: 'Chat deletions' },
+  { value: 'chat.mute', label: 'Chat mutes' },
+  { value: 'wallet.approve', label: 'Wallet approvals' },
+  { value: 'wallet.reject', label: 'Wallet rejections' },
+  { value: 'data.reset', label: 'Data resets' },
+];
 
-  useEffect(() => {
-    const mockLogs: LogEntry[] = [
-      {
-        id: '1',
-        timestamp: new Date(Date.now() - 5 * 60000).toISOString(),
-        type: 'success',
-        category: 'game',
-        message: 'Lucky 7 round completed',
-        details: 'Game ID: 1234, Total bets: 5, Winner: Red'
-      },
-      {
-        id: '2',
-        timestamp: new Date(Date.now() - 10 * 60000).toISOString(),
-        type: 'info',
-        category: 'user',
-        message: 'New user registration',
-        details: 'Username: player123'
-      },
-      {
-        id: '3',
-        timestamp: new Date(Date.now() - 15 * 60000).toISOString(),
-        type: 'warning',
-        category: 'admin',
-        message: 'Admin override result for Lucky 7',
-        details: 'Admin: admin, Game ID: 1233, Override: Black'
-      },
-      {
-        id: '4',
-        timestamp: new Date(Date.now() - 20 * 60000).toISOString(),
-        type: 'success',
-        category: 'game',
-        message: 'Coin Toss round completed',
-        details: 'Game ID: 456, Total bets: 3, Result: Heads'
-      },
-      {
-        id: '5',
-        timestamp: new Date(Date.now() - 25 * 60000).toISOString(),
-        type: 'info',
-        category: 'user',
-        message: 'User login',
-        details: 'Username: player456'
-      },
-      {
-        id: '6',
-        timestamp: new Date(Date.now() - 30 * 60000).toISOString(),
-        type: 'error',
-        category: 'system',
-        message: 'Database connection timeout',
-        details: 'Retry successful after 2 attempts'
-      },
-      {
-        id: '7',
-        timestamp: new Date(Date.now() - 35 * 60000).toISOString(),
-        type: 'success',
-        category: 'admin',
-        message: 'User status updated',
-        details: 'Admin: admin, User: player789, Status: suspended'
-      },
-      {
-        id: '8',
-        timestamp: new Date(Date.now() - 40 * 60000).toISOString(),
-        type: 'info',
-        category: 'game',
-        message: 'New game room created',
-        details: 'Room ID: GLOBAL, Game: Lucky 7'
-      },
-    ];
+const TARGET_TYPES: { value: string; label: string }[] = [
+  { value: 'user', label: 'User' },
+  { value: 'game', label: 'Lucky 7 game' },
+  { value: 'coin_toss_game', label: 'Coin toss game' },
+  { value: 'chat_message', label: 'Chat message' },
+  { value: 'wallet_request', label: 'Wallet request' },
+  { value: 'settings', label: 'Settings' },
+  { value: 'database', label: 'Database' },
+];
 
-    setLogs(mockLogs);
-    setFilteredLogs(mockLogs);
-  }, []);
+const PAGE_SIZE = 25;
 
-  useEffect(() => {
-    let filtered = logs;
+const getActionBadge = (action: string) => {
+  const colors = {
+    user: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+    game: 'bg-purple-500/20 text-purple-300 border-purple-500/30',
+    settings: 'bg-gray-500/20 text-gray-300 border-gray-500/30',
+    chat: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30',
+    wallet: 'bg-green-500/20 text-green-300 border-green-500/30',
+    data: 'bg-red-500/20 text-red-300 border-red-500/30'
+  };
+  return colors[action.split('.')[0] as keyof typeof colors] || colors.settings;
+};
 
-    if (filterType !== 'all') {
-      filtered = filtered.filter(log => log.type === filterType);
-    }
+const formatValues = (values: Record<string, unknown> | null) =>
+  values ? Object.entries(values).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ') : '—';
 
-    if (filterCategory !== 'all') {
-      filtered = filtered.filter(log => log.category === filterCategory);
-    }
+export default function ActivityLogs() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filterAction, setFilterAction] = useState<string>('all');
+  const [filterTarget, setFilterTarget] = useState<string>('all');
+  const [actor, setActor] = useState<string>('');
+  const [appliedActor, setAppliedActor] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
 
-    setFilteredLogs(filtered);
-  }, [filterType, filterCategory, logs]);
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1);
 
-  const getLogIcon = (type: string) => {
-    switch (type) {
-      case 'success':
-        return <CheckCircle className="w-5 h-5 text-green-500" />;
-      case 'warning':
-        return <AlertCircle className="w-5 h-5 text-yellow-500" />;
-      case 'error':
-        return <XCircle className="w-5 h-5 text-red-500" />;
-      default:
-        return <Info className="w-5 h-5 text-blue-500" />;
-    }
+  const buildQuery = () => {
+    const params = new URLSearchParams();
+    if (filterAction !== 'all') params.set('action', filterAction);
+    if (filterTarget !== 'all') params.set('targetType', filterTarget);
+    if (appliedActor) params.set('actor', appliedActor);
+    return params;
   };
 
-  const getLogColor = (type: string) => {
-    switch (type) {
-      case 'success':
-        return 'border-green-500/30 bg-green-900/10';
-      case 'warning':
-        return 'border-yellow-500/30 bg-yellow-900/10';
-      case 'error':
-        return 'border-red-500/30 bg-red-900/10';
-      default:
-        return 'border-blue-500/30 bg-blue-900/10';
+  useEffect(() => {
+    fetchEvents();
+  }, [page, filterAction, filterTarget, appliedActor]);
+
+  const fetchEvents = async () => {
+    setIsLoading(true);
+    try {
+      const params = buildQuery();
+      params.set('page', String(page));
+      params.set('pageSize', String(PAGE_SIZE));
+      const response = await fetch(`/api/admin/audit-logs?${params}`);
+      const data = await response.json();
+      if (response.ok) {
+        setEvents(data.events);
+        setTotal(data.total);
+        setError(null);
+      } else {
+        setError(data.message || 'Failed to load audit logs');
+      }
+    } catch (error) {
+      console.error('Error fetching audit logs:', error);
+      setError('Error loading audit logs');
+    } finally {
+      setIsLoading(false);
     }
   };
 
-  const getCategoryBadge = (category: string) => {
-    const colors = {
-      game: 'bg-purple-500/20 text-purple-300 border-purple-500/30',
-      user: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
-      admin: 'bg-red-500/20 text-red-300 border-red-500/30',
-      system: 'bg-gray-500/20 text-gray-300 border-gray-500/30'
-    };
-    return colors[category as keyof typeof colors] || colors.system;
+  const applyFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
   };
 
   const exportLogs = () => {
-    const csvData = [
-      ['FunRep Activity Logs Export', new Date().toLocaleDateString()],
-      [],
-      ['Timestamp', 'Type', 'Category', 'Message', 'Details'],
-      ...filteredLogs.map(log => [
-        new Date(log.timestamp).toLocaleString(),
-        log.type,
-        log.category,
-        log.message,
-        log.details || ''
-      ])
-    ];
-
-    const csv = csvData.map(row => row.join(',')).join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
+    const params = buildQuery();
+    params.set('format', 'csv');
     const a = document.createElement('a');
-    a.href = url;
-    a.download = `funrep-logs-${new Date().toISOString().split('T')[0]}.csv`;
+    a.href = `/api/admin/audit-logs?${params}`;
+    a.download = `audit-log-${new Date().toISOString().split('T')[0]}.csv`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
   };
 
   return (
@@ -175,16 +134,26 @@ export default function ActivityLogs() {
               <Activity className="w-8 h-8" />
               Activity Logs
             </h1>
-            <p className="text-neo-text-secondary">Monitor system activities and events</p>
+            <p className="text-neo-text-secondary">Every admin action, who made it and what it changed</p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={fetchEvents}
+              variant="outline"
+              className="border-2 border-neo-accent text-neo-accent hover:bg-neo-accent hover:text-neo-bg font-heading font-semibold transition-all duration-300"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Refresh
+            </Button>
+            <Button
+              onClick={exportLogs}
+              variant="outline"
+              className="border-2 border-neo-accent text-neo-accent hover:bg-neo-accent hover:text-neo-bg font-heading font-semibold transition-all duration-300"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export Logs
+            </Button>
           </div>
-          <Button
-            onClick={exportLogs}
-            variant="outline"
-            className="border-2 border-neo-accent text-neo-accent hover:bg-neo-accent hover:text-neo-bg font-heading font-semibold transition-all duration-300"
-          >
-            <Download className="w-4 h-4 mr-2" />
-            Export Logs
-          </Button>
         </div>
 
         <div className="flex items-center gap-4 flex-wrap">
@@ -192,125 +161,116 @@ export default function ActivityLogs() {
             <Filter className="w-4 h-4 text-neo-accent" />
             <span className="text-neo-text-secondary text-sm">Filters:</span>
           </div>
-          
-          <Select value={filterType} onValueChange={setFilterType}>
-            <SelectTrigger className="w-40 bg-purple-900/20 border-neo-accent/30 text-neo-text">
-              <SelectValue placeholder="Type" />
+
+          <Select value={filterAction} onValueChange={applyFilter(setFilterAction)}>
+            <SelectTrigger className="w-48 bg-purple-900/20 border-neo-accent/30 text-neo-text">
+              <SelectValue placeholder="Action" />
             </SelectTrigger>
             <SelectContent className="bg-black border-neo-accent/30">
-              <SelectItem value="all">All Types</SelectItem>
-              <SelectItem value="info">Info</SelectItem>
-              <SelectItem value="success">Success</SelectItem>
-              <SelectItem value="warning">Warning</SelectItem>
-              <SelectItem value="error">Error</SelectItem>
+              <SelectItem value="all">All Actions</SelectItem>
+              {ACTIONS.map(action => (
+                <SelectItem key={action.value} value={action.value}>{action.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
 
-          <Select value={filterCategory} onValueChange={setFilterCategory}>
-            <SelectTrigger className="w-40 bg-purple-900/20 border-neo-accent/30 text-neo-text">
-              <SelectValue placeholder="Category" />
+          <Select value={filterTarget} onValueChange={applyFilter(setFilterTarget)}>
+            <SelectTrigger className="w-44 bg-purple-900/20 border-neo-accent/30 text-neo-text">
+              <SelectValue placeholder="Target" />
             </SelectTrigger>
             <SelectContent className="bg-black border-neo-accent/30">
-              <SelectItem value="all">All Categories</SelectItem>
-              <SelectItem value="game">Game</SelectItem>
-              <SelectItem value="user">User</SelectItem>
-              <SelectItem value="admin">Admin</SelectItem>
-              <SelectItem value="system">System</SelectItem>
+              <SelectItem value="all">All Targets</SelectItem>
+              {TARGET_TYPES.map(target => (
+                <SelectItem key={target.value} value={target.value}>{target.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
 
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              applyFilter(setAppliedActor)(actor.trim());
+            }}
+          >
+            <Input
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              placeholder="Admin username"
+              className="w-44 bg-purple-900/20 border-neo-accent/30 text-neo-text"
+            />
+          </form>
+
           <span className="text-neo-text-secondary text-sm">
-            Showing {filteredLogs.length} of {logs.length} logs
+            {total} {total === 1 ? 'event' : 'events'}
           </span>
         </div>
       </div>
 
-      {/* Stats Overview */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-        <div className="neo-glass-card p-4">
-          <div className="flex items-center gap-3">
-            <Info className="w-8 h-8 text-blue-500" />
-            <div>
-              <p className="text-neo-text-secondary text-sm">Info</p>
-              <p className="text-2xl font-mono font-bold text-neo-text">
-                {logs.filter(l => l.type === 'info').length}
-              </p>
-            </div>
-          </div>
-        </div>
-
-        <div className="neo-glass-card p-4">
-          <div className="flex items-center gap-3">
-            <CheckCircle className="w-8 h-8 text-green-500" />
-            <div>
-              <p className="text-neo-text-secondary text-sm">Success</p>
-              <p className="text-2xl font-mono font-bold text-green-400">
-                {logs.filter(l => l.type === 'success').length}
-              </p>
-            </div>
-          </div>
-        </div>
-
-        <div className="neo-glass-card p-4">
-          <div className="flex items-center gap-3">
-            <AlertCircle className="w-8 h-8 text-yellow-500" />
-            <div>
-              <p className="text-neo-text-secondary text-sm">Warning</p>
-              <p className="text-2xl font-mono font-bold text-yellow-400">
-                {logs.filter(l => l.type === 'warning').length}
-              </p>
-            </div>
-          </div>
+      {error && (
+        <div className="neo-glass-card p-4 mb-6 border-2 border-red-500/50 bg-red-900/20 text-red-400">
+          {error}
         </div>
+      )}
 
-        <div className="neo-glass-card p-4">
-          <div className="flex items-center gap-3">
-            <XCircle className="w-8 h-8 text-red-500" />
-            <div>
-              <p className="text-neo-text-secondary text-sm">Error</p>
-              <p className="text-2xl font-mono font-bold text-red-400">
-                {logs.filter(l => l.type === 'error').length}
-              </p>
-            </div>
-          </div>
-        </div>
-      </div>
-
-      {/* Logs List */}
       <div className="neo-glass-card p-6">
         <h2 className="text-neo-accent text-xl font-heading font-bold mb-4">Recent Activity</h2>
         <div className="space-y-3">
-          {filteredLogs.length > 0 ? (
-            filteredLogs.map(log => (
-              <div 
-                key={log.id} 
-                className={`p-4 rounded-lg border transition-all hover:border-opacity-70 ${getLogColor(log.type)}`}
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex items-start gap-3 flex-1">
-                    {getLogIcon(log.type)}
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className={`px-2 py-0.5 text-xs rounded border font-semibold ${getCategoryBadge(log.category)}`}>
-                          {log.category.toUpperCase()}
-                        </span>
-                        <span className="text-neo-text-secondary text-sm">
-                          {new Date(log.timestamp).toLocaleTimeString()} - {new Date(log.timestamp).toLocaleDateString()}
-                        </span>
-                      </div>
-                      <p className="text-neo-text font-semibold">{log.message}</p>
-                      {log.details && (
-                        <p className="text-neo-text-secondary text-sm mt-1">{log.details}</p>
-                      )}
-                    </div>
-                  </div>
+          {isLoading ? (
+            <p className="text-center text-neo-text-secondary py-8">Loading audit logs...</p>
+          ) : events.length > 0 ? (
+            events.map(event => (
+              <div key={event.id} className="p-4 rounded-lg border border-neo-accent/20 bg-purple-900/10">
+                <div className="flex items-center gap-2 mb-1 flex-wrap">
+                  <span className={`px-2 py-0.5 text-xs rounded border font-semibold ${getActionBadge(event.action)}`}>
+                    {event.action.toUpperCase()}
+                  </span>
+                  <span className="text-neo-text font-semibold">{event.actorUsername}</span>
+                  <span className="text-neo-text-secondary text-sm">
+                    {new Date(event.createdAt).toLocaleTimeString()} - {new Date(event.createdAt).toLocaleDateString()}
+                  </span>
+                  {event.ipAddress && (
+                    <span className="text-neo-text-secondary text-xs font-mono">{event.ipAddress}</span>
+                  )}
                 </div>
+                <p className="text-neo-text">{event.description}</p>
+                {event.targetType && (
+                  <p className="text-neo-text-secondary text-sm mt-1">
+                    Target: {event.targetType}{event.targetId ? ` #${event.targetId}` : ''}
+                  </p>
+                )}
+                {(event.before || event.after) && (
+                  <p className="text-neo-text-secondary text-sm mt-1 font-mono break-all">
+                    {formatValues(event.before)} → {formatValues(event.after)}
+                  </p>
+                )}
               </div>
             ))
           ) : (
             <p className="text-center text-neo-text-secondary py-8">No logs match the selected filters</p>
           )}
         </div>
+
+        <div className="flex items-center justify-between mt-6">
+          <Button
+            variant="outline"
+            disabled={page <= 1}
+            onClick={() => setPage(prev => prev - 1)}
+            className="border-neo-accent/50 text-neo-accent hover:bg-neo-accent/20"
+          >
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            Previous
+          </Button>
+          <span className="text-neo-text-secondary text-sm">Page {page} of {totalPages}</span>
+          <Button
+            variant="outline"
+            disabled={page >= totalPages}
+            onClick={() => setPage(prev => prev + 1)}
+            className="border-neo-accent/50 text-neo-accent hover:bg-neo-accent/20"
+          >
+            Next
+            <ChevronRight className="w-4 h-4 ml-1" />
+          </Button>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { MessageSquare, Trash2, VolumeX, Volume2, RefreshCw } from 'lucide-react';
+import { Button } from '../../ui/button';
+
+interface ModeratedMessage {
+  id: number;
+  roomId: string;
+  userId: number;
+  username: string;
+  message: string;
+  createdAt: string;
+  chatMutedUntil: string | null;
+}
+
+const MUTE_OPTIONS = [
+  { label: '10m', minutes: 10 },
+  { label: '1h', minutes: 60 },
+  { label: '24h', minutes: 24 * 60 },
+];
+
+export default function ChatModeration() {
+  const [messages, setMessages] = useState<ModeratedMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showSuccessMessage, setShowSuccessMessage] = useState<string | null>(null);
+  const [showErrorMessage, setShowErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchMessages();
+    const interval = setInterval(fetchMessages, 10000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const fetchMessages = async () => {
+    try {
+      const response = await fetch('/api/admin/chat/messages');
+      if (response.ok) {
+        const data = await response.json();
+        setMessages(data.messages);
+      }
+    } catch (error) {
+      console.error('Error fetching chat messages:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const flash = (success: string | null, error: string | null) => {
+    setShowSuccessMessage(success);
+    setShowErrorMessage(error);
+    setTimeout(() => {
+      setShowSuccessMessage(null);
+      setShowErrorMessage(null);
+    }, 3000);
+  };
+
+  const handleDelete = async (messageId: number) => {
+    try {
+      const response = await fetch(`/api/admin/chat/messages/${messageId}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (response.ok) {
+        setMessages(prev => prev.filter(message => message.id !== messageId));
+        flash('Message deleted', null);
+      } else {
+        flash(null, result.message || 'Failed to delete message');
+      }
+    } catch (error) {
+      console.error('Error deleting chat message:', error);
+      flash(null, 'Error deleting message');
+    }
+  };
+
+  const handleMute = async (userId: number, minutes: number) => {
+    try {
+      const response = await fetch(`/api/admin/chat/mutes/${userId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ minutes }),
+      });
+      const result = await response.json();
+      if (response.ok) {
+        setMessages(prev => prev.map(message =>
+          message.userId === userId ? { ...message, chatMutedUntil: result.chatMutedUntil } : message
+        ));
+        flash(result.message, null);
+      } else {
+        flash(null, result.message || 'Failed to update mute');
+      }
+    } catch (error) {
+      console.error('Error muting user:', error);
+      flash(null, 'Error updating mute');
+    }
+  };
+
+  const isMuted = (message: ModeratedMessage) =>
+    message.chatMutedUntil !== null && new Date(message.chatMutedUntil) > new Date();
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-heading font-bold text-neo-accent mb-2 flex items-center gap-3">
+            <MessageSquare className="w-8 h-8" />
+            Chat Moderation
+          </h1>
+          <p className="text-neo-text-secondary">Remove messages and mute players in the Lucky 7 and Coin Toss room chats</p>
+        </div>
+        <Button
+          onClick={fetchMessages}
+          variant="outline"
+          className="border-2 border-neo-accent text-neo-accent hover:bg-neo-accent hover:text-neo-bg font-heading font-semibold transition-all duration-300"
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {showSuccessMessage && (
+        <div className="neo-glass-card p-4 mb-6 border-2 border-green-500/50 bg-green-900/20 text-green-400">
+          {showSuccessMessage}
+        </div>
+      )}
+      {showErrorMessage && (
+        <div className="neo-glass-card p-4 mb-6 border-2 border-red-500/50 bg-red-900/20 text-red-400">
+          {showErrorMessage}
+        </div>
+      )}
+
+      <div className="neo-glass-card p-6">
+        <h2 className="text-neo-accent text-xl font-heading font-bold mb-4">Recent Messages</h2>
+        <div className="space-y-3">
+          {isLoading ? (
+            <p className="text-center text-neo-text-secondary py-8">Loading messages...</p>
+          ) : messages.length > 0 ? (
+            messages.map(message => (
+              <div key={message.id} className="p-4 rounded-lg border border-neo-accent/20 bg-purple-900/10">
+                <div className="flex items-start justify-between gap-4 flex-wrap">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1 flex-wrap">
+                      <span className="px-2 py-0.5 text-xs rounded border font-semibold border-neo-accent/40 text-neo-accent">
+                        {message.roomId}
+                      </span>
+                      <span className="text-neo-text font-semibold">{message.username}</span>
+                      {isMuted(message) && (
+                        <span className="px-2 py-0.5 text-xs rounded border font-semibold border-red-500/40 text-red-400">
+                          MUTED UNTIL {new Date(message.chatMutedUntil!).toLocaleString()}
+                        </span>
+                      )}
+                      <span className="text-neo-text-secondary text-sm">
+                        {new Date(message.createdAt).toLocaleTimeString()} - {new Date(message.createdAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <p className="text-neo-text break-words">{message.message}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isMuted(message) ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleMute(message.userId, 0)}
+                        className="border-green-500 text-green-500 hover:bg-green-500 hover:text-black"
+                      >
+                        <Volume2 className="w-4 h-4 mr-1" />
+                        Unmute
+                      </Button>
+                    ) : (
+                      MUTE_OPTIONS.map(option => (
+                        <Button
+                          key={option.minutes}
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleMute(message.userId, option.minutes)}
+                          className="border-yellow-500 text-yellow-500 hover:bg-yellow-500 hover:text-black"
+                        >
+                          <VolumeX className="w-4 h-4 mr-1" />
+                          {option.label}
+                        </Button>
+                      ))
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDelete(message.id)}
+                      className="border-red-500 text-red-500 hover:bg-red-500 hover:text-white"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))
+          ) : (
+            <p className="text-center text-neo-text-secondary py-8">No chat messages yet</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
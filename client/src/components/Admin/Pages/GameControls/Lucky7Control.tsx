@@ -5,7 +5,14 @@ import { Badge } from '../../../ui/badge';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '../../../ui/dialog';
 import { Target, AlertTriangle, ArrowLeft } from 'lucide-react';
 
+interface TableSummary {
+  id: string;
+  name: string;
+  playerCount: number;
+}
+
 interface CurrentRoundData {
+  roomId: string;
   gameId: number;
   totalBets: number;
   betsByType: {
@@ -33,17 +40,26 @@ export default function Lucky7Control() {
   const [pendingOverride, setPendingOverride] = useState<string | null>(null);
   const [showSuccessMessage, setShowSuccessMessage] = useState<string | null>(null);
   const [showErrorMessage, setShowErrorMessage] = useState<string | null>(null);
+  const [tables, setTables] = useState<TableSummary[]>([]);
+  const [selectedTable, setSelectedTable] = useState('GLOBAL');
+
+  useEffect(() => {
+    fetch('/api/rooms')
+      .then(response => response.ok ? response.json() : { rooms: [] })
+      .then(data => setTables(data.rooms))
+      .catch(err => console.error('Failed to fetch tables:', err));
+  }, []);
 
   useEffect(() => {
     fetchCurrentRound(true);
     const interval = setInterval(() => fetchCurrentRound(false), 5000);
     return () => clearInterval(interval);
-  }, []);
+  }, [selectedTable]);
 
   const fetchCurrentRound = async (isInitialLoad = false) => {
     try {
       if (isInitialLoad) setIsLoadingRound(true);
-      const response = await fetch('/api/admin/current-round');
+      const response = await fetch(`/api/admin/current-round?roomId=${encodeURIComponent(selectedTable)}`);
       if (response.ok) {
         const data = await response.json();
         setCurrentRound(data);
@@ -111,6 +127,23 @@ export default function Lucky7Control() {
         <p className="text-neo-text-secondary">Override Lucky 7 game results during countdown phase</p>
       </div>
 
+      {tables.length > 1 && (
+        <div className="mb-4 flex flex-wrap gap-2">
+          {tables.map(table => (
+            <Button
+              key={table.id}
+              onClick={() => setSelectedTable(table.id)}
+              variant={selectedTable === table.id ? 'default' : 'outline'}
+              className={selectedTable === table.id
+                ? 'bg-neo-accent text-neo-bg'
+                : 'border-neo-accent text-neo-accent hover:bg-neo-accent hover:text-neo-bg'}
+            >
+              {table.name} ({table.playerCount})
+            </Button>
+          ))}
+        </div>
+      )}
+
       {showSuccessMessage && (
         <div className="mb-4 p-4 bg-green-500/20 border border-green-500 rounded-lg text-green-300">
           {showSuccessMessage}
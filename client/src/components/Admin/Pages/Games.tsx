@@ -1,10 +1,35 @@
-import { Gamepad2, RefreshCw, History, Cog, TrendingUp, Image, MessageSquare } from 'lucide-react';
+import { Gamepad2, RefreshCw, History, Cog, TrendingUp, Image, MessageSquare, Timer, Scale } from 'lucide-react';
 import { Button } from '../../ui/button';
 import { Input } from '../../ui/input';
 import { Textarea } from '../../ui/textarea';
 import { toast } from 'sonner';
 import { useState, useEffect } from 'react';
 
+type TimedGame = 'lucky7' | 'coin_toss';
+
+interface RoundTimingsForm {
+  bettingSeconds: string;
+  lockSeconds: string;
+  resultDisplaySeconds: string;
+}
+
+interface TableLimitsForm {
+  betTypes: string[];
+  betLimits: Record<string, { minBet: string; maxBet: string }>;
+  maxRoundWager: string;
+}
+
+const TIMED_GAMES: { id: TimedGame; label: string }[] = [
+  { id: 'lucky7', label: 'Lucky 7' },
+  { id: 'coin_toss', label: 'Coin Toss' },
+];
+
+const TIMING_FIELDS: { key: keyof RoundTimingsForm; label: string; hint: string }[] = [
+  { key: 'bettingSeconds', label: 'Betting Duration (seconds)', hint: 'How long bets are accepted each round' },
+  { key: 'lockSeconds', label: 'Lock Period (seconds)', hint: 'Closed window before the result is revealed' },
+  { key: 'resultDisplaySeconds', label: 'Result Display (seconds)', hint: 'Pause after the reveal before the next round' },
+];
+
 export default function GamesPage() {
   const [lucky7BgUrl, setLucky7BgUrl] = useState('');
   const [cointossBgUrl, setCointossBgUrl] = useState('');
@@ -13,6 +38,16 @@ export default function GamesPage() {
   const [depositMessage, setDepositMessage] = useState('');
   const [savingDepositSettings, setSavingDepositSettings] = useState(false);
   const [bgImageVersion, setBgImageVersion] = useState<number>(Date.now());
+  const [roundTimings, setRoundTimings] = useState<Record<TimedGame, RoundTimingsForm>>({
+    lucky7: { bettingSeconds: '', lockSeconds: '', resultDisplaySeconds: '' },
+    coin_toss: { bettingSeconds: '', lockSeconds: '', resultDisplaySeconds: '' },
+  });
+  const [savingTimings, setSavingTimings] = useState<TimedGame | null>(null);
+  const [tableLimits, setTableLimits] = useState<Record<TimedGame, TableLimitsForm>>({
+    lucky7: { betTypes: [], betLimits: {}, maxRoundWager: '' },
+    coin_toss: { betTypes: [], betLimits: {}, maxRoundWager: '' },
+  });
+  const [savingLimits, setSavingLimits] = useState<TimedGame | null>(null);
 
   const handleImageUpload = async (gameType: 'lucky7' | 'cointoss', file: File) => {
     if (!file) return;
@@ -94,6 +129,170 @@ export default function GamesPage() {
     fetchDepositSettings();
   }, []);
 
+  // Fetch round timings on component mount
+  useEffect(() => {
+    const fetchGameSettings = async () => {
+      try {
+        const response = await fetch('/api/admin/game-settings', {
+          credentials: 'include'
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setRoundTimings(prev => {
+            const next = { ...prev };
+            for (const settings of data.settings) {
+              next[settings.gameType as TimedGame] = {
+                bettingSeconds: String(settings.bettingSeconds),
+                lockSeconds: String(settings.lockSeconds),
+                resultDisplaySeconds: String(settings.resultDisplaySeconds),
+              };
+            }
+            return next;
+          });
+          setTableLimits(prev => {
+            const next = { ...prev };
+            for (const settings of data.settings) {
+              const betLimits: TableLimitsForm['betLimits'] = {};
+              for (const betType of settings.betTypes) {
+                const limit = settings.betLimits[betType];
+                betLimits[betType] = { minBet: limit ? String(limit.minBet) : '', maxBet: limit ? String(limit.maxBet) : '' };
+              }
+              next[settings.gameType as TimedGame] = {
+                betTypes: settings.betTypes,
+                betLimits,
+                maxRoundWager: settings.maxRoundWager === null ? '' : String(settings.maxRoundWager),
+              };
+            }
+            return next;
+          });
+        }
+      } catch (error) {
+        console.error('Error fetching game settings:', error);
+      }
+    };
+
+    fetchGameSettings();
+  }, []);
+
+  const updateTimingField = (game: TimedGame, key: keyof RoundTimingsForm, value: string) => {
+    setRoundTimings(prev => ({ ...prev, [game]: { ...prev[game], [key]: value } }));
+  };
+
+  const handleSaveTimings = async (game: TimedGame, label: string) => {
+    setSavingTimings(game);
+    const saveToast = toast.loading(`Saving ${label} timings...`);
+
+    try {
+      const timings = roundTimings[game];
+      const response = await fetch(`/api/admin/game-settings/${game}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          bettingSeconds: Number(timings.bettingSeconds),
+          lockSeconds: Number(timings.lockSeconds),
+          resultDisplaySeconds: Number(timings.resultDisplaySeconds)
+        })
+      });
+
+      if (response.ok) {
+        toast.success(`${label} timings saved!`, {
+          id: saveToast,
+          description: 'The new timings apply from the next round',
+          duration: 3000
+        });
+      } else {
+        const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
+        toast.error(`Failed to save ${label} timings`, {
+          id: saveToast,
+          description: errorData.message || 'Please try again',
+          duration: 4000
+        });
+      }
+    } catch (error) {
+      console.error('Error saving game settings:', error);
+      toast.error(`Error saving ${label} timings`, {
+        id: saveToast,
+        description: 'Please check your connection and try again',
+        duration: 4000
+      });
+    } finally {
+      setSavingTimings(null);
+    }
+  };
+
+  const updateBetLimitField = (game: TimedGame, betType: string, key: 'minBet' | 'maxBet', value: string) => {
+    setTableLimits(prev => ({
+      ...prev,
+      [game]: {
+        ...prev[game],
+        betLimits: { ...prev[game].betLimits, [betType]: { ...prev[game].betLimits[betType], [key]: value } }
+      }
+    }));
+  };
+
+  const handleSaveLimits = async (game: TimedGame, label: string) => {
+    const form = tableLimits[game];
+
+    // A bet type is only limited when both bounds are filled in
+    const betLimits: Record<string, { minBet: number; maxBet: number }> = {};
+    for (const betType of form.betTypes) {
+      const { minBet, maxBet } = form.betLimits[betType];
+      if (!minBet && !maxBet) continue;
+      if (!minBet || !maxBet) {
+        toast.error('Missing Information', {
+          description: `Enter both a minimum and a maximum for ${betType}, or leave both empty`,
+          duration: 3000
+        });
+        return;
+      }
+      betLimits[betType] = { minBet: Number(minBet), maxBet: Number(maxBet) };
+    }
+
+    setSavingLimits(game);
+    const saveToast = toast.loading(`Saving ${label} table limits...`);
+
+    try {
+      const response = await fetch(`/api/admin/game-settings/${game}/limits`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          betLimits,
+          maxRoundWager: form.maxRoundWager ? Number(form.maxRoundWager) : null
+        })
+      });
+
+      if (response.ok) {
+        toast.success(`${label} table limits saved!`, {
+          id: saveToast,
+          description: 'New bets are checked against these limits straight away',
+          duration: 3000
+        });
+      } else {
+        const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
+        toast.error(`Failed to save ${label} table limits`, {
+          id: saveToast,
+          description: errorData.message || 'Please try again',
+          duration: 4000
+        });
+      }
+    } catch (error) {
+      console.error('Error saving table limits:', error);
+      toast.error(`Error saving ${label} table limits`, {
+        id: saveToast,
+        description: 'Please check your connection and try again',
+        duration: 4000
+      });
+    } finally {
+      setSavingLimits(null);
+    }
+  };
+
   const handleSaveDepositSettings = async () => {
     if (!whatsappNumber || !depositMessage) {
       toast.error('Missing Information', {
@@ -195,6 +394,7 @@ export default function GamesPage() {
           <div className="space-y-3">
             <Button 
               variant="outline"
+              onClick={() => document.getElementById('round-timings')?.scrollIntoView({ behavior: 'smooth' })}
               className="w-full border-2 border-neo-accent text-neo-accent hover:bg-neo-accent hover:text-neo-bg font-heading py-6 transition-all duration-300"
             >
               <Cog className="w-5 h-5 inline mr-2" />
@@ -252,6 +452,109 @@ export default function GamesPage() {
         </div>
       </div>
 
+      {/* Round Timings */}
+      <div id="round-timings" className="neo-glass-card p-6 mt-6">
+        <h2 className="text-neo-accent text-xl font-heading font-bold mb-4 flex items-center gap-2">
+          <Timer className="w-6 h-6" />
+          Round Timings
+        </h2>
+        <p className="text-neo-text-secondary mb-6">Changes apply from the next round; the round in progress keeps its current timings</p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {TIMED_GAMES.map(game => (
+            <div key={game.id} className="border border-neo-accent/30 rounded-lg p-4">
+              <h3 className="text-neo-accent font-semibold mb-3">{game.label}</h3>
+              <div className="space-y-4">
+                {TIMING_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-neo-text font-semibold mb-2">{field.label}</label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={roundTimings[game.id][field.key]}
+                      onChange={(e) => updateTimingField(game.id, field.key, e.target.value)}
+                      className="bg-neo-bg border-neo-border text-neo-text"
+                    />
+                    <p className="text-xs text-neo-text-secondary mt-1">{field.hint}</p>
+                  </div>
+                ))}
+
+                <Button
+                  onClick={() => handleSaveTimings(game.id, game.label)}
+                  disabled={savingTimings !== null || TIMING_FIELDS.some(field => !roundTimings[game.id][field.key])}
+                  className="w-full bg-neo-accent hover:bg-neo-accent/90 text-neo-bg font-heading font-semibold py-3 transition-all duration-300"
+                >
+                  {savingTimings === game.id ? 'Saving...' : `Save ${game.label} Timings`}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Table Limits */}
+      <div className="neo-glass-card p-6 mt-6">
+        <h2 className="text-neo-accent text-xl font-heading font-bold mb-4 flex items-center gap-2">
+          <Scale className="w-6 h-6" />
+          Table Limits
+        </h2>
+        <p className="text-neo-text-secondary mb-6">Stake range per bet type and the most one player can stake in a round. Leave a field empty for no limit; Lucky 7 tables also keep their own table range.</p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {TIMED_GAMES.map(game => (
+            <div key={game.id} className="border border-neo-accent/30 rounded-lg p-4">
+              <h3 className="text-neo-accent font-semibold mb-3">{game.label}</h3>
+              <div className="space-y-4">
+                {tableLimits[game.id].betTypes.map(betType => (
+                  <div key={betType}>
+                    <label className="block text-neo-text font-semibold mb-2 capitalize">{betType}</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        placeholder="Min"
+                        value={tableLimits[game.id].betLimits[betType]?.minBet ?? ''}
+                        onChange={(e) => updateBetLimitField(game.id, betType, 'minBet', e.target.value)}
+                        className="bg-neo-bg border-neo-border text-neo-text"
+                      />
+                      <Input
+                        type="number"
+                        min={1}
+                        placeholder="Max"
+                        value={tableLimits[game.id].betLimits[betType]?.maxBet ?? ''}
+                        onChange={(e) => updateBetLimitField(game.id, betType, 'maxBet', e.target.value)}
+                        className="bg-neo-bg border-neo-border text-neo-text"
+                      />
+                    </div>
+                  </div>
+                ))}
+
+                <div>
+                  <label className="block text-neo-text font-semibold mb-2">Per-Player Round Maximum</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    value={tableLimits[game.id].maxRoundWager}
+                    onChange={(e) => setTableLimits(prev => ({ ...prev, [game.id]: { ...prev[game.id], maxRoundWager: e.target.value } }))}
+                    className="bg-neo-bg border-neo-border text-neo-text"
+                  />
+                  <p className="text-xs text-neo-text-secondary mt-1">Total a player may stake across all bets in one round</p>
+                </div>
+
+                <Button
+                  onClick={() => handleSaveLimits(game.id, game.label)}
+                  disabled={savingLimits !== null || tableLimits[game.id].betTypes.length === 0}
+                  className="w-full bg-neo-accent hover:bg-neo-accent/90 text-neo-bg font-heading font-semibold py-3 transition-all duration-300"
+                >
+                  {savingLimits === game.id ? 'Saving...' : `Save ${game.label} Limits`}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
       {/* Background Settings */}
       <div className="neo-glass-card p-6 mt-6">
         <h2 className="text-neo-accent text-xl font-heading font-bold mb-4 flex items-center gap-2">
@@ -4,12 +4,15 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '.
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '../../ui/dialog';
 import { Input } from '../../ui/input';
 import { Users as UsersIcon, BarChart, Ban, Check, DollarSign, AlertTriangle, Key } from 'lucide-react';
+import { useAuthStore } from '../../../lib/stores/useAuthStore';
+import { ADMIN_ROLES, hasPermission, isAdminRole, toAdminRole } from '@shared/permissions';
 
 interface AdminUser {
   id: number;
   username: string;
   role: string;
   status: 'active' | 'suspended' | 'blocked';
+  selfExclusion: { since: string; until: string | null } | null;
   isOnline: boolean;
   chips: number;
   totalWins: number;
@@ -20,6 +23,7 @@ interface AdminUser {
 }
 
 export default function UsersPage() {
+  const { user: currentUser } = useAuthStore();
   const [users, setUsers] = useState<AdminUser[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -44,6 +48,12 @@ export default function UsersPage() {
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
 
+  const canManageRoles = hasPermission(currentUser?.role, 'roles.manage');
+  const canManageFunds = hasPermission(currentUser?.role, 'funds.manage');
+  // Other admins' accounts are left to superadmins
+  const canManageAccount = (user: AdminUser) =>
+    hasPermission(currentUser?.role, 'users.manage') && (!isAdminRole(user.role) || canManageRoles);
+
   useEffect(() => {
     fetchUsers();
   }, []);
@@ -116,6 +126,30 @@ export default function UsersPage() {
     }
   };
 
+  const handleChangeRole = async (userId: number, role: string) => {
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/role`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setShowSuccessMessage(result.message);
+        setTimeout(() => setShowSuccessMessage(null), 3000);
+        fetchUsers();
+      } else {
+        setShowErrorMessage(result.message || 'Failed to change role');
+        setTimeout(() => setShowErrorMessage(null), 3000);
+      }
+    } catch (err) {
+      console.error('Error changing role:', err);
+      setShowErrorMessage('Error changing role');
+      setTimeout(() => setShowErrorMessage(null), 3000);
+    }
+  };
+
   const handleManageFunds = (userId: number, username: string) => {
     setFundsDialogData({ userId, username });
     setFundsAmount('');
@@ -271,9 +305,9 @@ export default function UsersPage() {
                     <TableCell className="text-white font-medium">{user.id}</TableCell>
                     <TableCell className="text-white font-semibold">
                       {user.username}
-                      {user.role === 'admin' && (
+                      {isAdminRole(user.role) && (
                         <span className="ml-2 text-xs bg-gradient-purple-light text-white px-2 py-1 rounded">
-                          ADMIN
+                          {toAdminRole(user.role)!.toUpperCase()}
                         </span>
                       )}
                     </TableCell>
@@ -285,6 +319,14 @@ export default function UsersPage() {
                       }`}>
                         {user.status?.toUpperCase() || 'ACTIVE'}
                       </span>
+                      {user.selfExclusion && (
+                        <span
+                          className="ml-1 px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+                          title={`Self-excluded since ${new Date(user.selfExclusion.since).toLocaleString()}`}
+                        >
+                          SELF-EXCLUDED {user.selfExclusion.until ? `UNTIL ${new Date(user.selfExclusion.until).toLocaleDateString()}` : 'PERMANENTLY'}
+                        </span>
+                      )}
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-1">
@@ -315,35 +357,50 @@ export default function UsersPage() {
                         >
                           <BarChart className="w-4 h-4" />
                         </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="border-purple-500 text-purple-400 hover:bg-purple-500 hover:text-white"
-                          onClick={() => handleChangePassword(user.id, user.username)}
-                        >
-                          <Key className="w-4 h-4" />
-                        </Button>
-                        {user.role !== 'admin' && (
-                          <>
-                            <Button
-                              size="sm"
-                              variant="outline" 
-                              className={`${user.status === 'blocked' 
-                                ? 'border-green-500 text-green-400 hover:bg-green-500' 
-                                : 'border-red-500 text-red-400 hover:bg-red-500'} hover:text-white`}
-                              onClick={() => handleToggleUserStatus(user.id, user.status === 'blocked' ? 'active' : 'blocked')}
-                            >
-                              {user.status === 'blocked' ? <Check className="w-4 h-4" /> : <Ban className="w-4 h-4" />}
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              className="border-blue-500 text-blue-400 hover:bg-blue-500 hover:text-white"
-                              onClick={() => handleManageFunds(user.id, user.username)}
-                            >
-                              <DollarSign className="w-4 h-4" />
-                            </Button>
-                          </>
+                        {canManageAccount(user) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-purple-500 text-purple-400 hover:bg-purple-500 hover:text-white"
+                            onClick={() => handleChangePassword(user.id, user.username)}
+                          >
+                            <Key className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {canManageAccount(user) && !isAdminRole(user.role) && (
+                          <Button
+                            size="sm"
+                            variant="outline" 
+                            className={`${user.status === 'blocked' 
+                              ? 'border-green-500 text-green-400 hover:bg-green-500' 
+                              : 'border-red-500 text-red-400 hover:bg-red-500'} hover:text-white`}
+                            onClick={() => handleToggleUserStatus(user.id, user.status === 'blocked' ? 'active' : 'blocked')}
+                          >
+                            {user.status === 'blocked' ? <Check className="w-4 h-4" /> : <Ban className="w-4 h-4" />}
+                          </Button>
+                        )}
+                        {canManageFunds && !isAdminRole(user.role) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-blue-500 text-blue-400 hover:bg-blue-500 hover:text-white"
+                            onClick={() => handleManageFunds(user.id, user.username)}
+                          >
+                            <DollarSign className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {canManageRoles && user.id !== currentUser?.id && (
+                          <select
+                            value={toAdminRole(user.role) ?? 'user'}
+                            onChange={(e) => handleChangeRole(user.id, e.target.value)}
+                            className="bg-white/10 border border-neo-border rounded-md px-2 text-neo-text text-xs focus:outline-none focus:border-neo-accent"
+                            aria-label={`Role for ${user.username}`}
+                          >
+                            <option value="user" className="bg-black">Player</option>
+                            {ADMIN_ROLES.map(role => (
+                              <option key={role} value={role} className="bg-black">{role}</option>
+                            ))}
+                          </select>
                         )}
                       </div>
                     </TableCell>
@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { Wallet, Check, X, RefreshCw } from 'lucide-react';
+import { Button } from '../../ui/button';
+import { Input } from '../../ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../ui/table';
+
+type RequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+interface WalletRequest {
+  id: number;
+  userId: number;
+  username: string;
+  requestType: 'deposit' | 'withdrawal';
+  amount: number;
+  reference: string;
+  status: RequestStatus;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+const STATUS_FILTERS: RequestStatus[] = ['pending', 'approved', 'rejected', 'cancelled'];
+
+export default function WalletRequests() {
+  const [requests, setRequests] = useState<WalletRequest[]>([]);
+  const [statusFilter, setStatusFilter] = useState<RequestStatus>('pending');
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<number | null>(null);
+  const [showSuccessMessage, setShowSuccessMessage] = useState<string | null>(null);
+  const [showErrorMessage, setShowErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [statusFilter]);
+
+  const fetchRequests = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/admin/wallet-requests?status=${statusFilter}`);
+      if (response.ok) {
+        const data = await response.json();
+        setRequests(data.requests);
+      }
+    } catch (error) {
+      console.error('Error fetching wallet requests:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const flash = (success: string | null, error: string | null) => {
+    setShowSuccessMessage(success);
+    setShowErrorMessage(error);
+    setTimeout(() => {
+      setShowSuccessMessage(null);
+      setShowErrorMessage(null);
+    }, 3000);
+  };
+
+  const handleReview = async (request: WalletRequest, decision: 'approve' | 'reject') => {
+    setReviewingId(request.id);
+    try {
+      const response = await fetch(`/api/admin/wallet-requests/${request.id}/${decision}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note: notes[request.id] || '' }),
+      });
+      const result = await response.json();
+      if (response.ok) {
+        flash(`${result.message} for ${request.username}`, null);
+        fetchRequests();
+      } else {
+        flash(null, result.message || `Failed to ${decision} request`);
+      }
+    } catch (error) {
+      console.error(`Error trying to ${decision} wallet request:`, error);
+      flash(null, `Error trying to ${decision} request`);
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-heading font-bold text-neo-accent mb-2 flex items-center gap-3">
+            <Wallet className="w-8 h-8" />
+            Wallet Requests
+          </h1>
+          <p className="text-neo-text-secondary">Approve or reject player deposits and withdrawals</p>
+        </div>
+        <Button
+          onClick={fetchRequests}
+          variant="outline"
+          className="border-2 border-neo-accent text-neo-accent hover:bg-neo-accent hover:text-neo-bg font-heading font-semibold transition-all duration-300"
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {showSuccessMessage && (
+        <div className="neo-glass-card p-4 mb-6 border-2 border-green-500/50 bg-green-900/20 text-green-400">
+          {showSuccessMessage}
+        </div>
+      )}
+      {showErrorMessage && (
+        <div className="neo-glass-card p-4 mb-6 border-2 border-red-500/50 bg-red-900/20 text-red-400">
+          {showErrorMessage}
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-6 flex-wrap">
+        {STATUS_FILTERS.map(status => (
+          <Button
+            key={status}
+            variant="outline"
+            onClick={() => setStatusFilter(status)}
+            className={`border-2 font-heading ${
+              statusFilter === status
+                ? 'bg-neo-accent text-neo-bg border-neo-accent'
+                : 'border-neo-accent/50 text-neo-accent hover:bg-neo-accent/20'
+            }`}
+          >
+            {status.charAt(0).toUpperCase() + status.slice(1)}
+          </Button>
+        ))}
+      </div>
+
+      <div className="neo-glass-card p-6">
+        {isLoading ? (
+          <p className="text-center text-neo-text-secondary py-8">Loading requests...</p>
+        ) : requests.length === 0 ? (
+          <p className="text-center text-neo-text-secondary py-8">No {statusFilter} requests</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-neo-accent">Player</TableHead>
+                <TableHead className="text-neo-accent">Type</TableHead>
+                <TableHead className="text-neo-accent">Amount</TableHead>
+                <TableHead className="text-neo-accent">Reference</TableHead>
+                <TableHead className="text-neo-accent">Requested</TableHead>
+                <TableHead className="text-neo-accent">{statusFilter === 'pending' ? 'Review' : 'Note'}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map(request => (
+                <TableRow key={request.id}>
+                  <TableCell className="text-white font-semibold">{request.username}</TableCell>
+                  <TableCell>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      request.requestType === 'deposit' ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'
+                    }`}>
+                      {request.requestType.toUpperCase()}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-white font-mono">{request.amount.toLocaleString()}</TableCell>
+                  <TableCell className="text-neo-text-secondary break-all">{request.reference}</TableCell>
+                  <TableCell className="text-neo-text-secondary text-sm">{new Date(request.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>
+                    {request.status === 'pending' ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={notes[request.id] || ''}
+                          onChange={(e) => setNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                          placeholder="Note (optional)"
+                          className="w-40 bg-purple-900/20 border-neo-accent/30 text-neo-text"
+                        />
+                        <Button
+                          size="sm"
+                          disabled={reviewingId === request.id}
+                          onClick={() => handleReview(request, 'approve')}
+                          className="bg-green-600 hover:bg-green-700 text-white"
+                        >
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={reviewingId === request.id}
+                          onClick={() => handleReview(request, 'reject')}
+                          className="bg-red-600 hover:bg-red-700 text-white"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <span className="text-neo-text-secondary text-sm">{request.reviewNote || '—'}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,4 +4,6 @@ export { default as GamesPage } from './Games';
 export { default as ResultsControl } from './ResultsControl';
 export { default as AnalyticsPage } from './Analytics';
 export { default as ActivityLogs } from './ActivityLogs';
+export { default as ChatModeration } from './ChatModeration';
+export { default as WalletRequests } from './WalletRequests';
 export { default as DataReset } from './DataReset';
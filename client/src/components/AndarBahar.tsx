@@ -4,6 +4,7 @@ import { useAuthStore } from '../lib/stores/useAuthStore';
 import { Button } from './ui/button';
 import { Card as UICard, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
+import { Input } from './ui/input';
 
 interface Card {
   rank: string;
@@ -11,16 +12,59 @@ interface Card {
   color: 'red' | 'black';
 }
 
+interface SeriesScore {
+  seriesId: string;
+  round: number;
+  score: { username: string; wins: number }[];
+}
+
 interface MatchData {
   matchId: string;
   role: 'dealer' | 'guesser';
   opponent: string;
   betAmount: number;
+  deckHash: string;
+  series: SeriesScore;
+}
+
+// How a match ended when the cards did not decide it
+interface MatchEnd {
+  kind: 'forfeit' | 'void';
+  reason: string;
+}
+
+interface RematchState {
+  expiresAt: string;
+  acceptedBy: string[];
+  cancelledReason: string | null;
+}
+
+interface QueueStatus {
+  position: number;
+  betAmount: number;
+  tolerance: number;
+  estimatedWaitSeconds: number | null;
+  expiresAt: string;
+}
+
+interface OpenChallenge {
+  code: string;
+  betAmount: number;
+  expiresAt: string;
+}
+
+// Percentage of the stake the player will accept above or below it
+const STAKE_TOLERANCE_OPTIONS = [0, 10, 25];
+
+// sha256 hex digest, used to check the revealed deck against the committed hash
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
 export default function AndarBahar() {
   const { user } = useAuthStore();
-  const [gameState, setGameState] = useState<'idle' | 'matchmaking' | 'in_match'>('idle');
+  const [gameState, setGameState] = useState<'idle' | 'matchmaking' | 'challenge' | 'in_match'>('idle');
   const [betAmount, setBetAmount] = useState<number>(100);
   const [matchData, setMatchData] = useState<MatchData | null>(null);
   const [jokerCard, setJokerCard] = useState<Card | null>(null);
@@ -29,16 +73,30 @@ export default function AndarBahar() {
   const [baharPile, setBaharPile] = useState<Card[]>([]);
   const [winningSide, setWinningSide] = useState<'andar' | 'bahar' | null>(null);
   const [winner, setWinner] = useState<string | null>(null);
-  const [matchmakingPosition, setMatchmakingPosition] = useState<number>(0);
+  const [stakeTolerancePercent, setStakeTolerancePercent] = useState<number>(0);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
   const [lastDealtCardIndex, setLastDealtCardIndex] = useState<{ pile: 'andar' | 'bahar'; index: number } | null>(null);
+  const [revealedDeck, setRevealedDeck] = useState<{ deckOrder: string; verified: boolean } | null>(null);
+  const [rematch, setRematch] = useState<RematchState | null>(null);
+  const [opponentAway, setOpponentAway] = useState<{ username: string; expiresAt: string } | null>(null);
+  const [matchEnd, setMatchEnd] = useState<MatchEnd | null>(null);
+  const [challenge, setChallenge] = useState<OpenChallenge | null>(null);
+  const [inviteCode, setInviteCode] = useState('');
 
   useEffect(() => {
-    function onMatchmakingJoined(data: { position: number }) {
-      setMatchmakingPosition(data.position);
+    function onMatchmakingJoined(data: QueueStatus) {
+      setQueueStatus(data);
       setGameState('matchmaking');
     }
 
+    function onMatchmakingTimeout(data: { message: string }) {
+      setQueueStatus(null);
+      setGameState('idle');
+      alert(data.message);
+    }
+
     function onMatchFound(data: MatchData) {
+      setChallenge(null);
       setMatchData(data);
       setGameState('in_match');
       setJokerCard(null);
@@ -47,6 +105,60 @@ export default function AndarBahar() {
       setBaharPile([]);
       setWinningSide(null);
       setWinner(null);
+      setRevealedDeck(null);
+      setRematch(null);
+      setOpponentAway(null);
+      setMatchEnd(null);
+    }
+
+    // Sent after a reconnect with everything dealt so far
+    function onMatchResumed(data: MatchData & {
+      status: string;
+      jokerCard: Card | null;
+      guesserChoice: 'andar' | 'bahar' | null;
+      andarPile: Card[];
+      baharPile: Card[];
+    }) {
+      const { jokerCard, guesserChoice, andarPile, baharPile, ...match } = data;
+      onMatchFound(match);
+      setJokerCard(jokerCard);
+      setGuesserChoice(guesserChoice);
+      setAndarPile(andarPile);
+      setBaharPile(baharPile);
+    }
+
+    function onOpponentDisconnected(data: { matchId: string; username: string; expiresAt: string }) {
+      setOpponentAway({ username: data.username, expiresAt: data.expiresAt });
+    }
+
+    function onOpponentReconnected() {
+      setOpponentAway(null);
+    }
+
+    function onMatchForfeited(data: { matchId: string; winner: string; reason: string }) {
+      setWinner(data.winner);
+      setOpponentAway(null);
+      setMatchEnd({ kind: 'forfeit', reason: data.reason });
+    }
+
+    function onMatchVoided(data: { matchId: string; reason: string }) {
+      setOpponentAway(null);
+      setMatchEnd({ kind: 'void', reason: data.reason });
+    }
+
+    function onChallengeCreated(data: OpenChallenge) {
+      setChallenge(data);
+      setGameState('challenge');
+    }
+
+    function onChallengeCancelled(data: { code: string; reason: string }) {
+      setChallenge(null);
+      setGameState('idle');
+      alert(data.reason);
+    }
+
+    function onConnect() {
+      socket.emit('andar-bahar-resume');
     }
 
     function onJokerRevealed(data: { matchId: string; jokerCard: Card; waitingFor: string }) {
@@ -77,10 +189,29 @@ export default function AndarBahar() {
       andarPile: Card[];
       baharPile: Card[];
       jokerCard: Card;
+      deckHash: string;
+      deckOrder: string;
+      series: SeriesScore;
+      rematchExpiresAt: string;
     }) {
       setWinningSide(data.winningSide);
       setWinner(data.winner);
+      setMatchData(prev => prev ? { ...prev, series: data.series } : prev);
+      setRematch({ expiresAt: data.rematchExpiresAt, acceptedBy: [], cancelledReason: null });
       // Don't override piles here - they were already set by card-dealt events
+
+      // Check the revealed deck against the hash committed in match-found
+      sha256Hex(data.deckOrder)
+        .then(hash => setRevealedDeck({ deckOrder: data.deckOrder, verified: hash === data.deckHash }))
+        .catch(() => setRevealedDeck({ deckOrder: data.deckOrder, verified: false }));
+    }
+
+    function onRematchStatus(data: { matchId: string; acceptedBy: string[]; expiresAt: string }) {
+      setRematch(prev => prev ? { ...prev, acceptedBy: data.acceptedBy, expiresAt: data.expiresAt } : prev);
+    }
+
+    function onRematchCancelled(data: { matchId: string; reason: string }) {
+      setRematch(prev => prev ? { ...prev, cancelledReason: data.reason } : prev);
     }
 
     function onError(error: string) {
@@ -89,18 +220,43 @@ export default function AndarBahar() {
     }
 
     socket.on('matchmaking-joined', onMatchmakingJoined);
+    socket.on('matchmaking-timeout', onMatchmakingTimeout);
     socket.on('match-found', onMatchFound);
     socket.on('joker-revealed', onJokerRevealed);
     socket.on('card-dealt', onCardDealt);
     socket.on('match-completed', onMatchCompleted);
+    socket.on('match-resumed', onMatchResumed);
+    socket.on('opponent-disconnected', onOpponentDisconnected);
+    socket.on('opponent-reconnected', onOpponentReconnected);
+    socket.on('match-forfeited', onMatchForfeited);
+    socket.on('match-voided', onMatchVoided);
+    socket.on('challenge-created', onChallengeCreated);
+    socket.on('challenge-cancelled', onChallengeCancelled);
+    socket.on('connect', onConnect);
+    socket.on('rematch-status', onRematchStatus);
+    socket.on('rematch-cancelled', onRematchCancelled);
     socket.on('error', onError);
 
+    // Pick up a match this player was in before a refresh or dropped connection
+    socket.emit('andar-bahar-resume');
+
     return () => {
       socket.off('matchmaking-joined', onMatchmakingJoined);
+      socket.off('matchmaking-timeout', onMatchmakingTimeout);
       socket.off('match-found', onMatchFound);
       socket.off('joker-revealed', onJokerRevealed);
       socket.off('card-dealt', onCardDealt);
       socket.off('match-completed', onMatchCompleted);
+      socket.off('match-resumed', onMatchResumed);
+      socket.off('opponent-disconnected', onOpponentDisconnected);
+      socket.off('opponent-reconnected', onOpponentReconnected);
+      socket.off('match-forfeited', onMatchForfeited);
+      socket.off('match-voided', onMatchVoided);
+      socket.off('challenge-created', onChallengeCreated);
+      socket.off('challenge-cancelled', onChallengeCancelled);
+      socket.off('connect', onConnect);
+      socket.off('rematch-status', onRematchStatus);
+      socket.off('rematch-cancelled', onRematchCancelled);
       socket.off('error', onError);
     };
   }, []);
@@ -110,11 +266,31 @@ export default function AndarBahar() {
       alert('You must be logged in to play');
       return;
     }
-    socket.emit('andar-bahar-join', { 
-      betAmount,
-      userId: user.id,
-      username: user.username
-    });
+    const tolerance = Math.floor(betAmount * stakeTolerancePercent / 100);
+    socket.emit('andar-bahar-join', { betAmount, tolerance });
+  };
+
+  const handleCreateChallenge = () => {
+    if (!user) {
+      alert('You must be logged in to play');
+      return;
+    }
+    socket.emit('andar-bahar-create-challenge', { betAmount });
+  };
+
+  const handleJoinChallenge = () => {
+    if (!user) {
+      alert('You must be logged in to play');
+      return;
+    }
+    if (!inviteCode.trim()) return;
+    socket.emit('andar-bahar-join-challenge', { code: inviteCode.trim().toUpperCase() });
+  };
+
+  const handleCancelChallenge = () => {
+    socket.emit('andar-bahar-cancel-challenge');
+    setChallenge(null);
+    setGameState('idle');
   };
 
   const handleMakeChoice = (choice: 'andar' | 'bahar') => {
@@ -124,7 +300,20 @@ export default function AndarBahar() {
     }
   };
 
+  const handleRematch = () => {
+    if (matchData) {
+      socket.emit('andar-bahar-rematch', { matchId: matchData.matchId, accept: true });
+    }
+  };
+
   const handlePlayAgain = () => {
+    // Leaving the result screen turns down a rematch that is still open
+    if (matchData && rematch && !rematch.cancelledReason) {
+      socket.emit('andar-bahar-rematch', { matchId: matchData.matchId, accept: false });
+    }
+    setRematch(null);
+    setOpponentAway(null);
+    setMatchEnd(null);
     setGameState('idle');
     setMatchData(null);
     setJokerCard(null);
@@ -133,6 +322,7 @@ export default function AndarBahar() {
     setBaharPile([]);
     setWinningSide(null);
     setWinner(null);
+    setRevealedDeck(null);
   };
 
   const getCardSymbol = (suit: string) => {
@@ -216,12 +406,91 @@ export default function AndarBahar() {
               </div>
             </div>
 
+            <div className="space-y-3">
+              <label className="text-white text-sm font-semibold">Match stakes within:</label>
+              <div className="grid grid-cols-3 gap-2">
+                {STAKE_TOLERANCE_OPTIONS.map(percent => (
+                  <Button
+                    key={percent}
+                    onClick={() => setStakeTolerancePercent(percent)}
+                    variant={stakeTolerancePercent === percent ? 'default' : 'outline'}
+                    className={stakeTolerancePercent === percent
+                      ? 'bg-casino-gold text-casino-black hover:bg-casino-gold/80'
+                      : 'border-casino-gold text-casino-gold hover:bg-casino-gold/20'
+                    }
+                    size="sm"
+                  >
+                    {percent === 0 ? 'Exact' : `±${percent}%`}
+                  </Button>
+                ))}
+              </div>
+              {stakeTolerancePercent > 0 && (
+                <p className="text-xs text-casino-gold">
+                  The match is played at the lower of the two stakes.
+                </p>
+              )}
+            </div>
+
             <Button 
               onClick={handleJoinMatchmaking}
               className="w-full bg-casino-red hover:bg-red-700 text-white font-bold py-4 text-lg glow-red"
             >
               🎰 Find Match - {betAmount} Chips
             </Button>
+
+            <div className="border-t border-casino-gold/30 pt-4 space-y-3">
+              <p className="text-white text-sm font-semibold">Play a friend:</p>
+              <Button
+                onClick={handleCreateChallenge}
+                variant="outline"
+                className="w-full border-casino-gold text-casino-gold hover:bg-casino-gold/20"
+              >
+                🤝 Create Challenge - {betAmount} Chips
+              </Button>
+              <div className="flex gap-2">
+                <Input
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                  placeholder="Invite code"
+                  maxLength={12}
+                  className="bg-casino-black border-casino-gold text-white font-mono tracking-widest"
+                />
+                <Button
+                  onClick={handleJoinChallenge}
+                  disabled={!inviteCode.trim()}
+                  className="bg-casino-gold text-casino-black hover:bg-casino-gold/80 font-bold"
+                >
+                  Join
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </UICard>
+      </div>
+    );
+  }
+
+  // Waiting for a friend to use the invite code
+  if (gameState === 'challenge' && challenge) {
+    return (
+      <div className="min-h-screen bg-casino-green flex items-center justify-center p-4">
+        <UICard className="w-full max-w-md bg-casino-black border-casino-gold border-2">
+          <CardContent className="py-12 text-center space-y-6">
+            <div className="text-casino-gold text-6xl">🤝</div>
+            <h2 className="text-2xl font-bold text-casino-gold">Challenge Created</h2>
+            <p className="text-white">Share this code with your friend:</p>
+            <p className="text-4xl font-mono font-bold tracking-widest text-white">{challenge.code}</p>
+            <p className="text-casino-gold">Stake: {challenge.betAmount} chips each</p>
+            <p className="text-xs text-casino-gold/80">
+              Expires at {new Date(challenge.expiresAt).toLocaleTimeString()}
+            </p>
+            <Button
+              onClick={handleCancelChallenge}
+              variant="outline"
+              className="border-casino-gold text-casino-gold hover:bg-casino-gold/20"
+            >
+              Cancel Challenge
+            </Button>
           </CardContent>
         </UICard>
       </div>
@@ -236,13 +505,24 @@ export default function AndarBahar() {
           <CardContent className="py-12 text-center space-y-6">
             <div className="text-casino-gold text-6xl animate-pulse">🔍</div>
             <h2 className="text-2xl font-bold text-casino-gold">Finding Opponent...</h2>
-            <p className="text-white">Position in queue: {matchmakingPosition}</p>
-            <p className="text-casino-gold">Bet amount: {betAmount} chips</p>
+            <p className="text-white">Position in queue: {queueStatus?.position ?? '-'}</p>
+            <p className="text-casino-gold">
+              Bet amount: {queueStatus?.betAmount ?? betAmount} chips
+              {queueStatus && queueStatus.tolerance > 0 && ` (±${queueStatus.tolerance})`}
+            </p>
+            <p className="text-white text-sm">
+              {queueStatus?.estimatedWaitSeconds != null
+                ? `Estimated wait: ~${queueStatus.estimatedWaitSeconds}s`
+                : 'Estimated wait: not enough recent matches at this stake'}
+            </p>
+            {queueStatus && (
+              <p className="text-xs text-casino-gold/80">
+                Search ends at {new Date(queueStatus.expiresAt).toLocaleTimeString()}
+              </p>
+            )}
             <Button
               onClick={() => {
-                if (user) {
-                  socket.emit('andar-bahar-leave', { userId: user.id });
-                }
+                socket.emit('andar-bahar-leave');
                 setGameState('idle');
               }}
               variant="outline"
@@ -261,8 +541,10 @@ export default function AndarBahar() {
     const isDealer = matchData.role === 'dealer';
     const isGuesser = matchData.role === 'guesser';
     const showChoice = isGuesser && jokerCard && !guesserChoice;
-    const isGameComplete = winningSide !== null;
+    const isGameComplete = winningSide !== null || matchEnd !== null;
+    const isVoided = matchEnd?.kind === 'void';
     const didIWin = winner === user?.username;
+    const iAcceptedRematch = !!user && !!rematch?.acceptedBy.includes(user.username);
 
     return (
       <div className="min-h-screen bg-casino-green p-4">
@@ -281,8 +563,24 @@ export default function AndarBahar() {
                 💰 {matchData.betAmount} chips
               </Badge>
             </div>
+            {matchData.series.round > 1 || isGameComplete ? (
+              <p className="text-casino-gold mt-2">
+                Series round {matchData.series.round} · {matchData.series.score.map(s => `${s.username} ${s.wins}`).join(' - ')}
+              </p>
+            ) : null}
+            <p className="text-white/60 text-xs font-mono mt-2 break-all">
+              Deck hash: {matchData.deckHash}
+            </p>
           </div>
 
+          {opponentAway && !isGameComplete && (
+            <div className="text-center mb-6">
+              <p className="text-casino-gold text-lg">
+                ⚠️ {opponentAway.username} disconnected. Waiting until {new Date(opponentAway.expiresAt).toLocaleTimeString()} for them to return.
+              </p>
+            </div>
+          )}
+
           {/* Joker Card */}
           {jokerCard && (
             <div className="text-center mb-6">
@@ -362,26 +660,69 @@ export default function AndarBahar() {
           {/* Game Result */}
           {isGameComplete && (
             <div className="text-center mb-6">
-              <UICard className={`${didIWin ? 'bg-green-900 border-casino-gold' : 'bg-red-900 border-red-500'} border-4`}>
+              <UICard className={`${isVoided ? 'bg-casino-black border-casino-gold' : didIWin ? 'bg-green-900 border-casino-gold' : 'bg-red-900 border-red-500'} border-4`}>
                 <CardContent className="py-8">
-                  <h2 className={`text-4xl font-bold mb-4 ${didIWin ? 'text-casino-gold' : 'text-red-300'}`}>
-                    {didIWin ? '🎉 You Won!' : '😞 You Lost'}
+                  <h2 className={`text-4xl font-bold mb-4 ${didIWin || isVoided ? 'text-casino-gold' : 'text-red-300'}`}>
+                    {isVoided ? '↺ Match Voided' : didIWin ? '🎉 You Won!' : '😞 You Lost'}
                   </h2>
-                  <p className="text-white text-xl mb-2">
-                    Winner: <span className="text-casino-gold font-bold">{winner}</span>
-                  </p>
-                  <p className="text-white text-lg mb-4">
-                    Winning side: <span className="text-casino-gold font-bold">{winningSide === 'andar' ? '♣️ Andar' : '♥️ Bahar'}</span>
-                  </p>
+                  {matchEnd && (
+                    <p className="text-white text-lg mb-4">{matchEnd.reason}</p>
+                  )}
+                  {!isVoided && (
+                    <p className="text-white text-xl mb-2">
+                      Winner: <span className="text-casino-gold font-bold">{winner}</span>
+                    </p>
+                  )}
+                  {winningSide && (
+                    <p className="text-white text-lg mb-4">
+                      Winning side: <span className="text-casino-gold font-bold">{winningSide === 'andar' ? '♣️ Andar' : '♥️ Bahar'}</span>
+                    </p>
+                  )}
                   <p className="text-white text-lg">
-                    {didIWin ? `+${matchData.betAmount} chips` : `-${matchData.betAmount} chips`}
+                    {isVoided ? 'Your stake has been refunded' : didIWin ? `+${matchData.betAmount} chips` : `-${matchData.betAmount} chips`}
                   </p>
-                  <Button
-                    onClick={handlePlayAgain}
-                    className="mt-6 bg-casino-gold text-casino-black hover:bg-casino-gold/80 font-bold py-3 px-8 text-lg"
-                  >
-                    Play Again
-                  </Button>
+                  {revealedDeck && (
+                    <div className="mt-4 text-xs text-white/70 font-mono break-all">
+                      <p className={revealedDeck.verified ? 'text-green-300' : 'text-red-300'}>
+                        {revealedDeck.verified ? '✓ Deck matches committed hash' : '✗ Deck does not match committed hash'}
+                      </p>
+                      <p className="mt-1">Deck order: {revealedDeck.deckOrder}</p>
+                    </div>
+                  )}
+                  {rematch && (
+                    <div className="mt-6 text-sm text-white">
+                      {rematch.cancelledReason ? (
+                        <p className="text-red-300">{rematch.cancelledReason}</p>
+                      ) : (
+                        <>
+                          <p>
+                            Rematch with roles swapped - you would be {isDealer ? 'GUESSER' : 'DEALER'}.
+                            Accept before {new Date(rematch.expiresAt).toLocaleTimeString()}.
+                          </p>
+                          {rematch.acceptedBy.length > 0 && (
+                            <p className="text-casino-gold mt-1">Accepted: {rematch.acceptedBy.join(', ')}</p>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
+                  <div className="mt-6 flex justify-center gap-4">
+                    {rematch && !rematch.cancelledReason && (
+                      <Button
+                        onClick={handleRematch}
+                        disabled={iAcceptedRematch}
+                        className="bg-casino-red hover:bg-red-700 text-white font-bold py-3 px-8 text-lg"
+                      >
+                        {iAcceptedRematch ? 'Waiting for opponent...' : `Rematch - ${matchData.betAmount} Chips`}
+                      </Button>
+                    )}
+                    <Button
+                      onClick={handlePlayAgain}
+                      className="bg-casino-gold text-casino-black hover:bg-casino-gold/80 font-bold py-3 px-8 text-lg"
+                    >
+                      Play Again
+                    </Button>
+                  </div>
                 </CardContent>
               </UICard>
             </div>
@@ -0,0 +1,311 @@
+import { useEffect, useRef, useState } from 'react';
+import { socket } from '../lib/socket';
+import { Button } from './ui/button';
+import { Card as UICard, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+
+interface Card {
+  rank: string;
+  suit: 'hearts' | 'diamonds' | 'clubs' | 'spades';
+  color: 'red' | 'black';
+}
+
+interface LiveMatch {
+  matchId: string;
+  dealer: string;
+  guesser: string;
+  betAmount: number;
+  status: string;
+  seriesRound: number;
+  spectatorCount: number;
+}
+
+interface WatchedMatch {
+  matchId: string;
+  dealer: string;
+  guesser: string;
+  betAmount: number;
+  deckHash: string;
+  series: { round: number; score: { username: string; wins: number }[] };
+  jokerCard: Card | null;
+  guesserChoice: 'andar' | 'bahar' | null;
+  andarPile: Card[];
+  baharPile: Card[];
+}
+
+// Set once the match is over, whether by the cards, a forfeit or a void
+interface WatchedResult {
+  winner: string | null;
+  winningSide: 'andar' | 'bahar' | null;
+  message: string;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  placing_bets: 'Starting',
+  choosing_side: 'Choosing side',
+  dealing_cards: 'Dealing'
+};
+
+export default function AndarBaharSpectator() {
+  const [liveMatches, setLiveMatches] = useState<LiveMatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [watched, setWatched] = useState<WatchedMatch | null>(null);
+  const [result, setResult] = useState<WatchedResult | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Read by the socket handlers, which are registered once
+  const watchedMatchId = useRef<string | null>(null);
+
+  useEffect(() => {
+    fetchLiveMatches();
+    // Keep the list fresh while nobody is being watched
+    const interval = setInterval(() => {
+      if (!watched) fetchLiveMatches();
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [watched]);
+
+  useEffect(() => {
+    // Match events carry no room, so anything not about the watched match is ignored
+    const isWatched = (matchId: string) => matchId === watchedMatchId.current;
+
+    function onSpectateJoined(data: WatchedMatch) {
+      watchedMatchId.current = data.matchId;
+      setWatched(data);
+      setResult(null);
+      setNotice(null);
+    }
+
+    function onJokerRevealed(data: { matchId: string; jokerCard: Card }) {
+      if (!isWatched(data.matchId)) return;
+      setWatched(prev => prev ? { ...prev, jokerCard: data.jokerCard } : prev);
+    }
+
+    function onSideChosen(data: { matchId: string; choice: 'andar' | 'bahar' }) {
+      if (!isWatched(data.matchId)) return;
+      setWatched(prev => prev ? { ...prev, guesserChoice: data.choice } : prev);
+    }
+
+    function onCardDealt(data: { matchId: string; card: Card; pile: 'andar' | 'bahar' }) {
+      if (!isWatched(data.matchId)) return;
+      setWatched(prev => {
+        if (!prev) return prev;
+        return data.pile === 'andar'
+          ? { ...prev, andarPile: [...prev.andarPile, data.card] }
+          : { ...prev, baharPile: [...prev.baharPile, data.card] };
+      });
+    }
+
+    function onMatchCompleted(data: { matchId: string; winner: string; winningSide: 'andar' | 'bahar'; series: WatchedMatch['series'] }) {
+      if (!isWatched(data.matchId)) return;
+      setWatched(prev => prev ? { ...prev, series: data.series } : prev);
+      setResult({
+        winner: data.winner,
+        winningSide: data.winningSide,
+        message: `${data.winner} wins on ${data.winningSide === 'andar' ? 'Andar' : 'Bahar'}`
+      });
+    }
+
+    function onMatchForfeited(data: { matchId: string; winner: string; reason: string }) {
+      if (!isWatched(data.matchId)) return;
+      setResult({ winner: data.winner, winningSide: null, message: `${data.winner} wins by forfeit - ${data.reason}` });
+    }
+
+    function onMatchVoided(data: { matchId: string; reason: string }) {
+      if (!isWatched(data.matchId)) return;
+      setResult({ winner: null, winningSide: null, message: `Match voided - ${data.reason}` });
+    }
+
+    function onOpponentDisconnected(data: { matchId: string; username: string }) {
+      if (!isWatched(data.matchId)) return;
+      setNotice(`${data.username} disconnected and may forfeit`);
+    }
+
+    function onOpponentReconnected(data: { matchId: string }) {
+      if (!isWatched(data.matchId)) return;
+      setNotice(null);
+    }
+
+    socket.on('spectate-joined', onSpectateJoined);
+    socket.on('joker-revealed', onJokerRevealed);
+    socket.on('side-chosen', onSideChosen);
+    socket.on('card-dealt', onCardDealt);
+    socket.on('match-completed', onMatchCompleted);
+    socket.on('match-forfeited', onMatchForfeited);
+    socket.on('match-voided', onMatchVoided);
+    socket.on('opponent-disconnected', onOpponentDisconnected);
+    socket.on('opponent-reconnected', onOpponentReconnected);
+
+    return () => {
+      socket.off('spectate-joined', onSpectateJoined);
+      socket.off('joker-revealed', onJokerRevealed);
+      socket.off('side-chosen', onSideChosen);
+      socket.off('card-dealt', onCardDealt);
+      socket.off('match-completed', onMatchCompleted);
+      socket.off('match-forfeited', onMatchForfeited);
+      socket.off('match-voided', onMatchVoided);
+      socket.off('opponent-disconnected', onOpponentDisconnected);
+      socket.off('opponent-reconnected', onOpponentReconnected);
+      socket.emit('andar-bahar-stop-spectating');
+    };
+  }, []);
+
+  const fetchLiveMatches = async () => {
+    try {
+      const response = await fetch('/api/andar-bahar/live');
+      if (response.ok) {
+        const data = await response.json();
+        setLiveMatches(data.matches);
+      }
+    } catch (error) {
+      console.error('Failed to fetch live matches:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleWatch = (matchId: string) => {
+    socket.emit('andar-bahar-spectate', { matchId });
+  };
+
+  const handleBackToList = () => {
+    socket.emit('andar-bahar-stop-spectating');
+    watchedMatchId.current = null;
+    setWatched(null);
+    setResult(null);
+    setNotice(null);
+    fetchLiveMatches();
+  };
+
+  const renderCard = (card: Card, index: number, highlight = false) => {
+    const isRed = card.color === 'red';
+    const suitSymbol = { hearts: '♥️', diamonds: '♦️', clubs: '♣️', spades: '♠️' }[card.suit];
+
+    return (
+      <div
+        key={index}
+        className={`inline-block w-12 h-16 rounded-lg border-2 ${isRed ? 'border-red-500' : 'border-black'} bg-white
+          ${highlight ? 'ring-4 ring-casino-gold glow-gold' : ''} shadow-lg m-1 flex flex-col items-center justify-center`}
+      >
+        <div className={`text-lg font-bold ${isRed ? 'text-red-600' : 'text-black'}`}>{card.rank}</div>
+        <div className={`text-lg ${isRed ? 'text-red-600' : 'text-black'}`}>{suitSymbol}</div>
+      </div>
+    );
+  };
+
+  if (watched) {
+    const renderPile = (side: 'andar' | 'bahar', pile: Card[]) => (
+      <UICard className={`bg-casino-black border-2 ${result?.winningSide === side ? 'border-casino-gold' : side === 'andar' ? 'border-white' : 'border-red-600'}`}>
+        <CardHeader>
+          <CardTitle className={`text-center ${side === 'andar' ? 'text-white' : 'text-red-400'}`}>
+            {side === 'andar' ? '♣️ Andar' : '♥️ Bahar'} ({pile.length})
+            {watched.guesserChoice === side && <span className="ml-2 text-casino-gold text-sm">← {watched.guesser}'s pick</span>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap justify-center">
+            {pile.map((card, idx) => renderCard(card, idx, result?.winningSide === side && idx === pile.length - 1))}
+          </div>
+        </CardContent>
+      </UICard>
+    );
+
+    return (
+      <div className="min-h-screen bg-casino-green p-4">
+        <div className="max-w-6xl mx-auto">
+          <div className="text-center mb-6">
+            <h1 className="text-3xl font-bold text-casino-gold mb-2">👀 Watching Andar Bahar</h1>
+            <div className="flex justify-center flex-wrap gap-3">
+              <Badge className="bg-casino-gold text-casino-black text-lg px-4 py-2">🎴 {watched.dealer}</Badge>
+              <Badge className="bg-casino-black text-casino-gold border-casino-gold text-lg px-4 py-2">🤔 {watched.guesser}</Badge>
+              <Badge className="bg-casino-red text-white text-lg px-4 py-2">💰 {watched.betAmount} chips each</Badge>
+            </div>
+            {watched.series.round > 1 && (
+              <p className="text-casino-gold mt-2">
+                Series round {watched.series.round} · {watched.series.score.map(s => `${s.username} ${s.wins}`).join(' - ')}
+              </p>
+            )}
+            <p className="text-white/60 text-xs font-mono mt-2 break-all">Deck hash: {watched.deckHash}</p>
+          </div>
+
+          {notice && !result && (
+            <p className="text-center text-casino-gold text-lg mb-4">⚠️ {notice}</p>
+          )}
+
+          <div className="text-center mb-6">
+            {watched.jokerCard ? (
+              <>
+                <p className="text-casino-gold text-xl mb-3 font-semibold">Joker Card:</p>
+                {renderCard(watched.jokerCard, 0)}
+              </>
+            ) : (
+              <p className="text-casino-gold text-xl animate-pulse">⏳ Waiting for the joker...</p>
+            )}
+            {watched.jokerCard && !watched.guesserChoice && !result && (
+              <p className="text-white mt-3 animate-pulse">{watched.guesser} is choosing a side...</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-6 mb-6">
+            {renderPile('andar', watched.andarPile)}
+            {renderPile('bahar', watched.baharPile)}
+          </div>
+
+          {result && (
+            <div className="text-center mb-6">
+              <p className="text-3xl font-bold text-casino-gold">{result.winner ? '🏆 ' : '↺ '}{result.message}</p>
+            </div>
+          )}
+
+          <div className="text-center">
+            <Button
+              onClick={handleBackToList}
+              variant="outline"
+              className="border-casino-gold text-casino-gold hover:bg-casino-gold/20"
+            >
+              ← Live Matches
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-casino-green flex items-center justify-center p-4">
+      <UICard className="w-full max-w-lg bg-casino-black border-casino-gold border-2">
+        <CardHeader className="text-center">
+          <CardTitle className="text-3xl font-bold text-casino-gold mb-2">👀 Live Andar Bahar</CardTitle>
+          <p className="text-white">Follow the duels as they are dealt</p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <div className="text-center text-casino-gold text-sm">Loading matches...</div>
+          ) : liveMatches.length === 0 ? (
+            <div className="text-center text-casino-gold text-sm">No matches are being played right now.</div>
+          ) : (
+            liveMatches.map(match => (
+              <div
+                key={match.matchId}
+                className="flex items-center justify-between gap-3 rounded-lg border border-casino-gold/40 p-3"
+              >
+                <div className="text-white">
+                  <div className="font-bold">{match.dealer} vs {match.guesser}</div>
+                  <div className="text-xs text-casino-gold">
+                    💰 {match.betAmount} · {STATUS_LABELS[match.status] || match.status}
+                    {match.seriesRound > 1 && ` · Round ${match.seriesRound}`} · 👀 {match.spectatorCount}
+                  </div>
+                </div>
+                <Button
+                  onClick={() => handleWatch(match.matchId)}
+                  className="bg-casino-red hover:bg-red-700 text-white font-bold glow-red"
+                >
+                  Watch
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </UICard>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ interface Bet {
   winAmount: number;
   createdAt: string;
   gameStatus: string;
+  refundReason: string | null;
 }
 
 interface BetHistoryProps {
@@ -215,7 +216,15 @@ export function BetHistory({ socketId, limit = 10 }: BetHistoryProps) {
                       
                       <div className="text-right">
                         <div className="flex items-center gap-2">
-                          {bet.gameStatus === 'completed' ? (
+                          {bet.refundReason ? (
+                            <Badge 
+                              variant="secondary"
+                              className="bg-blue-800/50 text-blue-200 border-blue-400/50"
+                              title={bet.refundReason}
+                            >
+                              REFUNDED
+                            </Badge>
+                          ) : bet.gameStatus === 'completed' ? (
                             <Badge 
                               variant={bet.won ? "default" : "destructive"}
                               className={bet.won 
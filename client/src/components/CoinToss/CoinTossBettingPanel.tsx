@@ -1,15 +1,20 @@
 import { useState, useEffect } from 'react';
 import { socket } from '../../lib/socket';
+import { createClientBetId } from '../../lib/utils';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
 import { Coins, Target, Lock, DollarSign } from 'lucide-react';
+import type { BetLimits } from '../../types/game';
 
 interface BettingPanelProps {
   playerChips: number;
   gameStatus: string;
   countdownTime: number;
+  lockSeconds: number; // Betting closes when this many seconds remain
   roomId: string;
+  betLimits?: Record<string, BetLimits>; // Stake range per bet type, where one is set
+  maxRoundWager?: number | null; // Most the player may stake this round
   onBetsChange?: (bets: Bet[]) => void;
 }
 
@@ -26,7 +31,7 @@ const BET_TYPES = [
 
 const BET_AMOUNTS = [10, 50, 100, 500, 1000, 2000];
 
-export default function CoinTossBettingPanel({ playerChips, gameStatus, countdownTime, roomId, onBetsChange }: BettingPanelProps) {
+export default function CoinTossBettingPanel({ playerChips, gameStatus, countdownTime, lockSeconds, roomId, betLimits = {}, maxRoundWager = null, onBetsChange }: BettingPanelProps) {
   const [selectedBetType, setSelectedBetType] = useState<string>('');
   const [selectedAmount, setSelectedAmount] = useState<number>(10);
   const [currentBets, setCurrentBets] = useState<Bet[]>([]);
@@ -47,11 +52,18 @@ export default function CoinTossBettingPanel({ playerChips, gameStatus, countdow
     }
   }, [gameStatus]);
 
+  const isWithinBetLimits = (betType: string, amount: number) => {
+    const limits = betLimits[betType];
+    return !limits || (amount >= limits.minBet && amount <= limits.maxBet);
+  };
+
   const canPlaceBet = () => {
     return gameStatus === 'countdown' && 
-           countdownTime > 10 && 
+           countdownTime > lockSeconds && 
            selectedBetType && 
            selectedAmount > 0 && 
+           isWithinBetLimits(selectedBetType, selectedAmount) &&
+           (maxRoundWager === null || totalBetAmount + selectedAmount <= maxRoundWager) &&
            totalBetAmount + selectedAmount <= playerChips;
   };
 
@@ -72,7 +84,8 @@ export default function CoinTossBettingPanel({ playerChips, gameStatus, countdow
     socket.emit('coin-toss-place-bet', {
       roomId,
       betType: selectedBetType,
-      amount: selectedAmount
+      amount: selectedAmount,
+      clientBetId: createClientBetId()
     });
 
     console.log(`Placed coin toss bet: ${selectedAmount} on ${selectedBetType}`);
@@ -85,7 +98,7 @@ export default function CoinTossBettingPanel({ playerChips, gameStatus, countdow
   };
 
   const remainingChips = playerChips - totalBetAmount;
-  const bettingWindowClosed = gameStatus !== 'countdown' || countdownTime <= 10;
+  const bettingWindowClosed = gameStatus !== 'countdown' || countdownTime <= lockSeconds;
 
   return (
     <Card className="neo-glass-card border-neo-accent/30 shadow-xl">
@@ -130,6 +143,11 @@ export default function CoinTossBettingPanel({ playerChips, gameStatus, countdow
               <div className="text-xs mt-2 font-mono font-bold" style={{
                 color: type.id === 'heads' ? '#00FFC6' : '#FF005C'
               }}>Odds: {type.odds}</div>
+              {betLimits[type.id] && (
+                <div className="text-xs mt-1 font-mono opacity-80">
+                  Limits: {betLimits[type.id].minBet} – {betLimits[type.id].maxBet}
+                </div>
+              )}
             </button>
           ))}
         </div>
@@ -165,6 +183,12 @@ export default function CoinTossBettingPanel({ playerChips, gameStatus, countdow
             <span className="font-mono">Total Bet:</span>
             <span className="font-mono font-bold text-neo-accent">{totalBetAmount}</span>
           </div>
+          {maxRoundWager !== null && (
+            <div className="flex justify-between text-neo-text">
+              <span className="font-mono">Round Maximum:</span>
+              <span className="font-mono font-bold text-neo-accent">{maxRoundWager}</span>
+            </div>
+          )}
         </div>
 
         {currentBets.length > 0 && (
@@ -1,13 +1,19 @@
 import { useState, useEffect, useRef } from 'react';
 import { socket } from '../../lib/socket';
+import { createClientBetId } from '../../lib/utils';
 import { useAuthStore } from '../../lib/stores/useAuthStore';
+import RoomChat from '../RoomChat';
 import { Volume2, VolumeX, X, DollarSign, Coins, Target, RotateCcw, Lock, LockOpen, Wallet } from 'lucide-react';
+import type { BetLimits, RoundFairness, RoundTimings } from '../../types/game';
 
 interface CoinTossRoomData {
   id: string;
   status: string;
   currentResult: 'heads' | 'tails' | null;
   roundNumber: number;
+  currentGameId?: number;
+  betLimits?: Record<string, BetLimits>;
+  maxRoundWager?: number | null;
 }
 
 interface Bet {
@@ -26,6 +32,12 @@ export default function CoinTossRoom() {
   const [recentResults, setRecentResults] = useState<any[]>([]);
   const [socketId, setSocketId] = useState<string>('');
   const [totalGameCount, setTotalGameCount] = useState<number | null>(null);
+  const [roundFairness, setRoundFairness] = useState<(RoundFairness & { gameId?: number }) | null>(null);
+  const [betLimits, setBetLimits] = useState<Record<string, BetLimits>>({});
+  const [maxRoundWager, setMaxRoundWager] = useState<number | null>(null);
+  const [chatRoomId, setChatRoomId] = useState<string | null>(null);
+  // Replaced by the server's timings as soon as a round is synced
+  const [roundTimings, setRoundTimings] = useState<RoundTimings>({ bettingSeconds: 20, lockSeconds: 10, resultDisplaySeconds: 6 });
   const [isFlipping, setIsFlipping] = useState<boolean>(false);
   const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -192,13 +204,28 @@ export default function CoinTossRoom() {
     }
   };
 
+  const applyRoomLimits = (room: CoinTossRoomData) => {
+    setBetLimits(room.betLimits ?? {});
+    setMaxRoundWager(room.maxRoundWager ?? null);
+  };
+
+  const isWithinBetLimits = (betType: string, amount: number) => {
+    const limits = betLimits[betType];
+    return !limits || (amount >= limits.minBet && amount <= limits.maxBet);
+  };
+
+  const exceedsRoundWager = (amount: number) =>
+    maxRoundWager !== null && totalBetAmount + amount > maxRoundWager;
+
   const canPlaceBet = () => {
     if (playerChips === null) return false;
     const hasEnoughBalance = playerChips >= selectedAmount;
     return gameStatus === 'countdown' && 
-           countdownTime > 10 && 
+           countdownTime > roundTimings.lockSeconds && 
            selectedBetType && 
            selectedAmount > 0 && 
+           isWithinBetLimits(selectedBetType, selectedAmount) &&
+           !exceedsRoundWager(selectedAmount) &&
            hasEnoughBalance;
   };
 
@@ -208,6 +235,13 @@ export default function CoinTossRoom() {
     if (!hasEnoughBalance && selectedBetType) {
       return 'INSUFFICIENT BALANCE';
     }
+    if (selectedBetType && !isWithinBetLimits(selectedBetType, selectedAmount)) {
+      const limits = betLimits[selectedBetType];
+      return `OUTSIDE LIMITS (${limits.minBet} – ${limits.maxBet})`;
+    }
+    if (exceedsRoundWager(selectedAmount)) {
+      return `ROUND LIMIT (${maxRoundWager})`;
+    }
     return `PLACE BET (${selectedAmount})`;
   };
 
@@ -222,7 +256,8 @@ export default function CoinTossRoom() {
     socket.emit('coin-toss-place-bet', {
       roomId: 'COIN_TOSS_GLOBAL',
       betType: selectedBetType,
-      amount: selectedAmount
+      amount: selectedAmount,
+      clientBetId: createClientBetId()
     });
 
     console.log(`Placing coin toss bet: ${selectedAmount} on ${selectedBetType}`);
@@ -240,7 +275,7 @@ export default function CoinTossRoom() {
 
   const handleRepeatBet = () => {
     if (previousRoundBets.length === 0) return;
-    if (gameStatus !== 'countdown' || countdownTime <= 10) return;
+    if (gameStatus !== 'countdown' || countdownTime <= roundTimings.lockSeconds) return;
     if (lockedBets.length > 0) return;
     
     // Calculate total amount needed for all previous round bets
@@ -257,7 +292,8 @@ export default function CoinTossRoom() {
       socket.emit('coin-toss-place-bet', {
         roomId: 'COIN_TOSS_GLOBAL',
         betType: bet.type,
-        amount: bet.amount
+        amount: bet.amount,
+        clientBetId: createClientBetId()
       });
     });
 
@@ -333,9 +369,15 @@ export default function CoinTossRoom() {
       console.log('Disconnected from coin toss socket');
     });
 
-    socket.on('coin-toss-room-joined', (data: { room: CoinTossRoomData; player: any; activeBets?: any[]; lockedBets?: Array<{ betType: 'heads' | 'tails'; amount: number; betId?: number }>; countdownTime?: number }) => {
+    socket.on('coin-toss-room-joined', (data: { room: CoinTossRoomData; player: any; activeBets?: any[]; lockedBets?: Array<{ betType: 'heads' | 'tails'; amount: number; betId?: number }>; countdownTime?: number; timings?: RoundTimings; fairness?: RoundFairness | null }) => {
       console.log('Joined coin toss room:', data);
+      setChatRoomId(data.room.id);
       setGameStatus(data.room.status);
+      applyRoomLimits(data.room);
+      if (data.timings) {
+        setRoundTimings(data.timings);
+      }
+      setRoundFairness(data.fairness ? { ...data.fairness, gameId: data.room.currentGameId } : null);
       setCurrentResult(data.room.currentResult);
       
       if (data.player?.chips !== undefined) {
@@ -376,9 +418,14 @@ export default function CoinTossRoom() {
       fetchGameCount();
     });
 
-    socket.on('coin-toss-game-starting', (data: { room: CoinTossRoomData; countdownTime: number }) => {
+    socket.on('coin-toss-game-starting', (data: { room: CoinTossRoomData; countdownTime: number; timings?: RoundTimings; fairness?: RoundFairness | null }) => {
       console.log('Coin toss game starting:', data);
       setGameStatus('countdown');
+      applyRoomLimits(data.room);
+      if (data.timings) {
+        setRoundTimings(data.timings);
+      }
+      setRoundFairness(data.fairness ? { ...data.fairness, gameId: data.room.currentGameId } : null);
       setCountdownTime(data.countdownTime);
       setCurrentResult(null);
       setCurrentBets([]);
@@ -393,8 +440,11 @@ export default function CoinTossRoom() {
       setGameStatus(data.room.status);
     });
 
-    socket.on('coin-toss-result-revealed', (data: { result: 'heads' | 'tails'; room: CoinTossRoomData }) => {
+    socket.on('coin-toss-result-revealed', (data: { result: 'heads' | 'tails'; room: CoinTossRoomData; fairness?: RoundFairness | null }) => {
       console.log('Coin toss result revealed:', data);
+      if (data.fairness) {
+        setRoundFairness({ ...data.fairness, gameId: data.room.currentGameId });
+      }
       
       setIsFlipping(true);
       
@@ -471,9 +521,12 @@ export default function CoinTossRoom() {
       fetchRecentGames();
     });
 
-    socket.on('coin-toss-bet-placed', (data: { bet: any; remainingChips: number }) => {
+    socket.on('coin-toss-bet-placed', (data: { bet: any; remainingChips: number; duplicate?: boolean }) => {
       console.log('Coin toss bet placed:', data);
       setPlayerChips(data.remainingChips);
+
+      // A replayed bet was already added when it was first acknowledged
+      if (data.duplicate) return;
       
       // Bet is immediately placed, so add to current bets
       const newBet: Bet = {
@@ -544,11 +597,7 @@ export default function CoinTossRoom() {
     });
 
     if (user && socket.connected && socket.id) {
-      socket.emit('coin-toss-join', {
-        roomId: 'COIN_TOSS_GLOBAL',
-        userId: user.id,
-        username: user.username,
-      });
+      socket.emit('coin-toss-join', { roomId: 'COIN_TOSS_GLOBAL' });
     }
 
     return () => {
@@ -587,7 +636,7 @@ export default function CoinTossRoom() {
     };
   }, []);
 
-  const bettingWindowClosed = gameStatus !== 'countdown' || countdownTime <= 10;
+  const bettingWindowClosed = gameStatus !== 'countdown' || countdownTime <= roundTimings.lockSeconds;
   
   const headsBetTotal = currentBets.filter(bet => bet.type === 'heads').reduce((sum, bet) => sum + bet.amount, 0);
   const tailsBetTotal = currentBets.filter(bet => bet.type === 'tails').reduce((sum, bet) => sum + bet.amount, 0);
@@ -712,6 +761,9 @@ export default function CoinTossRoom() {
             <div className="flex flex-col items-start">
               <div className="text-xs sm:text-lg font-heading font-bold text-neo-accent">Heads</div>
               <div className="text-[10px] sm:text-sm text-white font-mono font-bold">Win: 1:1</div>
+              {betLimits.heads && (
+                <div className="text-[9px] sm:text-xs text-neo-text-secondary font-mono">{betLimits.heads.minBet} – {betLimits.heads.maxBet}</div>
+              )}
             </div>
           </button>
 
@@ -721,6 +773,24 @@ export default function CoinTossRoom() {
             <div className="text-[10px] sm:text-xs text-neo-accent tracking-wider font-mono mb-1 sm:mb-2">
               ROUND #{totalGameCount !== null ? totalGameCount + 1 : '...'}
             </div>
+            {roundFairness && (
+              <div className="text-[9px] sm:text-[10px] text-neo-text-secondary font-mono mb-1" title={roundFairness.serverSeedHash}>
+                SEED HASH {roundFairness.serverSeedHash.slice(0, 12)}…
+                {roundFairness.overridden && (
+                  <span className="ml-2 text-red-400 font-semibold">RESULT SET BY ADMIN</span>
+                )}
+                {roundFairness.serverSeed && roundFairness.gameId && (
+                  <a
+                    href={`/api/coin-toss/games/${roundFairness.gameId}/verify`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="ml-2 underline text-neo-accent"
+                  >
+                    VERIFY
+                  </a>
+                )}
+              </div>
+            )}
             
             <div 
               className={`w-20 h-20 sm:w-32 sm:h-32 rounded-full flex flex-col items-center justify-center mb-1 ${
@@ -792,8 +862,13 @@ export default function CoinTossRoom() {
             
             {/* Betting Time Left */}
             <div className="text-[10px] sm:text-xs text-neo-accent tracking-wider font-mono mt-1">
-              BET TIME: {Math.max(0, countdownTime - 10)}s
+              BET TIME: {Math.max(0, countdownTime - roundTimings.lockSeconds)}s
             </div>
+            {maxRoundWager !== null && (
+              <div className="text-[10px] sm:text-xs text-neo-text-secondary tracking-wider font-mono">
+                ROUND MAX: {maxRoundWager}
+              </div>
+            )}
           </div>
 
           {/* Right Panel - Tails Selection */}
@@ -814,6 +889,9 @@ export default function CoinTossRoom() {
             <div className="flex flex-col items-end">
               <div className="text-xs sm:text-lg font-heading font-bold text-neo-accent-secondary">Tails</div>
               <div className="text-[10px] sm:text-sm text-white font-mono font-bold">Win: 1:1</div>
+              {betLimits.tails && (
+                <div className="text-[9px] sm:text-xs text-neo-text-secondary font-mono">{betLimits.tails.minBet} – {betLimits.tails.maxBet}</div>
+              )}
             </div>
             
             {/* Tails Logo */}
@@ -884,7 +962,7 @@ export default function CoinTossRoom() {
                   style={{
                     boxShadow: canPlaceBet() ? '0 0 30px rgba(0, 255, 198, 0.8)' : 'none'
                   }}
-                  title={`Place Bet (${selectedAmount})`}
+                  title={getPlaceBetButtonText()}
                 >
                   <Coins className="w-5 h-5 sm:w-6 sm:h-6" />
                 </button>
@@ -995,6 +1073,8 @@ export default function CoinTossRoom() {
           </div>
         </div>
       )}
+
+      <RoomChat roomId={chatRoomId} />
     </div>
   );
 }
@@ -16,6 +16,7 @@ interface BettingHistoryItem {
   gameId: number;
   balanceAfter: number;
   profitLoss: number;
+  refunded: boolean;
 }
 
 export function ComprehensiveBettingHistory() {
@@ -182,15 +183,21 @@ export function ComprehensiveBettingHistory() {
                           </div>
                         </div>
                         
-                        <Badge 
-                          variant={bet.won ? "default" : "destructive"}
-                          className={bet.won 
-                            ? "bg-green-600 text-white" 
-                            : "bg-red-600 text-white"
-                          }
-                        >
-                          {bet.won ? '✓ WON' : '✗ LOST'}
-                        </Badge>
+                        {bet.refunded ? (
+                          <Badge variant="secondary" className="bg-blue-600 text-white">
+                            ↺ REFUNDED
+                          </Badge>
+                        ) : (
+                          <Badge 
+                            variant={bet.won ? "default" : "destructive"}
+                            className={bet.won 
+                              ? "bg-green-600 text-white" 
+                              : "bg-red-600 text-white"
+                            }
+                          >
+                            {bet.won ? '✓ WON' : '✗ LOST'}
+                          </Badge>
+                        )}
                       </div>
 
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-3 text-sm">
@@ -6,6 +6,7 @@ import { Badge } from '../ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '../ui/dialog';
 import { Input } from '../ui/input';
 import { useAuthStore } from '../../lib/stores/useAuthStore';
+import { isAdminRole } from '@shared/permissions';
 import { Settings, CheckCircle, Users, BarChart, Ban, Coins, Gamepad2, RefreshCw, History, TrendingUp, Target, Dice1, Clock, AlertTriangle, Check, X, DollarSign, Cog, Info } from 'lucide-react';
 
 interface AdminUser {
@@ -485,7 +486,7 @@ export default function AdminDashboard() {
                           <TableCell className="text-white font-semibold text-xs sm:text-sm">
                             <div className="flex flex-col gap-1">
                               <span>{user.username}</span>
-                              {user.role === 'admin' && (
+                              {isAdminRole(user.role) && (
                                 <span className="text-xs bg-gradient-purple-light text-white px-2 py-0.5 rounded w-fit">
                                   ADMIN
                                 </span>
@@ -552,7 +553,7 @@ export default function AdminDashboard() {
                               >
                                 <BarChart className="w-3 h-3 sm:w-4 sm:h-4" />
                               </Button>
-                              {user.role !== 'admin' && (
+                              {!isAdminRole(user.role) && (
                                 <>
                                   <Button
                                     size="sm"
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { ShieldCheck, Clock } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+
+type LimitType = 'deposit' | 'loss' | 'wager';
+type LimitPeriod = 'daily' | 'weekly' | 'monthly';
+
+interface PlayerLimit {
+  limitType: LimitType;
+  period: LimitPeriod;
+  amount: number | null;
+  used: number;
+  pendingAmount: number | null;
+  pendingEffectiveAt: string | null;
+}
+
+const LIMIT_TYPES: { value: LimitType; label: string; hint: string }[] = [
+  { value: 'deposit', label: 'Deposit', hint: 'Chips credited to your wallet' },
+  { value: 'loss', label: 'Loss', hint: 'Net chips lost across all games' },
+  { value: 'wager', label: 'Wager', hint: 'Total chips staked across all games' },
+];
+
+const PERIODS: { value: LimitPeriod; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const selectClassName = 'bg-white/10 border border-neo-border rounded-lg px-3 py-2 text-neo-text text-sm focus:outline-none focus:border-neo-accent';
+
+export default function PlayingLimits() {
+  const [limits, setLimits] = useState<PlayerLimit[]>([]);
+  const [coolingOffHours, setCoolingOffHours] = useState<number>(24);
+  const [limitType, setLimitType] = useState<LimitType>('loss');
+  const [period, setPeriod] = useState<LimitPeriod>('daily');
+  const [amount, setAmount] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchLimits();
+  }, []);
+
+  const fetchLimits = async () => {
+    try {
+      const response = await fetch('/api/player/limits', { credentials: 'include' });
+      if (response.ok) {
+        const data = await response.json();
+        setLimits(data.limits);
+        setCoolingOffHours(data.coolingOffHours);
+      }
+    } catch (error) {
+      console.error('Error fetching limits:', error);
+    }
+  };
+
+  const saveLimit = async (newAmount: number | null) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/player/limits', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ limitType, period, amount: newAmount }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.message || 'Failed to update limit');
+        return;
+      }
+      setLimits(data.limits);
+      setAmount('');
+      toast.success(data.message);
+    } catch (error) {
+      console.error('Error updating limit:', error);
+      toast.error('Failed to update limit');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSet = () => {
+    const parsed = Number(amount);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      toast.error('Enter a whole number of chips');
+      return;
+    }
+    saveLimit(parsed);
+  };
+
+  const findLimit = (type: LimitType, limitPeriod: LimitPeriod) =>
+    limits.find(limit => limit.limitType === type && limit.period === limitPeriod);
+
+  const selected = findLimit(limitType, period);
+
+  return (
+    <div className="neo-glass-card p-6 mb-6">
+      <h3 className="text-neo-accent text-xl font-heading font-bold mb-1 flex items-center gap-2">
+        <ShieldCheck className="w-5 h-5" />
+        Playing Limits
+      </h3>
+      <p className="text-neo-text-secondary text-sm mb-4">
+        Lower limits apply straight away. Raising or removing a limit takes effect after {coolingOffHours} hours.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+        {LIMIT_TYPES.map(type => (
+          <div key={type.value} className="rounded-lg border border-neo-border bg-white/5 p-3">
+            <p className="text-neo-text font-semibold">{type.label}</p>
+            <p className="text-neo-text-secondary text-xs mb-2">{type.hint}</p>
+            {PERIODS.map(limitPeriod => {
+              const limit = findLimit(type.value, limitPeriod.value);
+              return (
+                <div key={limitPeriod.value} className="text-sm flex justify-between gap-2">
+                  <span className="text-neo-text-secondary">{limitPeriod.label}</span>
+                  <span className="text-neo-text font-mono text-right">
+                    {limit?.amount != null ? `${limit.used} / ${limit.amount}` : '—'}
+                    {limit?.pendingEffectiveAt && (
+                      <span className="block text-xs text-yellow-400 flex items-center gap-1 justify-end">
+                        <Clock className="w-3 h-3" />
+                        {limit.pendingAmount ?? 'none'} from {new Date(limit.pendingEffectiveAt).toLocaleString()}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={limitType} onChange={(e) => setLimitType(e.target.value as LimitType)} className={selectClassName}>
+          {LIMIT_TYPES.map(type => (
+            <option key={type.value} value={type.value} className="bg-black">{type.label}</option>
+          ))}
+        </select>
+        <select value={period} onChange={(e) => setPeriod(e.target.value as LimitPeriod)} className={selectClassName}>
+          {PERIODS.map(limitPeriod => (
+            <option key={limitPeriod.value} value={limitPeriod.value} className="bg-black">{limitPeriod.label}</option>
+          ))}
+        </select>
+        <Input
+          type="number"
+          min={1}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder={selected?.amount != null ? `Current: ${selected.amount}` : 'Chips'}
+          className="w-36 bg-white/10 border-neo-border text-neo-text"
+        />
+        <Button
+          onClick={handleSet}
+          disabled={isSaving || !amount}
+          className="bg-neo-accent hover:bg-gradient-hover text-neo-bg font-heading font-semibold"
+        >
+          Set Limit
+        </Button>
+        {selected?.amount != null && (
+          <Button
+            onClick={() => saveLimit(null)}
+            disabled={isSaving}
+            variant="outline"
+            className="border-2 border-neo-accent text-neo-accent hover:bg-neo-accent hover:text-neo-bg font-heading"
+          >
+            Remove
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
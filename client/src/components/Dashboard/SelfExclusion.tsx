@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { PauseCircle } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { useAuthStore } from '../../lib/stores/useAuthStore';
+
+type ExclusionPeriod = '24h' | '7d' | '30d' | 'permanent';
+
+const PERIODS: { value: ExclusionPeriod; label: string }[] = [
+  { value: '24h', label: '24 hours' },
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: 'permanent', label: 'Permanently' },
+];
+
+export default function SelfExclusion() {
+  const { logout } = useAuthStore();
+  const [selected, setSelected] = useState<ExclusionPeriod | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const selectedLabel = PERIODS.find(period => period.value === selected)?.label.toLowerCase();
+
+  const handleConfirm = async () => {
+    if (!selected) return;
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/player/self-exclusion', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ period: selected }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.message || 'Failed to start your break');
+        return;
+      }
+
+      toast.success(data.message, { duration: 10000 });
+      setSelected(null);
+      logout();
+    } catch (error) {
+      console.error('Error self-excluding:', error);
+      toast.error('Failed to start your break');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="neo-glass-card p-6 mb-6">
+      <h3 className="text-neo-accent text-xl font-heading font-bold mb-1 flex items-center gap-2">
+        <PauseCircle className="w-5 h-5" />
+        Take a Break
+      </h3>
+      <p className="text-neo-text-secondary text-sm mb-4">
+        Exclude yourself from all games. You will be signed out and cannot sign in again until the break ends. A break cannot be shortened once started.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {PERIODS.map(period => (
+          <Button
+            key={period.value}
+            variant="outline"
+            onClick={() => setSelected(period.value)}
+            className={`border-2 font-heading transition-all duration-300 ${
+              period.value === 'permanent'
+                ? 'border-red-500 text-red-500 hover:bg-red-500 hover:text-white'
+                : 'border-neo-accent text-neo-accent hover:bg-neo-accent hover:text-neo-bg'
+            }`}
+          >
+            {period.label}
+          </Button>
+        ))}
+      </div>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-md bg-neo-bg border-2 border-neo-accent">
+          <DialogHeader>
+            <DialogTitle className="text-neo-accent text-2xl font-heading font-bold">Confirm your break</DialogTitle>
+            <DialogDescription className="text-neo-text-secondary">
+              {selected === 'permanent'
+                ? 'You will be permanently excluded from play. This cannot be undone.'
+                : `You will be excluded from play for ${selectedLabel}. Nobody, including support, can end it early.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button
+              variant="ghost"
+              onClick={() => setSelected(null)}
+              className="text-neo-text-secondary hover:text-neo-accent"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={isSubmitting}
+              className="bg-red-600 hover:bg-red-700 text-white font-heading font-semibold"
+            >
+              {isSubmitting ? 'Starting...' : 'Start my break'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
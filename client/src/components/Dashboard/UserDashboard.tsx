@@ -7,6 +7,8 @@ import { socket } from '../../lib/socket';
 import { ComprehensiveBettingHistory } from '../ComprehensiveBettingHistory';
 import { Crown, Sparkles, Play, Coins, BarChart, ArrowLeft, Wallet } from 'lucide-react';
 import DepositDialog from '../DepositDialog';
+import PlayingLimits from './PlayingLimits';
+import SelfExclusion from './SelfExclusion';
 
 
 interface UserDashboardProps {
@@ -157,6 +159,13 @@ export default function UserDashboard({ onNavigateToGame, onNavigateToCoinToss }
             </div>
           </div>
 
+          {!showHistory && (
+            <>
+              <PlayingLimits />
+              <SelfExclusion />
+            </>
+          )}
+
           {/* Stats and Betting History */}
           {!showHistory ? (
             <div className="neo-glass-card p-6">
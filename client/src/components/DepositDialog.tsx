@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
 import { Button } from './ui/button';
+import { Input } from './ui/input';
 import { MessageSquare } from 'lucide-react';
 
 interface DepositDialogProps {
@@ -8,10 +10,34 @@ interface DepositDialogProps {
   onOpenChange: (open: boolean) => void;
 }
 
+type RequestType = 'deposit' | 'withdrawal';
+
+interface WalletRequest {
+  id: number;
+  requestType: RequestType;
+  amount: number;
+  reference: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  reviewNote: string | null;
+  createdAt: string;
+}
+
+const STATUS_CLASSES: Record<WalletRequest['status'], string> = {
+  pending: 'text-yellow-400',
+  approved: 'text-green-400',
+  rejected: 'text-red-400',
+  cancelled: 'text-neo-text-secondary',
+};
+
 export default function DepositDialog({ open, onOpenChange }: DepositDialogProps) {
   const [whatsappNumber, setWhatsappNumber] = useState<string>('');
   const [depositMessage, setDepositMessage] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(true);
+  const [requestType, setRequestType] = useState<RequestType>('deposit');
+  const [amount, setAmount] = useState<string>('');
+  const [reference, setReference] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [requests, setRequests] = useState<WalletRequest[]>([]);
 
   useEffect(() => {
     const fetchDepositSettings = async () => {
@@ -31,9 +57,77 @@ export default function DepositDialog({ open, onOpenChange }: DepositDialogProps
 
     if (open) {
       fetchDepositSettings();
+      fetchRequests();
     }
   }, [open]);
 
+  const fetchRequests = async () => {
+    try {
+      const response = await fetch('/api/player/wallet-requests', { credentials: 'include' });
+      if (response.ok) {
+        const data = await response.json();
+        setRequests(data.requests);
+      }
+    } catch (error) {
+      console.error('Error fetching wallet requests:', error);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const parsedAmount = Number(amount);
+    if (!Number.isInteger(parsedAmount) || parsedAmount <= 0) {
+      toast.error('Enter a whole number of chips');
+      return;
+    }
+    if (!reference.trim()) {
+      toast.error(requestType === 'deposit' ? 'Enter your payment reference' : 'Enter where the payout should go');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/player/wallet-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ requestType, amount: parsedAmount, reference: reference.trim() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.message || 'Failed to submit request');
+        return;
+      }
+
+      toast.success(data.message);
+      setAmount('');
+      setReference('');
+      fetchRequests();
+    } catch (error) {
+      console.error('Error submitting wallet request:', error);
+      toast.error('Failed to submit request');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (requestId: number) => {
+    try {
+      const response = await fetch(`/api/player/wallet-requests/${requestId}/cancel`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.message || 'Failed to cancel request');
+        return;
+      }
+      fetchRequests();
+    } catch (error) {
+      console.error('Error cancelling wallet request:', error);
+      toast.error('Failed to cancel request');
+    }
+  };
+
   const handleWhatsAppClick = () => {
     if (!whatsappNumber) {
       alert('WhatsApp number not configured. Please contact support.');
@@ -43,19 +137,19 @@ export default function DepositDialog({ open, onOpenChange }: DepositDialogProps
     const formattedNumber = whatsappNumber.replace(/[^0-9]/g, '');
     const encodedMessage = encodeURIComponent(depositMessage || 'Hello, I would like to deposit chips.');
     const whatsappUrl = `https://wa.me/${formattedNumber}?text=${encodedMessage}`;
-    
+
     window.open(whatsappUrl, '_blank');
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md bg-neo-bg border-2 border-neo-accent">
+      <DialogContent className="sm:max-w-md bg-neo-bg border-2 border-neo-accent max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-neo-accent text-2xl font-heading font-bold flex items-center gap-2">
             <span>💰</span> Deposit / Withdraw
           </DialogTitle>
         </DialogHeader>
-        
+
         <div className="space-y-4 py-4">
           {loading ? (
             <div className="text-center py-8">
@@ -64,25 +158,103 @@ export default function DepositDialog({ open, onOpenChange }: DepositDialogProps
             </div>
           ) : (
             <>
-              <div className="bg-neo-bg-secondary border border-neo-border rounded-lg p-4">
-                <p className="text-neo-text text-sm leading-relaxed whitespace-pre-wrap">
-                  {depositMessage || 'Contact us via WhatsApp to deposit or withdraw chips.'}
-                </p>
+              <div className="grid grid-cols-2 gap-2">
+                {(['deposit', 'withdrawal'] as const).map(type => (
+                  <Button
+                    key={type}
+                    variant="outline"
+                    onClick={() => setRequestType(type)}
+                    className={`border-2 font-heading ${
+                      requestType === type
+                        ? 'bg-neo-accent text-neo-bg border-neo-accent'
+                        : 'border-neo-accent text-neo-accent hover:bg-neo-accent/20'
+                    }`}
+                  >
+                    {type === 'deposit' ? 'Deposit' : 'Withdraw'}
+                  </Button>
+                ))}
+              </div>
+
+              {requestType === 'deposit' && (
+                <div className="bg-neo-bg-secondary border border-neo-border rounded-lg p-4">
+                  <p className="text-neo-text text-sm leading-relaxed whitespace-pre-wrap">
+                    {depositMessage || 'Make your payment, then submit the amount and its reference below.'}
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Input
+                  type="number"
+                  min={1}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="Amount in chips"
+                  className="bg-white/10 border-neo-border text-neo-text"
+                />
+                <Input
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  maxLength={100}
+                  placeholder={requestType === 'deposit' ? 'Payment reference / transaction ID' : 'Payout details (UPI ID or account)'}
+                  className="bg-white/10 border-neo-border text-neo-text"
+                />
+                {requestType === 'withdrawal' && (
+                  <p className="text-neo-text-secondary text-xs">
+                    The amount is held from your balance and cannot be wagered until the request is reviewed.
+                  </p>
+                )}
               </div>
 
               <Button
-                onClick={handleWhatsAppClick}
-                disabled={!whatsappNumber}
-                className="w-full bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white font-heading font-semibold py-6 text-lg transition-all duration-300 flex items-center justify-center gap-2"
+                onClick={handleSubmit}
+                disabled={isSubmitting}
+                className="w-full bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white font-heading font-semibold py-6 text-lg transition-all duration-300"
               >
-                <MessageSquare className="w-5 h-5" />
-                Chat on WhatsApp
+                {isSubmitting ? 'Submitting...' : requestType === 'deposit' ? 'Submit Deposit Request' : 'Submit Withdrawal Request'}
               </Button>
 
-              {!whatsappNumber && (
-                <p className="text-red-400 text-xs text-center">
-                  WhatsApp number not configured. Please contact support.
-                </p>
+              {requests.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-neo-accent font-heading font-semibold text-sm">Your Requests</p>
+                  {requests.map(request => (
+                    <div key={request.id} className="flex items-center justify-between gap-2 rounded-lg border border-neo-border p-2 text-sm">
+                      <div>
+                        <span className="text-neo-text font-semibold">
+                          {request.requestType === 'deposit' ? 'Deposit' : 'Withdrawal'} · {request.amount.toLocaleString()}
+                        </span>
+                        <span className={`ml-2 text-xs font-semibold ${STATUS_CLASSES[request.status]}`}>
+                          {request.status.toUpperCase()}
+                        </span>
+                        <div className="text-neo-text-secondary text-xs">
+                          {new Date(request.createdAt).toLocaleString()}
+                          {request.reviewNote && ` · ${request.reviewNote}`}
+                        </div>
+                      </div>
+                      {request.status === 'pending' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCancel(request.id)}
+                          className="text-red-400 hover:text-red-300"
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {whatsappNumber && (
+                <Button
+                  variant="outline"
+                  onClick={handleWhatsAppClick}
+                  className="w-full border-green-500 text-green-500 hover:bg-green-500 hover:text-white font-heading flex items-center justify-center gap-2"
+                >
+                  <MessageSquare className="w-4 h-4" />
+                  Need help? Chat on WhatsApp
+                </Button>
               )}
 
               <div className="text-center">
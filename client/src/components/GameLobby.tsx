@@ -1,16 +1,36 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { socket } from '../lib/socket';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import type { TableSummary } from '../types/game';
 
 export default function GameLobby() {
+  const [tables, setTables] = useState<TableSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
   useEffect(() => {
-    // Auto-join lobby when component mounts
-    socket.emit('join-lobby');
+    fetchTables();
+    // Keep player counts fresh while the lobby is open
+    const interval = setInterval(fetchTables, 5000);
+    return () => clearInterval(interval);
   }, []);
 
-  const handleJoinGame = () => {
-    socket.emit('join-lobby');
+  const fetchTables = async () => {
+    try {
+      const response = await fetch('/api/rooms');
+      if (response.ok) {
+        const data = await response.json();
+        setTables(data.rooms);
+      }
+    } catch (error) {
+      console.error('Failed to fetch tables:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleJoinTable = (tableId: string) => {
+    socket.emit('join-room', tableId);
   };
 
   return (
@@ -33,20 +53,40 @@ export default function GameLobby() {
               <li>🕐 Real-time synchronized countdown</li>
               <li>🃏 Cards numbered 1-13 in red and black</li>
               <li>👥 Play with unlimited players worldwide</li>
-              <li>🎯 Everyone sees identical results</li>
-              <li>⏰ New game every 60 seconds</li>
+              <li>🎯 Everyone at a table sees identical results</li>
             </ul>
           </div>
-          
-          <Button 
-            onClick={handleJoinGame}
-            className="w-full bg-casino-red hover:bg-red-700 text-white font-bold py-4 text-lg glow-red"
-          >
-            🎰 Play Lucky 7 Now!
-          </Button>
-          
+
+          <div className="space-y-3">
+            {isLoading ? (
+              <div className="text-center text-casino-gold text-sm">Loading tables...</div>
+            ) : tables.length === 0 ? (
+              <div className="text-center text-casino-gold text-sm">No tables are open right now.</div>
+            ) : (
+              tables.map(table => (
+                <div
+                  key={table.id}
+                  className="flex items-center justify-between gap-3 rounded-lg border border-casino-gold/40 p-3"
+                >
+                  <div className="text-white">
+                    <div className="font-bold">{table.name}</div>
+                    <div className="text-xs text-casino-gold">
+                      Bets {table.minBet} – {table.maxBet} · 👥 {table.playerCount}
+                    </div>
+                  </div>
+                  <Button
+                    onClick={() => handleJoinTable(table.id)}
+                    className="bg-casino-red hover:bg-red-700 text-white font-bold glow-red"
+                  >
+                    Play
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
           <div className="text-center text-casino-gold text-sm">
-            Join the global Lucky 7 game with players from around the world!
+            Pick a table that suits your stakes - each one deals its own rounds.
           </div>
         </CardContent>
       </Card>
@@ -1,13 +1,15 @@
 import { useEffect, useState, useRef } from 'react';
 import { socket } from '../lib/socket';
+import { createClientBetId } from '../lib/utils';
 import { useGameStore } from '../lib/stores/useGameStore';
 import { useAudio } from '../lib/stores/useAudio';
 import Card from './Card';
 import CardBack from './CardBack';
 import BetResultPopup from './BetResultPopup';
+import RoomChat from './RoomChat';
 import { Button } from './ui/button';
 import { LockKeyhole, XCircle, RotateCcw, CheckCircle } from 'lucide-react';
-import type { Card as CardType, GameRoom } from '../types/game';
+import type { BetLimits, Card as CardType, GameRoom, RoundFairness, RoundTimings } from '../types/game';
 
 export default function GameRoom() {
   const { currentRoom, setCurrentRoom, setGameState } = useGameStore();
@@ -24,6 +26,9 @@ export default function GameRoom() {
   const [socketConnected, setSocketConnected] = useState<boolean>(false);
   const [socketId, setSocketId] = useState<string>('');
   const [totalGameCount, setTotalGameCount] = useState<number>(0);
+  const [roundFairness, setRoundFairness] = useState<RoundFairness | null>(null);
+  // Replaced by the server's timings as soon as a round is synced
+  const [roundTimings, setRoundTimings] = useState<RoundTimings>({ bettingSeconds: 20, lockSeconds: 10, resultDisplaySeconds: 6 });
   const [showBetResultPopup, setShowBetResultPopup] = useState<boolean>(false);
   const [storedBets, setStoredBets] = useState<any[]>([]);
   const [betResults, setBetResults] = useState<any[]>([]);
@@ -152,22 +157,44 @@ export default function GameRoom() {
     }
   }, [currentBets]);
 
+  const isWithinTableLimits = (amount: number) =>
+    !currentRoom || (amount >= currentRoom.minBet && amount <= currentRoom.maxBet);
+
+  // Some bet types have a narrower stake range than the table
+  const getStakeLimits = (betType: string): BetLimits | null =>
+    currentRoom?.betLimits?.[betType] ?? (currentRoom ? { minBet: currentRoom.minBet, maxBet: currentRoom.maxBet } : null);
+
+  const isWithinStakeLimits = (betType: string, amount: number) => {
+    const limits = getStakeLimits(betType);
+    return !limits || (amount >= limits.minBet && amount <= limits.maxBet);
+  };
+
+  const exceedsRoundWager = (amount: number) =>
+    currentRoom?.maxRoundWager != null && totalBetAmount + amount > currentRoom.maxRoundWager;
+
   const canPlaceBet = () => {
     const availableBalance = playerChips - totalBetAmount;
     return gameStatus === 'countdown' && 
-           countdownTime > 10 && 
+           countdownTime > roundTimings.lockSeconds && 
            selectedBetType && 
            selectedAmount > 0 && 
+           isWithinStakeLimits(selectedBetType, selectedAmount) &&
+           !exceedsRoundWager(selectedAmount) &&
            availableBalance >= selectedAmount;
   };
 
   const getPlaceBetButtonText = () => {
     if (!selectedBetType) return 'SELECT BET TYPE';
+    if (!isWithinStakeLimits(selectedBetType, selectedAmount)) {
+      const limits = getStakeLimits(selectedBetType)!;
+      return `OUTSIDE LIMITS (${limits.minBet} – ${limits.maxBet})`;
+    }
+    if (exceedsRoundWager(selectedAmount)) return `ROUND LIMIT (${currentRoom!.maxRoundWager})`;
     const availableBalance = playerChips - totalBetAmount;
     if (availableBalance < selectedAmount) {
       return `INSUFFICIENT (${availableBalance} available)`;
     }
-    if (gameStatus !== 'countdown' || countdownTime <= 10) return 'BETTING CLOSED';
+    if (gameStatus !== 'countdown' || countdownTime <= roundTimings.lockSeconds) return 'BETTING CLOSED';
     return `PLACE BET (${selectedAmount})`;
   };
 
@@ -192,7 +219,8 @@ export default function GameRoom() {
     socket.emit('place-bet', {
       roomId: currentRoom?.id,
       betType: selectedBetType,
-      amount: selectedAmount
+      amount: selectedAmount,
+      clientBetId: createClientBetId()
     });
 
     console.log(`Placed bet: ${selectedAmount} on ${selectedBetType}`);
@@ -249,7 +277,8 @@ export default function GameRoom() {
       socket.emit('place-bet', {
         roomId: currentRoom?.id,
         betType: bet.type,
-        amount: bet.amount
+        amount: bet.amount,
+        clientBetId: createClientBetId()
       });
     });
 
@@ -342,7 +371,8 @@ export default function GameRoom() {
   // Fetch recent results only when needed
   const fetchResults = async () => {
     try {
-      const response = await fetch('/api/games/recent');
+      const roomId = useGameStore.getState().currentRoom?.id;
+      const response = await fetch(`/api/games/recent${roomId ? `?roomId=${encodeURIComponent(roomId)}` : ''}`);
       if (response.ok) {
         const data = await response.json();
         setRecentResults(data.slice(0, 10));
@@ -355,7 +385,8 @@ export default function GameRoom() {
   // Fetch total game count (real round number)
   const fetchGameCount = async () => {
     try {
-      const response = await fetch('/api/games/count');
+      const roomId = useGameStore.getState().currentRoom?.id;
+      const response = await fetch(`/api/games/count${roomId ? `?roomId=${encodeURIComponent(roomId)}` : ''}`);
       if (response.ok) {
         const data = await response.json();
         setTotalGameCount(data.totalGames);
@@ -400,6 +431,13 @@ export default function GameRoom() {
     fetchGameCount();
   }, []);
 
+  // Start from the table minimum so the default stake is always allowed
+  useEffect(() => {
+    if (currentRoom && !isWithinTableLimits(selectedAmount)) {
+      setSelectedAmount(currentRoom.minBet);
+    }
+  }, [currentRoom?.id]);
+
   // Auto-enter fullscreen on mount and listen for fullscreen changes
   useEffect(() => {
     // Enter fullscreen when component mounts
@@ -415,7 +453,12 @@ export default function GameRoom() {
 
   // Socket listeners for bet management
   useEffect(() => {
-    const handleBetPlaced = (data: { bet: any; chips: number }) => {
+    const handleBetPlaced = (data: { bet: any; chips: number; duplicate?: boolean }) => {
+      // A replayed bet was already counted when it was first acknowledged
+      if (data.duplicate) {
+        setPlayerChips(data.chips);
+        return;
+      }
       setCurrentBets(prev => {
         const updated = [...prev];
         const lastBet = updated[updated.length - 1];
@@ -518,10 +561,13 @@ export default function GameRoom() {
   }, [unlockedBets, lockedBets]);
 
   useEffect(() => {
-    function onGameState(data: { status: string; countdownTime: number; currentCard: CardType | null; room: GameRoom }) {
+    function onGameState(data: { status: string; countdownTime: number; currentCard: CardType | null; timings?: RoundTimings; room: GameRoom }) {
       // Sync initial game state when joining mid-round
       console.log('Received initial game state:', data);
       setCurrentRoom(data.room);
+      if (data.timings) {
+        setRoundTimings(data.timings);
+      }
       
       // Fetch player chips when joining/rejoining
       fetchPlayerData();
@@ -555,9 +601,13 @@ export default function GameRoom() {
       }
     }
     
-    function onGameStarting(data: { room: GameRoom; countdownTime: number }) {
+    function onGameStarting(data: { room: GameRoom; countdownTime: number; timings?: RoundTimings; fairness?: RoundFairness | null }) {
       console.log('Received game-starting event:', data);
       setCurrentRoom(data.room);
+      if (data.timings) {
+        setRoundTimings(data.timings);
+      }
+      setRoundFairness(data.fairness || null);
       setCountdownTime(data.countdownTime);
       setGameStatus('countdown');
       setGameState('countdown');
@@ -571,9 +621,12 @@ export default function GameRoom() {
       // Room state will be updated by other events when needed
     }
 
-    function onCardRevealed(data: { card: CardType; room: GameRoom }) {
+    function onCardRevealed(data: { card: CardType; room: GameRoom; fairness?: RoundFairness | null }) {
       setCurrentCard(data.card);
       setCurrentRoom(data.room);
+      if (data.fairness) {
+        setRoundFairness(data.fairness);
+      }
       setGameStatus('revealed');
       setGameState('playing');
       
@@ -664,11 +717,11 @@ export default function GameRoom() {
     { id: 'black', label: 'Black', icon: '⚫', description: '7 loses', odds: '1:1', color: 'from-gray-700 to-gray-900' },
   ];
 
-  const QUICK_AMOUNTS = [10, 50, 100, 500, 1000, 5000];
+  const QUICK_AMOUNTS = [10, 50, 100, 500, 1000, 5000].filter(isWithinTableLimits);
 
   const getBettingStatus = () => {
-    if (gameStatus === 'countdown' && countdownTime > 10) return 'BETTING OPEN';
-    if (gameStatus === 'countdown' && countdownTime <= 10) return 'BETTING CLOSED';
+    if (gameStatus === 'countdown' && countdownTime > roundTimings.lockSeconds) return 'BETTING OPEN';
+    if (gameStatus === 'countdown' && countdownTime <= roundTimings.lockSeconds) return 'BETTING CLOSED';
     if (gameStatus === 'revealed') return 'CARD REVEALED';
     return 'WAITING';
   };
@@ -714,8 +767,30 @@ export default function GameRoom() {
               LUCKY 7 ARENA
             </h1>
             <div className="text-cyan-400 text-sm font-semibold">
-              ROUND #{currentRoom.currentGameId || totalGameCount + 1}
+              {currentRoom.name?.toUpperCase()} · ROUND #{currentRoom.currentGameId || totalGameCount + 1}
+            </div>
+            <div className="text-cyan-300/70 text-xs">
+              LIMITS {currentRoom.minBet} – {currentRoom.maxBet}
+              {currentRoom.maxRoundWager != null && ` · ROUND MAX ${currentRoom.maxRoundWager}`}
             </div>
+            {roundFairness && (
+              <div className="text-[10px] text-cyan-300/70 font-mono" title={roundFairness.serverSeedHash}>
+                SEED HASH {roundFairness.serverSeedHash.slice(0, 12)}…
+                {roundFairness.overridden && (
+                  <span className="ml-2 text-red-400 font-semibold">RESULT SET BY ADMIN</span>
+                )}
+                {roundFairness.serverSeed && currentRoom.currentGameId && (
+                  <a
+                    href={`/api/games/${currentRoom.currentGameId}/verify`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="ml-2 underline hover:text-cyan-200"
+                  >
+                    VERIFY
+                  </a>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Right: Status & Exit */}
@@ -763,7 +838,7 @@ export default function GameRoom() {
                       fill="none"
                       strokeLinecap="round"
                       strokeDasharray={`${2 * Math.PI * 45} ${2 * Math.PI * 45}`}
-                      strokeDashoffset={2 * Math.PI * 45 * (1 - countdownTime / 30)}
+                      strokeDashoffset={2 * Math.PI * 45 * (1 - countdownTime / (roundTimings.bettingSeconds + roundTimings.lockSeconds))}
                       className="transition-all duration-1000"
                     />
                     <defs>
@@ -816,7 +891,7 @@ export default function GameRoom() {
                           fill="none"
                           strokeLinecap="round"
                           strokeDasharray={`${2 * Math.PI * 45} ${2 * Math.PI * 45}`}
-                          strokeDashoffset={2 * Math.PI * 45 * (1 - countdownTime / 30)}
+                          strokeDashoffset={2 * Math.PI * 45 * (1 - countdownTime / (roundTimings.bettingSeconds + roundTimings.lockSeconds))}
                           className="transition-all duration-1000"
                         />
                         <defs>
@@ -870,6 +945,11 @@ export default function GameRoom() {
                       <div className="text-white font-bold text-xs">{bet.label}</div>
                       <div className="text-cyan-300 text-[10px]">{bet.description}</div>
                       <div className="text-cyan-400 text-[10px] font-semibold">{bet.odds}</div>
+                      {currentRoom.betLimits?.[bet.id] && (
+                        <div className="text-cyan-300/70 text-[9px]">
+                          {currentRoom.betLimits[bet.id].minBet} – {currentRoom.betLimits[bet.id].maxBet}
+                        </div>
+                      )}
                     </button>
                   </div>
                 );
@@ -911,7 +991,7 @@ export default function GameRoom() {
               {unlockedBets.length > 0 && (
                 <Button
                   onClick={handleLockBet}
-                  disabled={gameStatus !== 'countdown' || countdownTime <= 10}
+                  disabled={gameStatus !== 'countdown' || countdownTime <= roundTimings.lockSeconds}
                   className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold p-3 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg rounded-full"
                   title={`Lock ${unlockedBets.length} bet(s)`}
                 >
@@ -923,7 +1003,7 @@ export default function GameRoom() {
               {unlockedBets.length > 0 && (
                 <Button
                   onClick={handleCancelBet}
-                  disabled={gameStatus !== 'countdown' || countdownTime <= 10}
+                  disabled={gameStatus !== 'countdown' || countdownTime <= roundTimings.lockSeconds}
                   className="bg-gray-600 hover:bg-gray-700 text-white font-bold p-3 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg rounded-full"
                   title={`Cancel ${unlockedBets.length} bet(s)`}
                 >
@@ -935,7 +1015,7 @@ export default function GameRoom() {
               {lockedBets.length > 0 && (
                 <Button
                   onClick={handleCancelLockedBet}
-                  disabled={gameStatus !== 'countdown' || countdownTime <= 10}
+                  disabled={gameStatus !== 'countdown' || countdownTime <= roundTimings.lockSeconds}
                   className="bg-red-600 hover:bg-red-700 text-white font-bold p-3 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg rounded-full"
                   title={`Cancel ${lockedBets.length} locked bet(s)`}
                 >
@@ -947,7 +1027,7 @@ export default function GameRoom() {
               {previousRoundBets.length > 0 && unlockedBets.length === 0 && lockedBets.length === 0 && (
                 <Button
                   onClick={handleRepeatBet}
-                  disabled={gameStatus !== 'countdown' || countdownTime <= 10 || playerChips < previousRoundBets.reduce((sum, bet) => sum + bet.amount, 0)}
+                  disabled={gameStatus !== 'countdown' || countdownTime <= roundTimings.lockSeconds || playerChips < previousRoundBets.reduce((sum, bet) => sum + bet.amount, 0)}
                   className="bg-blue-600 hover:bg-blue-700 text-white font-bold p-3 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg rounded-full"
                   title={`Repeat ${previousRoundBets.length} bet(s) - Total: ${previousRoundBets.reduce((sum, bet) => sum + bet.amount, 0)}`}
                 >
@@ -1016,6 +1096,8 @@ export default function GameRoom() {
           />
         )}
       </div>
+
+      <RoomChat roomId={currentRoom.id} />
     </div>
   );
 }
@@ -7,6 +7,7 @@ interface PlayerData {
   id: number;
   name: string;
   chips: number;
+  heldChips: number; // Reserved for pending withdrawals and not available to stake
   totalWins: number;
   totalLosses: number;
 }
@@ -53,11 +54,9 @@ export function HeaderWallet({ socketId }: HeaderWalletProps) {
       lastFetchTime.current = Date.now();
       
       // Notify gameManager about authenticated player if user is logged in
+      // (the server identifies the player from the session cookie)
       if (isAuthenticated && user && socketId) {
-        socket.emit('update-player-auth', {
-          userId: user.id,
-          username: user.username
-        });
+        socket.emit('update-player-auth');
       }
     } catch (err) {
       // Only log actual errors, not 404s
@@ -148,7 +147,10 @@ export function HeaderWallet({ socketId }: HeaderWalletProps) {
       variant="outline" 
       className="bg-transparent border-casino-gold text-casino-gold hover:bg-casino-gold hover:text-casino-black cursor-default text-xs sm:text-sm px-2 sm:px-3 py-1"
     >
-      <span className="hidden sm:inline">🪙 {playerData.chips.toLocaleString()} Chips</span>
+      <span className="hidden sm:inline">
+        🪙 {playerData.chips.toLocaleString()} Chips
+        {playerData.heldChips > 0 && ` (${playerData.heldChips.toLocaleString()} held)`}
+      </span>
       <span className="sm:hidden">🪙 {playerData.chips.toLocaleString()}</span>
     </Badge>
   );
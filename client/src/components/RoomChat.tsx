@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react';
+import { socket } from '../lib/socket';
+import { useAuthStore } from '../lib/stores/useAuthStore';
+import { MessageCircle, Send, X } from 'lucide-react';
+
+interface ChatMessage {
+  id: number;
+  roomId: string;
+  userId: number;
+  username: string;
+  message: string;
+  createdAt: string;
+}
+
+interface RoomChatProps {
+  roomId: string | null;
+}
+
+const MAX_MESSAGE_LENGTH = 300;
+
+export default function RoomChat({ roomId }: RoomChatProps) {
+  const { user } = useAuthStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Read by the socket handlers, which are registered once per room
+  const isOpenRef = useRef(isOpen);
+
+  useEffect(() => {
+    isOpenRef.current = isOpen;
+    if (isOpen) setUnreadCount(0);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    function onHistory(data: { roomId: string; messages: ChatMessage[] }) {
+      if (data.roomId !== roomId) return;
+      setMessages(data.messages);
+    }
+
+    function onMessage(message: ChatMessage) {
+      if (message.roomId !== roomId) return;
+      setMessages(prev => [...prev, message]);
+      if (!isOpenRef.current) setUnreadCount(count => count + 1);
+    }
+
+    function onMessageDeleted(data: { messageId: number }) {
+      setMessages(prev => prev.filter(message => message.id !== data.messageId));
+    }
+
+    function onChatError(data: { message: string }) {
+      setError(data.message);
+      setTimeout(() => setError(null), 4000);
+    }
+
+    socket.on('chat-history', onHistory);
+    socket.on('chat-message', onMessage);
+    socket.on('chat-message-deleted', onMessageDeleted);
+    socket.on('chat-error', onChatError);
+    socket.emit('chat-join', { roomId });
+
+    return () => {
+      socket.off('chat-history', onHistory);
+      socket.off('chat-message', onMessage);
+      socket.off('chat-message-deleted', onMessageDeleted);
+      socket.off('chat-error', onChatError);
+      setMessages([]);
+    };
+  }, [roomId]);
+
+  useEffect(() => {
+    if (isOpen && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages, isOpen]);
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    const message = draft.trim();
+    if (!roomId || !message) return;
+
+    socket.emit('chat-send', { roomId, message });
+    setDraft('');
+  };
+
+  if (!roomId) return null;
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-4 right-4 z-40 p-3 rounded-full bg-black/80 border border-yellow-500/60 text-yellow-400 hover:bg-black shadow-lg"
+        aria-label="Open chat"
+      >
+        <MessageCircle className="w-6 h-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 max-w-[calc(100vw-2rem)] h-96 flex flex-col rounded-lg bg-black/90 border border-yellow-500/60 shadow-2xl">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-yellow-500/30">
+        <span className="text-yellow-400 font-bold text-sm flex items-center gap-2">
+          <MessageCircle className="w-4 h-4" /> Room Chat
+        </span>
+        <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-white" aria-label="Close chat">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-3 py-2 space-y-1">
+        {messages.length === 0 ? (
+          <p className="text-gray-500 text-xs text-center mt-4">No messages yet. Say hello!</p>
+        ) : (
+          messages.map(message => (
+            <div key={message.id} className="text-sm break-words">
+              <span className={`font-bold ${message.userId === user?.id ? 'text-yellow-400' : 'text-blue-300'}`}>
+                {message.username}:
+              </span>{' '}
+              <span className="text-white">{message.message}</span>
+            </div>
+          ))
+        )}
+      </div>
+
+      {error && <p className="px-3 py-1 text-xs text-red-400">{error}</p>}
+
+      <form onSubmit={handleSend} className="flex items-center gap-2 p-2 border-t border-yellow-500/30">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_MESSAGE_LENGTH}
+          placeholder="Type a message..."
+          className="flex-1 px-2 py-1 rounded bg-gray-900 border border-gray-700 text-white text-sm focus:outline-none focus:border-yellow-500"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="p-2 rounded bg-yellow-500 text-black hover:bg-yellow-400 disabled:opacity-50"
+          aria-label="Send message"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -15,6 +15,12 @@ export const socket = io(URL, {
   transports: ['polling', 'websocket'],  // Try polling first, then websocket
 });
 
+// The server reads the session cookie during the handshake, so reconnect whenever it changes
+export function reconnectSocket() {
+  socket.disconnect();
+  socket.connect();
+}
+
 // Log connection events for debugging
 socket.on('connect', () => {
   console.log('🔌 Connected to server:', socket.id);
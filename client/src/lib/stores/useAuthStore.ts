@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { reconnectSocket } from '../socket';
 
 export interface User {
   id: number;
@@ -94,6 +95,7 @@ export const useAuthStore = create<AuthState>()(
           
           const user = await authApi.login(username, password);
           setUser(user);
+          reconnectSocket();
         } catch (error) {
           const message = error instanceof Error ? error.message : 'Login failed';
           setError(message);
@@ -112,6 +114,7 @@ export const useAuthStore = create<AuthState>()(
           
           const user = await authApi.register(username, password);
           setUser(user);
+          reconnectSocket();
         } catch (error) {
           const message = error instanceof Error ? error.message : 'Registration failed';
           setError(message);
@@ -132,6 +135,7 @@ export const useAuthStore = create<AuthState>()(
         } finally {
           setUser(null);
           setLoading(false);
+          reconnectSocket();
         }
       }
     }),
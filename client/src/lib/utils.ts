@@ -5,6 +5,14 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// Idempotency key sent with each bet so a replayed emit is not staked twice
+export function createClientBetId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
 const getLocalStorage = (key: string): any =>
   JSON.parse(window.localStorage.getItem(key) || "null");
 const setLocalStorage = (key: string, value: any): void =>
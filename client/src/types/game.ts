@@ -13,8 +13,16 @@ export interface Card {
   revealed: boolean;
 }
 
+export interface BetLimits {
+  minBet: number;
+  maxBet: number;
+}
+
 export interface GameRoom {
   id: string;
+  name: string;
+  minBet: number;
+  maxBet: number;
   players: Player[];
   status: 'waiting' | 'countdown' | 'playing' | 'finished';
   maxPlayers: number;
@@ -23,6 +31,35 @@ export interface GameRoom {
   gameStartTime: number | null;
   roundNumber?: number;
   currentGameId?: number;
+  betLimits?: Record<string, BetLimits>; // Bet types with their own stake range at this table
+  maxRoundWager?: number | null; // Most a player may stake in one round
+}
+
+// Lucky 7 table as listed in the lobby
+export interface TableSummary {
+  id: string;
+  name: string;
+  minBet: number;
+  maxBet: number;
+  playerCount: number;
+  status: GameRoom['status'];
+  countdownTime: number;
+}
+
+// Round timings broadcast by the server; the countdown is bettingSeconds + lockSeconds
+export interface RoundTimings {
+  bettingSeconds: number;
+  lockSeconds: number;
+  resultDisplaySeconds: number;
+}
+
+// Provably fair commitment for a round; serverSeed is only present once revealed
+export interface RoundFairness {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  serverSeed?: string;
+  overridden?: boolean; // Sent with the reveal: the result was forced, not drawn from the seeds
 }
 
 export type GameEvent = 
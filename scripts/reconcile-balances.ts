@@ -0,0 +1,62 @@
+import { runReconciliation, parseStaleAfterMinutes } from "../server/reconciliation";
+
+const USAGE = "Usage: tsx scripts/reconcile-balances.ts [--json] [--stale-after=<minutes>]";
+
+async function reconcileBalances() {
+  try {
+    const args = process.argv.slice(2);
+    const staleArg = args.find(arg => arg.startsWith("--stale-after="));
+    const staleValue = staleArg?.slice("--stale-after=".length);
+    const staleAfterMinutes = staleValue !== undefined ? parseStaleAfterMinutes(staleValue) : undefined;
+    if (staleAfterMinutes === null) {
+      console.error(`--stale-after must be a whole number of minutes (0 or more), got "${staleValue}"`);
+      console.error(USAGE);
+      process.exit(2);
+    }
+
+    const report = await runReconciliation({ staleAfterMinutes });
+
+    if (args.includes("--json")) {
+      console.log(JSON.stringify(report, null, 2));
+      process.exit(report.ok ? 0 : 1);
+    }
+
+    console.log(`Balance reconciliation - ${report.generatedAt}`);
+    console.log("---");
+    console.log(`Players checked: ${report.playersChecked}`);
+    console.log(`Chips held by players: ${report.totals.playerChips}`);
+    console.log(`Chips expected from ledger: ${report.totals.expectedChips}`);
+
+    if (report.mismatches.length === 0) {
+      console.log("✓ All balances match the ledger");
+    } else {
+      console.log(`\n✗ ${report.mismatches.length} balance mismatch(es):`);
+      for (const mismatch of report.mismatches) {
+        const sign = mismatch.difference > 0 ? "+" : "";
+        console.log(
+          `  player ${mismatch.playerId} (${mismatch.name}): chips ${mismatch.chips}, expected ${mismatch.expectedChips} ` +
+          `(${sign}${mismatch.difference}, ${mismatch.ledgerEntryCount} entries${mismatch.reason === "no_ledger_history" ? ", no ledger history" : ""})`
+        );
+      }
+    }
+
+    if (report.unsettledBets.length === 0) {
+      console.log("✓ No bets on unfinished rounds");
+    } else {
+      console.log(`\n✗ ${report.unsettledBets.length} bet(s) on rounds that never completed (${report.totals.unsettledStake} chips staked):`);
+      for (const bet of report.unsettledBets) {
+        console.log(
+          `  ${bet.game} game ${bet.gameId}, bet ${bet.betId}: player ${bet.playerId} staked ${bet.betAmount} on ${bet.betType} ` +
+          `(round started ${bet.gameCreatedAt.toISOString()})`
+        );
+      }
+    }
+
+    process.exit(report.ok ? 0 : 1);
+  } catch (error) {
+    console.error("Error running reconciliation:", error);
+    process.exit(2);
+  }
+}
+
+reconcileBalances();
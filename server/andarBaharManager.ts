@@ -1,6 +1,7 @@
 import { Server, Socket } from "socket.io";
-import { storage } from "./storage";
+import { storage, type AndarBaharEscrowResult } from "./storage";
 import crypto from "crypto";
+import { hashDeckOrder } from "./provablyFair";
 import type { Player as DBPlayer, AndarBaharMatch } from "@shared/schema";
 
 export interface AndarBaharPlayer {
@@ -28,18 +29,128 @@ export interface AndarBaharMatchState {
   status: string;
   winningSide: 'andar' | 'bahar' | null;
   winner: AndarBaharPlayer | null;
+  deck: Card[]; // Shuffled once per match: deck[0] is the joker, the rest are dealt in order
+  deckHash: string;
+  series: SeriesState;
+  disconnectTimers: Map<number, NodeJS.Timeout>; // playerId -> grace period running out
+}
+
+// A run of matches between the same two players, joined by rematches
+export interface SeriesState {
+  seriesId: string;
+  round: number;
+  wins: Map<number, number>; // playerId -> matches won in this series
+  inviteCode?: string; // Set when the series began as a private challenge
+}
+
+// A private match waiting for the friend holding its invite code
+interface Challenge {
+  code: string;
+  creator: AndarBaharPlayer;
+  betAmount: number;
+  expiresAt: number;
+  timeout: NodeJS.Timeout;
+}
+
+// Open after a match completes until both players accept or the window closes
+interface RematchOffer {
+  matchId: string;
+  dealer: AndarBaharPlayer; // Roles for the rematch, already swapped
+  guesser: AndarBaharPlayer;
+  betAmount: number;
+  series: SeriesState;
+  acceptedBy: Set<number>;
+  expiresAt: number;
+  timeout: NodeJS.Timeout;
+}
+
+export interface QueuedPlayer extends AndarBaharPlayer {
+  betAmount: number;
+  tolerance: number; // Also accepts opponents whose stake is within this many chips
+  joinedAt: number;
+  timeout: NodeJS.Timeout;
+}
+
+const MATCHMAKING_TIMEOUT_MS = 2 * 60 * 1000;
+const WAIT_SAMPLES_PER_STAKE = 10; // Recent waits averaged into the estimate
+const REMATCH_WINDOW_MS = 15 * 1000;
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+const INVITE_CODE_LENGTH = 6;
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const SETTLEMENT_ATTEMPTS = 3;
+const SETTLEMENT_RETRY_DELAY_MS = 1000;
+
+// How long a player may be gone from an unfinished match, and what happens when they stay gone:
+// 'forfeit' awards the pot to the opponent if they are still here, 'void' always refunds both stakes
+const RECONNECT_GRACE_MS = Number(process.env.ANDAR_BAHAR_RECONNECT_GRACE_SECONDS || 30) * 1000;
+const DISCONNECT_POLICY: 'forfeit' | 'void' = process.env.ANDAR_BAHAR_DISCONNECT_POLICY === 'void' ? 'void' : 'forfeit';
+
+const SPECTATOR_ROOM_PREFIX = 'andar-bahar-spectate:';
+
+function spectatorRoom(matchId: string): string {
+  return `${SPECTATOR_ROOM_PREFIX}${matchId}`;
 }
 
 export class AndarBaharManager {
   private io: Server;
-  private matchmakingQueue: AndarBaharPlayer[] = [];
+  private matchmakingQueues: Map<number, QueuedPlayer[]> = new Map(); // stake -> players waiting at it, oldest first
+  private recentWaits: Map<number, number[]> = new Map(); // stake -> how long recent matches there waited (ms)
   private activeMatches: Map<string, AndarBaharMatchState> = new Map();
   private playerToMatch: Map<number, string> = new Map(); // playerId -> matchId
+  private rematchOffers: Map<string, RematchOffer> = new Map(); // completed matchId -> offer
+  private challenges: Map<string, Challenge> = new Map(); // invite code -> open challenge
+  private shuttingDown = false;
 
   constructor(io: Server) {
     this.io = io;
   }
 
+  // A match left escrowed by a previous process can never be dealt, so both stakes go back
+  async start(): Promise<void> {
+    try {
+      const leftovers = await storage.getActiveAndarBaharMatches();
+      for (const match of leftovers) {
+        await storage.cancelAndarBaharMatch(match.matchId, 'server_restart');
+        console.log(`Cancelled unfinished Andar Bahar match ${match.matchId} and refunded both stakes`);
+      }
+    } catch (error) {
+      console.error('Failed to recover unfinished Andar Bahar matches:', error);
+    }
+  }
+
+  // Stop pairing players and refund every match still in play, including one being dealt
+  async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+
+    for (const queue of Array.from(this.matchmakingQueues.values())) {
+      queue.forEach(player => clearTimeout(player.timeout));
+    }
+    this.matchmakingQueues.clear();
+
+    for (const challenge of Array.from(this.challenges.values())) {
+      clearTimeout(challenge.timeout);
+    }
+    this.challenges.clear();
+
+    for (const offer of Array.from(this.rematchOffers.values())) {
+      clearTimeout(offer.timeout);
+    }
+    this.rematchOffers.clear();
+
+    for (const match of Array.from(this.activeMatches.values())) {
+      // Its winner is being paid right now; if that fails, the next startup refunds it
+      if (match.status === 'completed') continue;
+
+      await this.cancelMatch(match.matchId, 'maintenance');
+      this.emitToMatch(match, 'match-voided', {
+        matchId: match.matchId,
+        reason: 'The server is restarting. Both stakes have been refunded.'
+      });
+    }
+
+    console.log('Andar Bahar matches refunded for shutdown');
+  }
+
   // Generate a deck of 52 cards
   private generateDeck(): Card[] {
     const ranks = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
@@ -66,113 +177,399 @@ export class AndarBaharManager {
     return shuffled;
   }
 
+  // Serialize deck order as card codes, e.g. "10H,AS,KD"
+  private serializeDeck(deck: Card[]): string {
+    return deck.map(card => `${card.rank}${card.suit[0].toUpperCase()}`).join(',');
+  }
+
   // Join matchmaking queue
-  async joinMatchmaking(socket: Socket, player: DBPlayer, betAmount: number): Promise<void> {
+  async joinMatchmaking(socket: Socket, player: DBPlayer, betAmount: number, tolerance: number = 0): Promise<void> {
     // Check if player already in a match or queue
     if (this.playerToMatch.has(player.id)) {
       socket.emit('error', 'You are already in a match');
       return;
     }
 
-    const existingInQueue = this.matchmakingQueue.find(p => p.playerId === player.id);
-    if (existingInQueue) {
+    if (this.findQueuedPlayer(player.id)) {
       socket.emit('error', 'You are already in matchmaking queue');
       return;
     }
 
+    if (Array.from(this.challenges.values()).some(c => c.creator.playerId === player.id)) {
+      socket.emit('error', 'Cancel your open challenge before joining matchmaking');
+      return;
+    }
+
+    if (!Number.isInteger(betAmount) || betAmount <= 0) {
+      socket.emit('error', 'Invalid bet amount');
+      return;
+    }
+
+    if (!Number.isInteger(tolerance) || tolerance < 0) {
+      socket.emit('error', 'Invalid stake tolerance');
+      return;
+    }
+
     // Check if player has enough chips
     if (player.chips < betAmount) {
       socket.emit('error', 'Insufficient chips');
       return;
     }
 
-    const andarBaharPlayer: AndarBaharPlayer = {
+    if (!await this.isWithinPlayerLimits(socket, player.userId, player.id, betAmount)) {
+      return;
+    }
+
+    // A second request may have queued the player while the limits were read
+    if (this.findQueuedPlayer(player.id) || this.playerToMatch.has(player.id)) {
+      return;
+    }
+
+    // Looking for a new opponent ends any rematch still on offer
+    this.cancelRematchOffersFor(player);
+
+    const queuedPlayer: QueuedPlayer = {
       playerId: player.id,
       socketId: socket.id,
       username: player.name,
-      chips: player.chips
+      chips: player.chips,
+      betAmount,
+      tolerance: Math.min(tolerance, betAmount - 1), // A match never drops to a zero stake
+      joinedAt: Date.now(),
+      timeout: setTimeout(() => this.expireQueuedPlayer(player.id), MATCHMAKING_TIMEOUT_MS)
     };
 
-    // Add to queue
-    this.matchmakingQueue.push(andarBaharPlayer);
-    socket.emit('matchmaking-joined', { position: this.matchmakingQueue.length });
+    const opponent = this.findOpponent(queuedPlayer);
+    if (!opponent) {
+      this.getQueue(betAmount).push(queuedPlayer);
+      this.emitQueueStatus(queuedPlayer);
+      return;
+    }
 
-    // Try to create a match
-    await this.tryCreateMatch(betAmount);
+    this.removeFromQueue(opponent);
+    await this.createMatch(opponent, queuedPlayer);
   }
 
-  // Try to create a match from the queue
-  private async tryCreateMatch(betAmount: number): Promise<void> {
-    // Need at least 2 players with same bet amount
-    const playersWithBet = this.matchmakingQueue.filter(p => {
-      // For now, just match any two players - can add bet amount matching later
-      return true;
+  // Same stake first, then the nearest stake both players' tolerances accept; longest wait breaks ties
+  private findOpponent(player: QueuedPlayer): QueuedPlayer | undefined {
+    const sameStake = this.matchmakingQueues.get(player.betAmount)?.[0];
+    if (sameStake) return sameStake;
+
+    let best: QueuedPlayer | undefined;
+    for (const [stake, queue] of Array.from(this.matchmakingQueues.entries())) {
+      const candidate = queue[0];
+      if (!candidate) continue;
+
+      const difference = Math.abs(stake - player.betAmount);
+      if (difference > player.tolerance || difference > candidate.tolerance) continue;
+
+      const bestDifference = best ? Math.abs(best.betAmount - player.betAmount) : Infinity;
+      if (difference < bestDifference || (difference === bestDifference && candidate.joinedAt < best!.joinedAt)) {
+        best = candidate;
+      }
+    }
+    return best;
+  }
+
+  private getQueue(stake: number): QueuedPlayer[] {
+    let queue = this.matchmakingQueues.get(stake);
+    if (!queue) {
+      queue = [];
+      this.matchmakingQueues.set(stake, queue);
+    }
+    return queue;
+  }
+
+  private findQueuedPlayer(playerId: number): QueuedPlayer | undefined {
+    for (const queue of Array.from(this.matchmakingQueues.values())) {
+      const queued = queue.find(p => p.playerId === playerId);
+      if (queued) return queued;
+    }
+    return undefined;
+  }
+
+  // Drop a player from their stake queue and tell the players behind them they moved up
+  private removeFromQueue(player: QueuedPlayer): void {
+    clearTimeout(player.timeout);
+
+    const queue = this.matchmakingQueues.get(player.betAmount);
+    if (!queue) return;
+
+    const remaining = queue.filter(p => p.playerId !== player.playerId);
+    if (remaining.length === 0) {
+      this.matchmakingQueues.delete(player.betAmount);
+      return;
+    }
+
+    this.matchmakingQueues.set(player.betAmount, remaining);
+    remaining.forEach(p => this.emitQueueStatus(p));
+  }
+
+  // Also re-sent whenever the player's position changes
+  private emitQueueStatus(player: QueuedPlayer): void {
+    const queue = this.matchmakingQueues.get(player.betAmount) || [];
+    this.io.sockets.sockets.get(player.socketId)?.emit('matchmaking-joined', {
+      position: queue.findIndex(p => p.playerId === player.playerId) + 1,
+      betAmount: player.betAmount,
+      tolerance: player.tolerance,
+      estimatedWaitSeconds: this.estimateWaitSeconds(player.betAmount),
+      expiresAt: new Date(player.joinedAt + MATCHMAKING_TIMEOUT_MS).toISOString()
+    });
+  }
+
+  // Average of recent waits at this stake; null until a match has been made there
+  private estimateWaitSeconds(stake: number): number | null {
+    const waits = this.recentWaits.get(stake);
+    if (!waits || waits.length === 0) return null;
+    return Math.round(waits.reduce((sum, wait) => sum + wait, 0) / waits.length / 1000);
+  }
+
+  private recordWait(player: QueuedPlayer): void {
+    const waits = this.recentWaits.get(player.betAmount) || [];
+    waits.push(Date.now() - player.joinedAt);
+    this.recentWaits.set(player.betAmount, waits.slice(-WAIT_SAMPLES_PER_STAKE));
+  }
+
+  private expireQueuedPlayer(playerId: number): void {
+    const queued = this.findQueuedPlayer(playerId);
+    if (!queued) return;
+
+    this.removeFromQueue(queued);
+    this.io.sockets.sockets.get(queued.socketId)?.emit('matchmaking-timeout', {
+      message: `No opponent found for ${queued.betAmount} chips. Try again or pick another stake.`
     });
+  }
 
-    if (playersWithBet.length >= 2) {
-      const player1 = playersWithBet[0];
-      const player2 = playersWithBet[1];
+  // Put a player back at the front of their stake queue, keeping their original deadline
+  private requeue(player: QueuedPlayer): void {
+    const remainingMs = player.joinedAt + MATCHMAKING_TIMEOUT_MS - Date.now();
+    player.timeout = setTimeout(() => this.expireQueuedPlayer(player.playerId), Math.max(0, remainingMs));
+    this.getQueue(player.betAmount).unshift(player);
+    this.emitQueueStatus(player);
+  }
+
+  // Pair two queued players; the match is played at the lower of their stakes
+  private async createMatch(player1: QueuedPlayer, player2: QueuedPlayer): Promise<void> {
+    clearTimeout(player1.timeout);
+    clearTimeout(player2.timeout);
+    this.recordWait(player1);
+    this.recordWait(player2);
+
+    const betAmount = Math.min(player1.betAmount, player2.betAmount);
 
-      // Remove from queue
-      this.matchmakingQueue = this.matchmakingQueue.filter(
-        p => p.playerId !== player1.playerId && p.playerId !== player2.playerId
-      );
+    // Randomly assign dealer and guesser
+    const isPlayer1Dealer = crypto.randomInt(0, 2) === 0;
+    const dealer = isPlayer1Dealer ? player1 : player2;
+    const guesser = isPlayer1Dealer ? player2 : player1;
 
-      // Randomly assign dealer and guesser
-      const isPlayer1Dealer = crypto.randomInt(0, 2) === 0;
-      const dealer = isPlayer1Dealer ? player1 : player2;
-      const guesser = isPlayer1Dealer ? player2 : player1;
+    const escrow = await this.openMatch(dealer, guesser, betAmount);
 
-      // Create match
-      const matchId = crypto.randomBytes(8).toString('hex');
-      const matchState: AndarBaharMatchState = {
+    if (escrow && !escrow.ok) {
+      // Whoever can still take the stake goes back to the front of the queue
+      for (const player of [player2, player1]) {
+        const refusal = escrow.refusals.find(r => r.playerId === player.playerId);
+        if (refusal) {
+          this.io.sockets.sockets.get(player.socketId)?.emit('error', refusal.reason);
+        } else {
+          this.requeue(player);
+        }
+      }
+    }
+  }
+
+  // Shuffle, escrow both stakes and announce the match. Without a series this
+  // is the first match between the pair; undefined means escrow itself failed.
+  private async openMatch(dealer: AndarBaharPlayer, guesser: AndarBaharPlayer, betAmount: number, series?: SeriesState, inviteCode?: string): Promise<AndarBaharEscrowResult | undefined> {
+    if (this.shuttingDown) {
+      for (const player of [dealer, guesser]) {
+        this.io.sockets.sockets.get(player.socketId)?.emit('error', 'The server is restarting. Please try again shortly.');
+      }
+      return undefined;
+    }
+
+    // Shuffle the single deck for this match and commit to its order
+    const deck = this.shuffleDeck(this.generateDeck());
+    const deckOrder = this.serializeDeck(deck);
+    const deckHash = hashDeckOrder(deckOrder);
+
+    const matchId = crypto.randomBytes(8).toString('hex');
+    const matchSeries: SeriesState = series
+      ? { ...series, round: series.round + 1 }
+      : { seriesId: matchId, round: 1, wins: new Map([[dealer.playerId, 0], [guesser.playerId, 0]]), inviteCode };
+
+    // Both stakes go into the pot with the match record; the queue-time chip and limit checks are only advisory
+    let escrow: AndarBaharEscrowResult;
+    try {
+      escrow = await storage.createEscrowedAndarBaharMatch({
         matchId,
-        dealer,
-        guesser,
+        dealerPlayerId: dealer.playerId,
+        guesserPlayerId: guesser.playerId,
         betAmount,
-        jokerCard: null,
-        guesserChoice: null,
-        andarPile: [],
-        baharPile: [],
         status: 'placing_bets',
-        winningSide: null,
-        winner: null
-      };
+        deckHash,
+        deckOrder,
+        seriesId: matchSeries.seriesId,
+        isPrivateChallenge: !!matchSeries.inviteCode,
+        inviteCode: matchSeries.inviteCode
+      });
+    } catch (error) {
+      console.error('Failed to escrow Andar Bahar stakes:', error);
+      for (const player of [dealer, guesser]) {
+        this.io.sockets.sockets.get(player.socketId)?.emit('error', 'Failed to start match');
+      }
+      return undefined;
+    }
+
+    if (!escrow.ok) return escrow;
+
+    const matchState: AndarBaharMatchState = {
+      matchId,
+      dealer,
+      guesser,
+      betAmount,
+      jokerCard: null,
+      guesserChoice: null,
+      andarPile: [],
+      baharPile: [],
+      status: 'placing_bets',
+      winningSide: null,
+      winner: null,
+      deck,
+      deckHash,
+      series: matchSeries,
+      disconnectTimers: new Map()
+    };
+
+    this.activeMatches.set(matchId, matchState);
+    this.playerToMatch.set(dealer.playerId, matchId);
+    this.playerToMatch.set(guesser.playerId, matchId);
 
-      this.activeMatches.set(matchId, matchState);
-      this.playerToMatch.set(dealer.playerId, matchId);
-      this.playerToMatch.set(guesser.playerId, matchId);
+    // Notify both players
+    const dealerSocket = this.io.sockets.sockets.get(dealer.socketId);
+    const guesserSocket = this.io.sockets.sockets.get(guesser.socketId);
 
-      // Create database record
-      await storage.createAndarBaharMatch({
+    if (dealerSocket && guesserSocket) {
+      const series = this.serializeSeries(matchState);
+
+      dealerSocket.emit('match-found', {
         matchId,
-        dealerPlayerId: dealer.playerId,
-        guesserPlayerId: guesser.playerId,
+        role: 'dealer',
+        opponent: guesser.username,
         betAmount,
-        status: 'placing_bets'
+        deckHash,
+        series
       });
 
-      // Notify both players
-      const dealerSocket = this.io.sockets.sockets.get(dealer.socketId);
-      const guesserSocket = this.io.sockets.sockets.get(guesser.socketId);
+      guesserSocket.emit('match-found', {
+        matchId,
+        role: 'guesser',
+        opponent: dealer.username,
+        betAmount,
+        deckHash,
+        series
+      });
 
-      if (dealerSocket && guesserSocket) {
-        dealerSocket.emit('match-found', {
-          matchId,
-          role: 'dealer',
-          opponent: guesser.username,
-          betAmount
-        });
+      // Auto-start the match after a short delay
+      setTimeout(() => this.startMatch(matchId), 2000);
+    } else {
+      // A player left before the match could begin, so hand both stakes back
+      await this.cancelMatch(matchId, 'player_unavailable');
+      (dealerSocket || guesserSocket)?.emit('error', 'Your opponent left before the match started');
+    }
 
-        guesserSocket.emit('match-found', {
-          matchId,
-          role: 'guesser',
-          opponent: dealer.username,
-          betAmount
-        });
+    return escrow;
+  }
+
+  // Series score as both players see it
+  private serializeSeries(match: AndarBaharMatchState) {
+    return {
+      seriesId: match.series.seriesId,
+      round: match.series.round,
+      score: [match.dealer!, match.guesser!].map(player => ({
+        username: player.username,
+        wins: match.series.wins.get(player.playerId) ?? 0
+      }))
+    };
+  }
+
+  private async cancelMatch(matchId: string, reason: string): Promise<void> {
+    const match = this.activeMatches.get(matchId);
+    if (match) {
+      this.releaseMatch(match);
+    }
+
+    try {
+      await storage.cancelAndarBaharMatch(matchId, reason);
+    } catch (error) {
+      console.error(`Failed to cancel Andar Bahar match ${matchId}:`, error);
+    }
+  }
+
+  // Forget a finished match so both players are free to play again
+  private releaseMatch(match: AndarBaharMatchState): void {
+    match.disconnectTimers.forEach(timer => clearTimeout(timer));
+    match.disconnectTimers.clear();
+    this.playerToMatch.delete(match.dealer!.playerId);
+    this.playerToMatch.delete(match.guesser!.playerId);
+    this.activeMatches.delete(match.matchId);
+  }
+
+  // Sockets are looked up on every send, since a player who reconnects arrives on a new one.
+  // Spectators get the same events as the players.
+  private emitToMatch(match: AndarBaharMatchState, event: string, data: unknown): void {
+    for (const player of [match.dealer!, match.guesser!]) {
+      this.io.sockets.sockets.get(player.socketId)?.emit(event, data);
+    }
+    this.io.to(spectatorRoom(match.matchId)).emit(event, data);
+  }
 
-        // Auto-start the match after a short delay
-        setTimeout(() => this.startMatch(matchId), 2000);
+  // Matches still being played, for the spectator lobby. Series that began as a private
+  // challenge stay private through their rematches, so they are never listed.
+  getLiveMatches() {
+    return Array.from(this.activeMatches.values())
+      .filter(match => match.status !== 'completed' && match.status !== 'cancelled' && !match.series.inviteCode)
+      .map(match => ({
+        matchId: match.matchId,
+        dealer: match.dealer!.username,
+        guesser: match.guesser!.username,
+        betAmount: match.betAmount,
+        status: match.status,
+        seriesRound: match.series.round,
+        spectatorCount: this.io.sockets.adapter.rooms.get(spectatorRoom(match.matchId))?.size ?? 0
+      }))
+      .sort((a, b) => b.betAmount - a.betAmount);
+  }
+
+  // Watch a match without taking part; one match at a time per socket
+  spectate(socket: Socket, matchId: string): void {
+    const match = this.activeMatches.get(matchId);
+    // Private challenges cannot be watched; answer as if the match did not exist
+    if (!match || match.series.inviteCode) {
+      socket.emit('error', 'Match not found');
+      return;
+    }
+
+    this.stopSpectating(socket);
+    socket.join(spectatorRoom(matchId));
+    socket.emit('spectate-joined', {
+      matchId,
+      dealer: match.dealer!.username,
+      guesser: match.guesser!.username,
+      betAmount: match.betAmount,
+      deckHash: match.deckHash,
+      series: this.serializeSeries(match),
+      status: match.status,
+      jokerCard: match.jokerCard,
+      guesserChoice: match.guesserChoice,
+      andarPile: match.andarPile,
+      baharPile: match.baharPile
+    });
+  }
+
+  stopSpectating(socket: Socket): void {
+    for (const room of Array.from(socket.rooms)) {
+      if (room.startsWith(SPECTATOR_ROOM_PREFIX)) {
+        socket.leave(room);
       }
     }
   }
@@ -182,39 +579,43 @@ export class AndarBaharManager {
     const match = this.activeMatches.get(matchId);
     if (!match) return;
 
-    // Generate and shuffle deck
-    const deck = this.shuffleDeck(this.generateDeck());
-
-    // Draw joker card (first card from deck)
-    const jokerCard = deck[0];
+    // Draw joker card (first card of the committed deck)
+    const jokerCard = match.deck[0];
     match.jokerCard = jokerCard;
     match.status = 'choosing_side';
 
-    // Update database
-    await storage.updateAndarBaharMatch(matchId, {
-      jokerCardRank: jokerCard.rank,
-      jokerCardSuit: jokerCard.suit,
-      status: 'choosing_side'
-    });
-
-    // Notify both players of joker card
-    const dealerSocket = this.io.sockets.sockets.get(match.dealer!.socketId);
-    const guesserSocket = this.io.sockets.sockets.get(match.guesser!.socketId);
-
-    if (dealerSocket && guesserSocket) {
-      const matchData = {
+    // Runs from a timer, so a failure here must not escape; the stakes are already escrowed
+    try {
+      await storage.updateAndarBaharMatch(matchId, {
+        jokerCardRank: jokerCard.rank,
+        jokerCardSuit: jokerCard.suit,
+        status: 'choosing_side'
+      });
+    } catch (error) {
+      console.error(`Failed to start Andar Bahar match ${matchId}:`, error);
+      await this.cancelMatch(matchId, 'start_failed');
+      this.emitToMatch(match, 'match-voided', {
         matchId,
-        jokerCard,
-        waitingFor: 'guesser'
-      };
-
-      dealerSocket.emit('joker-revealed', matchData);
-      guesserSocket.emit('joker-revealed', matchData);
+        reason: 'The match could not be started. Both stakes have been refunded.'
+      });
+      return;
     }
+
+    // Notify both players of joker card
+    this.emitToMatch(match, 'joker-revealed', {
+      matchId,
+      jokerCard,
+      waitingFor: 'guesser'
+    });
   }
 
   // Guesser makes their choice
-  async makeChoice(socket: Socket, matchId: string, choice: 'andar' | 'bahar'): Promise<void> {
+  async makeChoice(socket: Socket, matchId: string, choice: unknown): Promise<void> {
+    if (choice !== 'andar' && choice !== 'bahar') {
+      socket.emit('error', 'Choose andar or bahar');
+      return;
+    }
+
     const match = this.activeMatches.get(matchId);
     if (!match) {
       socket.emit('error', 'Match not found');
@@ -234,14 +635,27 @@ export class AndarBaharManager {
     match.guesserChoice = choice;
     match.status = 'dealing_cards';
 
-    // Update database
-    await storage.updateAndarBaharMatch(matchId, {
-      guesserChoice: choice,
-      status: 'dealing_cards'
-    });
+    try {
+      await storage.updateAndarBaharMatch(matchId, {
+        guesserChoice: choice,
+        status: 'dealing_cards'
+      });
+
+      this.emitToMatch(match, 'side-chosen', { matchId, choice });
 
-    // Start dealing cards
-    await this.dealCards(matchId);
+      // Start dealing cards
+      await this.dealCards(matchId);
+    } catch (error) {
+      console.error(`Failed to play Andar Bahar match ${matchId}:`, error);
+      // Settlement failures are voided inside dealCards; anything else still holds both stakes
+      if (this.activeMatches.get(matchId) === match && match.status !== 'completed') {
+        await this.cancelMatch(matchId, 'play_failed');
+        this.emitToMatch(match, 'match-voided', {
+          matchId,
+          reason: 'The match could not be completed. Both stakes have been refunded.'
+        });
+      }
+    }
   }
 
   // Deal cards alternately until match is found
@@ -249,13 +663,8 @@ export class AndarBaharManager {
     const match = this.activeMatches.get(matchId);
     if (!match || !match.jokerCard) return;
 
-    // Generate and shuffle a fresh deck
-    let deck = this.shuffleDeck(this.generateDeck());
-    
-    // Remove the joker card from deck
-    deck = deck.filter(card => 
-      !(card.rank === match.jokerCard!.rank && card.suit === match.jokerCard!.suit)
-    );
+    // Deal from the rest of the committed deck, right after the joker
+    const deck = match.deck.slice(1);
 
     // Determine first pile based on joker color
     // Black (clubs/spades) -> Andar first
@@ -266,12 +675,8 @@ export class AndarBaharManager {
     let matchFound = false;
     let winningSide: 'andar' | 'bahar' | null = null;
 
-    // Get sockets for both players
-    const dealerSocket = this.io.sockets.sockets.get(match.dealer!.socketId);
-    const guesserSocket = this.io.sockets.sockets.get(match.guesser!.socketId);
-
-    // Deal cards one by one with animation delay
-    while (!matchFound && cardIndex < deck.length) {
+    // Deal cards one by one with animation delay; stops if the match is cancelled meanwhile
+    while (!matchFound && cardIndex < deck.length && this.activeMatches.get(matchId) === match) {
       const card = deck[cardIndex];
       
       if (currentPile === 'andar') {
@@ -290,6 +695,7 @@ export class AndarBaharManager {
 
       // Emit card-dealt event to both players with animation delay
       const cardData = {
+        matchId,
         card,
         pile: currentPile,
         isMatchingCard,
@@ -297,12 +703,7 @@ export class AndarBaharManager {
         baharCount: match.baharPile.length
       };
 
-      if (dealerSocket) {
-        dealerSocket.emit('card-dealt', cardData);
-      }
-      if (guesserSocket) {
-        guesserSocket.emit('card-dealt', cardData);
-      }
+      this.emitToMatch(match, 'card-dealt', cardData);
 
       // Wait before dealing next card (800ms for suspense)
       if (!isMatchingCard) {
@@ -318,7 +719,7 @@ export class AndarBaharManager {
       cardIndex++;
     }
 
-    if (matchFound && winningSide) {
+    if (matchFound && winningSide && this.activeMatches.get(matchId) === match) {
       match.winningSide = winningSide;
       
       // Determine winner
@@ -326,52 +727,478 @@ export class AndarBaharManager {
       match.winner = didGuesserWin ? match.guesser : match.dealer;
       match.status = 'completed';
 
-      // Update chips
-      const winnerPlayerId = match.winner!.playerId;
-      const loserPlayerId = didGuesserWin ? match.dealer!.playerId : match.guesser!.playerId;
-
-      // Winner gets double the bet amount (their bet back + loser's bet)
-      await storage.updatePlayerFunds(winnerPlayerId, match.betAmount);
-      await storage.updatePlayerFunds(loserPlayerId, -match.betAmount);
+      // Winner takes the whole pot; the loser's stake was already escrowed at match start
+      if (!await this.settleOrVoid(match, match.winner!.playerId, winningSide)) {
+        return;
+      }
 
-      // Update match in database
-      await storage.updateAndarBaharMatch(matchId, {
-        winningSide,
-        winnerPlayerId: winnerPlayerId,
-        status: 'completed',
-        completedAt: new Date()
-      });
+      const winnerId = match.winner!.playerId;
+      match.series.wins.set(winnerId, (match.series.wins.get(winnerId) ?? 0) + 1);
+      const rematch = this.offerRematch(match);
 
       // Notify both players of the result
-      const dealerSocket = this.io.sockets.sockets.get(match.dealer!.socketId);
-      const guesserSocket = this.io.sockets.sockets.get(match.guesser!.socketId);
-
       const resultData = {
         matchId,
         winningSide,
         winner: match.winner!.username,
         andarPile: match.andarPile,
         baharPile: match.baharPile,
-        jokerCard: match.jokerCard
+        jokerCard: match.jokerCard,
+        deckHash: match.deckHash,
+        deckOrder: this.serializeDeck(match.deck),
+        series: this.serializeSeries(match),
+        rematchExpiresAt: new Date(rematch.expiresAt).toISOString()
       };
 
-      if (dealerSocket) {
-        dealerSocket.emit('match-completed', resultData);
+      this.emitToMatch(match, 'match-completed', resultData);
+
+      // Clean up
+      this.releaseMatch(match);
+    }
+  }
+
+  // Pay the pot to the winner, retrying briefly. If it still cannot be paid, both stakes are
+  // refunded and the players told the match was voided. Returns whether the winner was paid.
+  private async settleOrVoid(match: AndarBaharMatchState, winnerPlayerId: number, winningSide: 'andar' | 'bahar' | null): Promise<boolean> {
+    for (let attempt = 1; attempt <= SETTLEMENT_ATTEMPTS; attempt++) {
+      try {
+        const settled = await storage.settleAndarBaharMatch(match.matchId, winnerPlayerId, winningSide);
+        // Already cancelled elsewhere, e.g. by shutdown, so there is no result to announce
+        return settled.status === 'completed';
+      } catch (error) {
+        console.error(`Failed to settle Andar Bahar match ${match.matchId} (attempt ${attempt} of ${SETTLEMENT_ATTEMPTS}):`, error);
       }
-      if (guesserSocket) {
-        guesserSocket.emit('match-completed', resultData);
+      if (attempt < SETTLEMENT_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, SETTLEMENT_RETRY_DELAY_MS));
       }
+    }
 
-      // Clean up
-      this.playerToMatch.delete(match.dealer!.playerId);
-      this.playerToMatch.delete(match.guesser!.playerId);
-      this.activeMatches.delete(matchId);
+    // If the refund fails too the match stays open, and the next startup refunds it
+    await this.cancelMatch(match.matchId, 'settlement_failed');
+    this.emitToMatch(match, 'match-voided', {
+      matchId: match.matchId,
+      reason: 'The result could not be settled. Both stakes have been refunded.'
+    });
+    return false;
+  }
+
+  // Keep the pair together for another match, with the guesser dealing next
+  private offerRematch(match: AndarBaharMatchState): RematchOffer {
+    const offer: RematchOffer = {
+      matchId: match.matchId,
+      dealer: match.guesser!,
+      guesser: match.dealer!,
+      betAmount: match.betAmount,
+      series: match.series,
+      acceptedBy: new Set(),
+      expiresAt: Date.now() + REMATCH_WINDOW_MS,
+      timeout: setTimeout(() => this.cancelRematch(match.matchId, 'The rematch window closed'), REMATCH_WINDOW_MS)
+    };
+    this.rematchOffers.set(match.matchId, offer);
+    return offer;
+  }
+
+  // Both players must accept before the window closes; stakes are escrowed again for the new match
+  async acceptRematch(socket: Socket, playerId: number, matchId: string): Promise<void> {
+    const offer = this.rematchOffers.get(matchId);
+    const player = offer && [offer.dealer, offer.guesser].find(p => p.playerId === playerId);
+    if (!offer || !player) {
+      socket.emit('error', 'Rematch is no longer available');
+      return;
+    }
+
+    const account = await storage.getPlayer(playerId);
+    if (!account || !await this.isWithinPlayerLimits(socket, account.userId, playerId, offer.betAmount)) {
+      return;
+    }
+
+    if (this.rematchOffers.get(matchId) !== offer) {
+      socket.emit('error', 'Rematch is no longer available');
+      return;
+    }
+
+    const busy = [offer.dealer, offer.guesser].find(p => this.isBusy(p.playerId));
+    if (busy) {
+      this.cancelRematch(matchId, `${busy.username} is already playing elsewhere`);
+      return;
+    }
+
+    player.socketId = socket.id;
+    offer.acceptedBy.add(playerId);
+    this.emitToRematch(offer, 'rematch-status', {
+      matchId,
+      acceptedBy: [offer.dealer, offer.guesser].filter(p => offer.acceptedBy.has(p.playerId)).map(p => p.username),
+      expiresAt: new Date(offer.expiresAt).toISOString()
+    });
+
+    if (offer.acceptedBy.size < 2) return;
+
+    clearTimeout(offer.timeout);
+    this.rematchOffers.delete(matchId);
+
+    const escrow = await this.openMatch(offer.dealer, offer.guesser, offer.betAmount, offer.series);
+    if (escrow && !escrow.ok) {
+      const refused = [offer.dealer, offer.guesser].filter(p => escrow.refusals.some(r => r.playerId === p.playerId));
+      this.emitToRematch(offer, 'rematch-cancelled', {
+        matchId,
+        reason: `${refused.map(p => p.username).join(' and ')} cannot stake ${offer.betAmount} chips on the rematch`
+      });
+      for (const refusal of escrow.refusals) {
+        const player = refused.find(p => p.playerId === refusal.playerId)!;
+        this.io.sockets.sockets.get(player.socketId)?.emit('error', refusal.reason);
+      }
+    }
+  }
+
+  declineRematch(playerId: number, matchId: string): void {
+    const offer = this.rematchOffers.get(matchId);
+    const player = offer && [offer.dealer, offer.guesser].find(p => p.playerId === playerId);
+    if (player) {
+      this.cancelRematch(matchId, `${player.username} declined the rematch`);
+    }
+  }
+
+  // Starting something else with a new opponent ends any rematch the player was offered
+  private cancelRematchOffersFor(player: DBPlayer): void {
+    for (const offer of Array.from(this.rematchOffers.values())) {
+      if (offer.dealer.playerId === player.id || offer.guesser.playerId === player.id) {
+        this.cancelRematch(offer.matchId, `${player.name} left to find a new match`);
+      }
+    }
+  }
+
+  // In a match, queued, or holding an open challenge
+  private isBusy(playerId: number): boolean {
+    return this.playerToMatch.has(playerId)
+      || !!this.findQueuedPlayer(playerId)
+      || Array.from(this.challenges.values()).some(c => c.creator.playerId === playerId);
+  }
+
+  private cancelRematch(matchId: string, reason: string): void {
+    const offer = this.rematchOffers.get(matchId);
+    if (!offer) return;
+
+    clearTimeout(offer.timeout);
+    this.rematchOffers.delete(matchId);
+    this.emitToRematch(offer, 'rematch-cancelled', { matchId, reason });
+  }
+
+  private emitToRematch(offer: RematchOffer, event: string, data: unknown): void {
+    for (const player of [offer.dealer, offer.guesser]) {
+      this.io.sockets.sockets.get(player.socketId)?.emit(event, data);
     }
   }
 
+  // Leaves the queue right away; an unfinished match waits out the grace period for the player to return
+  handleDisconnect(socket: Socket): void {
+    for (const queue of Array.from(this.matchmakingQueues.values())) {
+      const queued = queue.find(p => p.socketId === socket.id);
+      if (queued) {
+        this.removeFromQueue(queued);
+        return;
+      }
+    }
+
+    // The creator's socket is where the match would be announced, so the code dies with it
+    for (const challenge of Array.from(this.challenges.values())) {
+      if (challenge.creator.socketId === socket.id) {
+        this.cancelChallenge(challenge.creator.playerId);
+      }
+    }
+
+    for (const offer of Array.from(this.rematchOffers.values())) {
+      const player = [offer.dealer, offer.guesser].find(p => p.socketId === socket.id);
+      if (player) {
+        this.cancelRematch(offer.matchId, `${player.username} disconnected`);
+      }
+    }
+
+    const match = Array.from(this.activeMatches.values())
+      .find(m => m.dealer!.socketId === socket.id || m.guesser!.socketId === socket.id);
+    if (!match) return;
+
+    const player = match.dealer!.socketId === socket.id ? match.dealer! : match.guesser!;
+    const expiresAt = Date.now() + RECONNECT_GRACE_MS;
+    clearTimeout(match.disconnectTimers.get(player.playerId));
+    match.disconnectTimers.set(player.playerId, setTimeout(() => {
+      this.resolveAbandonedMatch(match.matchId, player.playerId);
+    }, RECONNECT_GRACE_MS));
+
+    console.log(`Andar Bahar player ${player.username} disconnected from match ${match.matchId}, waiting ${RECONNECT_GRACE_MS / 1000}s`);
+    this.emitToMatch(match, 'opponent-disconnected', {
+      matchId: match.matchId,
+      username: player.username,
+      expiresAt: new Date(expiresAt).toISOString()
+    });
+  }
+
+  // Put a returning player back into their match and replay everything they missed
+  resumeMatch(socket: Socket, playerId: number): void {
+    const match = this.getPlayerMatch(playerId);
+    if (!match) return;
+
+    const player = match.dealer!.playerId === playerId ? match.dealer! : match.guesser!;
+    const opponent = player === match.dealer ? match.guesser! : match.dealer!;
+    player.socketId = socket.id;
+
+    const timer = match.disconnectTimers.get(playerId);
+    if (timer) {
+      clearTimeout(timer);
+      match.disconnectTimers.delete(playerId);
+      this.io.sockets.sockets.get(opponent.socketId)?.emit('opponent-reconnected', {
+        matchId: match.matchId,
+        username: player.username
+      });
+    }
+
+    socket.emit('match-resumed', {
+      matchId: match.matchId,
+      role: player === match.dealer ? 'dealer' : 'guesser',
+      opponent: opponent.username,
+      betAmount: match.betAmount,
+      deckHash: match.deckHash,
+      series: this.serializeSeries(match),
+      status: match.status,
+      jokerCard: match.jokerCard,
+      guesserChoice: match.guesserChoice,
+      andarPile: match.andarPile,
+      baharPile: match.baharPile
+    });
+  }
+
+  // The grace period ran out. A deal already under way still plays out and settles on its own.
+  private async resolveAbandonedMatch(matchId: string, playerId: number): Promise<void> {
+    const match = this.activeMatches.get(matchId);
+    if (!match || !match.disconnectTimers.has(playerId)) return;
+    match.disconnectTimers.delete(playerId);
+    if (match.status === 'dealing_cards' || match.status === 'completed') return;
+
+    const absent = match.dealer!.playerId === playerId ? match.dealer! : match.guesser!;
+    const opponent = absent === match.dealer ? match.guesser! : match.dealer!;
+    const opponentPresent = !match.disconnectTimers.has(opponent.playerId) && this.io.sockets.sockets.has(opponent.socketId);
+
+    if (DISCONNECT_POLICY === 'forfeit' && opponentPresent) {
+      match.status = 'completed';
+      match.winner = opponent;
+
+      if (!await this.settleOrVoid(match, opponent.playerId, null)) {
+        return;
+      }
+      this.releaseMatch(match);
+
+      console.log(`Andar Bahar match ${matchId} forfeited by ${absent.username}`);
+      this.emitToMatch(match, 'match-forfeited', {
+        matchId,
+        winner: opponent.username,
+        reason: `${absent.username} did not return in time`
+      });
+      return;
+    }
+
+    await this.cancelMatch(matchId, 'player_disconnected');
+    console.log(`Andar Bahar match ${matchId} voided after ${absent.username} disconnected`);
+    this.emitToMatch(match, 'match-voided', {
+      matchId,
+      reason: `${absent.username} did not return in time. Both stakes have been refunded.`
+    });
+  }
+
+  // Open a private match that only someone holding the invite code can join
+  async createChallenge(socket: Socket, player: DBPlayer, betAmount: number): Promise<void> {
+    if (this.playerToMatch.has(player.id)) {
+      socket.emit('error', 'You are already in a match');
+      return;
+    }
+
+    if (this.findQueuedPlayer(player.id)) {
+      socket.emit('error', 'You are already in matchmaking queue');
+      return;
+    }
+
+    if (!Number.isInteger(betAmount) || betAmount <= 0) {
+      socket.emit('error', 'Invalid bet amount');
+      return;
+    }
+
+    if (player.chips < betAmount) {
+      socket.emit('error', 'Insufficient chips');
+      return;
+    }
+
+    if (!await this.isWithinPlayerLimits(socket, player.userId, player.id, betAmount)) {
+      return;
+    }
+
+    // The player may have been matched or queued while the limits were read
+    if (this.playerToMatch.has(player.id) || this.findQueuedPlayer(player.id)) {
+      return;
+    }
+
+    this.cancelRematchOffersFor(player);
+
+    // One open challenge per player; a new one replaces the old code
+    this.cancelChallenge(player.id);
+
+    let code = this.generateInviteCode();
+    while (this.challenges.has(code)) {
+      code = this.generateInviteCode();
+    }
+
+    const challenge: Challenge = {
+      code,
+      creator: {
+        playerId: player.id,
+        socketId: socket.id,
+        username: player.name,
+        chips: player.chips
+      },
+      betAmount,
+      expiresAt: Date.now() + CHALLENGE_TTL_MS,
+      timeout: setTimeout(() => this.expireChallenge(code), CHALLENGE_TTL_MS)
+    };
+    this.challenges.set(code, challenge);
+
+    socket.emit('challenge-created', {
+      code,
+      betAmount,
+      expiresAt: new Date(challenge.expiresAt).toISOString()
+    });
+  }
+
+  // Accept a friend's challenge; the stake is the one they set
+  async joinChallenge(socket: Socket, player: DBPlayer, code: string): Promise<void> {
+    const challenge = this.challenges.get(String(code || '').trim().toUpperCase());
+    if (!challenge) {
+      socket.emit('error', 'Invite code not found or expired');
+      return;
+    }
+
+    if (challenge.creator.playerId === player.id) {
+      socket.emit('error', 'You cannot accept your own challenge');
+      return;
+    }
+
+    if (this.playerToMatch.has(player.id) || this.playerToMatch.has(challenge.creator.playerId)) {
+      socket.emit('error', 'That player or you are already in a match');
+      return;
+    }
+
+    if (this.findQueuedPlayer(player.id)) {
+      socket.emit('error', 'Leave the matchmaking queue before accepting a challenge');
+      return;
+    }
+
+    if (!await this.isWithinPlayerLimits(socket, player.userId, player.id, challenge.betAmount)) {
+      return;
+    }
+
+    if (this.challenges.get(challenge.code) !== challenge) {
+      socket.emit('error', 'Invite code not found or expired');
+      return;
+    }
+
+    if (this.playerToMatch.has(player.id) || this.findQueuedPlayer(player.id)) {
+      socket.emit('error', 'You are already in a match');
+      return;
+    }
+
+    this.cancelRematchOffersFor(player);
+    clearTimeout(challenge.timeout);
+    this.challenges.delete(challenge.code);
+
+    const challenger: AndarBaharPlayer = {
+      playerId: player.id,
+      socketId: socket.id,
+      username: player.name,
+      chips: player.chips
+    };
+
+    const creatorIsDealer = crypto.randomInt(0, 2) === 0;
+    const dealer = creatorIsDealer ? challenge.creator : challenger;
+    const guesser = creatorIsDealer ? challenger : challenge.creator;
+
+    const escrow = await this.openMatch(dealer, guesser, challenge.betAmount, undefined, challenge.code);
+    if (!escrow) {
+      // Escrow itself failed or the server is shutting down; the code is gone, so release the creator's waiting screen
+      this.io.sockets.sockets.get(challenge.creator.socketId)?.emit('challenge-cancelled', {
+        code: challenge.code,
+        reason: 'The match could not be started. Please create a new challenge.'
+      });
+      return;
+    }
+    if (!escrow.ok) {
+      const creatorRefusal = escrow.refusals.find(r => r.playerId === challenge.creator.playerId);
+      const challengerRefusal = escrow.refusals.find(r => r.playerId === player.id);
+      if (challengerRefusal) {
+        socket.emit('error', challengerRefusal.reason);
+      }
+      if (creatorRefusal) {
+        this.io.sockets.sockets.get(challenge.creator.socketId)?.emit('challenge-cancelled', {
+          code: challenge.code,
+          reason: `You can no longer stake ${challenge.betAmount} chips on this challenge: ${creatorRefusal.reason}`
+        });
+        if (!challengerRefusal) {
+          socket.emit('error', `${challenge.creator.username} can no longer cover the stake`);
+        }
+      } else {
+        // Only the challenger was refused, so the code stays valid for someone else
+        challenge.timeout = setTimeout(() => this.expireChallenge(challenge.code), Math.max(0, challenge.expiresAt - Date.now()));
+        this.challenges.set(challenge.code, challenge);
+      }
+    }
+  }
+
+  cancelChallenge(playerId: number): void {
+    for (const challenge of Array.from(this.challenges.values())) {
+      if (challenge.creator.playerId === playerId) {
+        clearTimeout(challenge.timeout);
+        this.challenges.delete(challenge.code);
+      }
+    }
+  }
+
+  private expireChallenge(code: string): void {
+    const challenge = this.challenges.get(code);
+    if (!challenge) return;
+
+    this.challenges.delete(code);
+    this.io.sockets.sockets.get(challenge.creator.socketId)?.emit('challenge-cancelled', {
+      code,
+      reason: 'Your challenge expired before anyone joined'
+    });
+  }
+
+  // The wager and loss limits the player set on themselves, checked before any stake is committed
+  private async isWithinPlayerLimits(socket: Socket, userId: number, playerId: number, betAmount: number): Promise<boolean> {
+    try {
+      const breach = await storage.getPlayerLimitBreach(userId, playerId, 'stake', betAmount);
+      if (breach) {
+        socket.emit('error', breach);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error(`Failed to check limits for player ${playerId}:`, error);
+      socket.emit('error', 'Could not check your playing limits. Please try again.');
+      return false;
+    }
+  }
+
+  // Short enough to read out, without look-alike characters
+  private generateInviteCode(): string {
+    let code = '';
+    for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+      code += INVITE_CODE_ALPHABET[crypto.randomInt(0, INVITE_CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
   // Leave matchmaking
   leaveMatchmaking(playerId: number): void {
-    this.matchmakingQueue = this.matchmakingQueue.filter(p => p.playerId !== playerId);
+    const queued = this.findQueuedPlayer(playerId);
+    if (queued) {
+      this.removeFromQueue(queued);
+    }
   }
 
   // Get player's active match
@@ -0,0 +1,49 @@
+import { storage } from "./storage";
+import type { AuthRequest } from "./middleware/auth";
+import type { AuditAction, AuditEvent } from "../shared/schema";
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType?: string;
+  targetId?: string | number;
+  description: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+// Records an admin action against the signed-in admin. The action has already happened by
+// the time this runs, so a failed write is logged rather than failing the request.
+export async function recordAudit(req: AuthRequest, entry: AuditEntry): Promise<void> {
+  try {
+    await storage.recordAuditEvent({
+      actorUserId: req.user?.id ?? null,
+      actorUsername: req.user?.username ?? 'unknown',
+      action: entry.action,
+      targetType: entry.targetType ?? null,
+      targetId: entry.targetId !== undefined ? String(entry.targetId) : null,
+      description: entry.description,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      ipAddress: (req.ip || req.socket.remoteAddress || '').slice(0, 64) || null,
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${entry.action}:`, error);
+  }
+}
+
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  'createdAt', 'actorUsername', 'action', 'targetType', 'targetId', 'description', 'before', 'after', 'ipAddress',
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const rows = events.map(event => CSV_COLUMNS.map(column => csvCell(event[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
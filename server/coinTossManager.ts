@@ -1,618 +1,167 @@
 import { Server, Socket } from "socket.io";
 import { storage } from "./storage";
-import type { Player as DBPlayer } from "@shared/schema";
-import crypto from "crypto";
+import { deriveCoinTossResult, toPublicSeeds, type RoundSeeds } from "./provablyFair";
+import { RoundEngine, type BetLimits, type RoundBet, type RoundBetStore, type RoundPlayer, type RoundRoom } from "./roundEngine";
 
-export interface CoinTossHouseStats {
-  totalWagered: number;
-  totalPaidOut: number;
-  houseProfitThisRound: number;
-  houseProfitTotal: number;
-  roundCount: number;
-  houseEdgePercent: number;
-}
+export type { HouseStats as CoinTossHouseStats } from "./roundEngine";
 
-export interface CoinTossPlayer {
-  id: string;
-  name: string;
-  socketId: string;
-  chips?: number;
-  dbId?: number;
-}
+export type CoinTossResult = 'heads' | 'tails';
 
+export type CoinTossPlayer = RoundPlayer;
+
+// Room as broadcast to Coin Toss clients
 export interface CoinTossRoom {
   id: string;
   players: CoinTossPlayer[];
   status: 'waiting' | 'countdown' | 'revealing' | 'finished';
   maxPlayers: number;
-  currentResult: 'heads' | 'tails' | null;
+  currentResult: CoinTossResult | null;
   countdownTime: number;
   gameStartTime: number | null;
   currentGameId?: number;
-  activeBets?: Map<string, any[]>;
   roundNumber?: number;
-  houseStats?: CoinTossHouseStats;
+  betLimits: Record<string, BetLimits>; // Stake range for bet types with their own limits
+  maxRoundWager: number | null;
 }
 
-export class CoinTossManager {
-  private io: Server;
-  private globalRoom: CoinTossRoom;
-  private playerRooms: Map<string, string>;
-  private countdownIntervals: Map<string, NodeJS.Timeout>;
-  private adminOverrides: Map<number, 'heads' | 'tails'>;
-  private lockedBets: Map<number, Array<{ betType: 'heads' | 'tails'; amount: number; betId: number }>>;
-  private unlockedBets: Map<string, Array<{ betType: 'heads' | 'tails'; amount: number; playerId: number; betId: number }>>;
+export const COIN_TOSS_ROOM_ID = 'COIN_TOSS_GLOBAL';
+
+const COIN_TOSS_BET_TYPES = ['heads', 'tails'] as const;
+
+const coinTossBetStore: RoundBetStore<CoinTossResult> = {
+  async createGame(roomId, totalPlayers, seeds) {
+    const gameRecord = await storage.createCoinTossGame({
+      roomId,
+      result: 'heads',
+      totalBets: 0,
+      totalPlayers,
+      serverSeed: seeds.serverSeed,
+      serverSeedHash: seeds.serverSeedHash,
+      clientSeed: seeds.clientSeed,
+      nonce: seeds.nonce
+    });
+    return gameRecord.id;
+  },
+  async completeGame(gameId, result, overridden) {
+    await storage.updateCoinTossResult(gameId, result, overridden);
+    await storage.markCoinTossGameCompleted(gameId);
+  },
+  placeBet: (playerId, betAmount, betType, gameId, clientBetId, maxRoundWager) =>
+    storage.placeCoinTossBet(playerId, betAmount, betType, gameId, clientBetId, maxRoundWager),
+  getBetByClientBetId: (playerId, clientBetId) => storage.getCoinTossBetByClientBetId(playerId, clientBetId),
+  getPlayerBets: (playerId, gameId) => storage.getPlayerBetsByGame(playerId, gameId),
+  refundBet: (betId) => storage.refundCoinTossBet(betId),
+  lockBets: (betIds) => storage.lockCoinTossBets(betIds),
+  resolveBet: (betId, won, winAmount) => storage.resolveCoinTossBet(betId, won, winAmount),
+  getUnfinishedGameIds: () => storage.getUnfinishedCoinTossGameIds(),
+  voidGame: (gameId, reason) => storage.voidCoinTossGame(gameId, reason)
+};
+
+export class CoinTossManager extends RoundEngine<CoinTossResult> {
+  private globalRoom: RoundRoom<CoinTossResult>;
 
   constructor(io: Server) {
-    this.io = io;
-    this.playerRooms = new Map();
-    this.countdownIntervals = new Map();
-    this.adminOverrides = new Map();
-    this.lockedBets = new Map();
-    this.unlockedBets = new Map();
-    
-    this.globalRoom = {
-      id: 'COIN_TOSS_GLOBAL',
-      players: [],
-      status: 'waiting',
-      maxPlayers: 999999,
-      currentResult: null,
-      countdownTime: 30,
-      gameStartTime: null,
-      activeBets: new Map(),
-      roundNumber: 1,
-      houseStats: {
-        totalWagered: 0,
-        totalPaidOut: 0,
-        houseProfitThisRound: 0,
-        houseProfitTotal: 0,
-        roundCount: 0,
-        houseEdgePercent: 0
-      }
-    };
-  }
-
+    super(io, {
+      name: 'Coin Toss',
+      betTypes: COIN_TOSS_BET_TYPES,
+      events: {
+        gameStarting: 'coin-toss-game-starting',
+        countdownTick: 'coin-toss-countdown-tick',
+        resultRevealed: 'coin-toss-result-revealed',
+        roundEnded: 'coin-toss-round-ended',
+        betPlaced: 'coin-toss-bet-placed',
+        betsLocked: 'coin-toss-bets-locked',
+        betsCancelled: 'coin-toss-bets-cancelled',
+        lockedBetsCancelled: 'coin-toss-locked-bets-cancelled',
+        betError: 'coin-toss-bet-error'
+      },
+      outcomeKey: 'result',
+      chipsKey: 'remainingChips',
+      runWhenEmpty: false, // Rounds only run while someone is seated
+      lockedBetsAreFinal: true,
+      settingsKey: 'coin_toss',
+      defaultLimits: { betLimits: {}, maxRoundWager: null },
+      store: coinTossBetStore
+    });
 
-  private generateSmartCoinResult(room: CoinTossRoom): 'heads' | 'tails' {
-    let headsBetTotal = 0;
-    let tailsBetTotal = 0;
-    
-    if (room.activeBets) {
-      room.activeBets.forEach((bets) => {
-        bets.forEach(bet => {
-          if (bet.betType === 'heads') {
-            headsBetTotal += bet.betAmount;
-          } else if (bet.betType === 'tails') {
-            tailsBetTotal += bet.betAmount;
-          }
-        });
-      });
-    }
-    
-    console.log(`Coin Toss Bet Analysis - Heads: ${headsBetTotal}, Tails: ${tailsBetTotal}`);
-    
-    const totalBets = headsBetTotal + tailsBetTotal;
-    
-    if (totalBets === 0) {
-      const result = crypto.randomInt(0, 2) === 0 ? 'heads' : 'tails';
-      console.log(`No bets placed - random result: ${result}`);
-      return result;
-    }
-    
-    const headsPayout = headsBetTotal * 2;
-    const tailsPayout = tailsBetTotal * 2;
-    
-    if (headsPayout === tailsPayout) {
-      const result = crypto.randomInt(0, 2) === 0 ? 'heads' : 'tails';
-      console.log(`Equal payouts - random result: ${result}`);
-      return result;
-    }
-    
-    const result = headsPayout < tailsPayout ? 'heads' : 'tails';
-    console.log(`Lower payout side wins: ${result} (Heads payout: ${headsPayout}, Tails payout: ${tailsPayout})`);
-    return result;
+    this.globalRoom = this.createRoom(COIN_TOSS_ROOM_ID);
   }
 
-  async handlePlaceBet(socket: Socket, data: { roomId: string; betType: string; amount: number }) {
-    const player = this.globalRoom.players.find(p => p.socketId === socket.id);
-    if (!player || !player.dbId) {
-      socket.emit('coin-toss-bet-error', { message: 'Player not found' });
-      return;
-    }
-
-    if (this.globalRoom.status !== 'countdown' || this.globalRoom.countdownTime <= 10) {
-      socket.emit('coin-toss-bet-error', { message: 'Betting window closed' });
-      return;
-    }
-
-    if (!['heads', 'tails'].includes(data.betType)) {
-      socket.emit('coin-toss-bet-error', { message: 'Invalid bet type' });
-      return;
-    }
-
-    if (this.lockedBets.has(player.dbId)) {
-      socket.emit('coin-toss-bet-error', { message: 'You have locked bets. Locked bets cannot be changed.' });
-      return;
-    }
-
-    const gameId = this.globalRoom.currentGameId;
-    if (!gameId) {
-      socket.emit('coin-toss-bet-error', { message: 'No active game' });
-      return;
-    }
-
-    try {
-      const dbPlayer = await storage.getPlayer(player.dbId);
-      console.log(`Coin toss bet attempt: Player ${player.name} (ID: ${player.dbId}), Chips: ${dbPlayer?.chips}, Bet Amount: ${data.amount}`);
-      if (!dbPlayer || dbPlayer.chips < data.amount) {
-        console.log(`Bet rejected - Insufficient balance: ${dbPlayer?.chips} < ${data.amount}`);
-        socket.emit('coin-toss-bet-error', { message: 'Insufficient balance' });
-        return;
-      }
-
-      // Immediately place the bet in the database and deduct chips
-      const result = await storage.placeCoinTossBet(
-        player.dbId,
-        data.amount,
-        data.betType as 'heads' | 'tails',
-        gameId
-      );
-
-      player.chips = result.updatedPlayer.chips;
-
-      // Add to unlocked bets array for potential cancellation
-      if (!this.unlockedBets.has(socket.id)) {
-        this.unlockedBets.set(socket.id, []);
-      }
-      this.unlockedBets.get(socket.id)!.push({
-        betType: data.betType as 'heads' | 'tails',
-        amount: data.amount,
-        playerId: player.dbId,
-        betId: result.bet.id
-      });
-
-      // Add to active bets
-      if (!this.globalRoom.activeBets) {
-        this.globalRoom.activeBets = new Map();
-      }
-      if (!this.globalRoom.activeBets.has(socket.id)) {
-        this.globalRoom.activeBets.set(socket.id, []);
-      }
-      this.globalRoom.activeBets.get(socket.id)!.push({
-        betId: result.bet.id,
-        betType: data.betType as 'heads' | 'tails',
-        betAmount: data.amount
-      });
-
-      socket.emit('coin-toss-bet-placed', {
-        bet: { betType: data.betType, amount: data.amount, locked: false, betId: result.bet.id },
-        remainingChips: result.updatedPlayer.chips
-      });
-
-      console.log(`Coin toss bet placed: ${player.name} placed ${data.amount} on ${data.betType} (bet ID: ${result.bet.id})`);
-    } catch (error: any) {
-      console.error('Error placing coin toss bet:', error);
-      socket.emit('coin-toss-bet-error', { message: error.message });
-    }
+  // The result is a pure function of the committed seeds, so players can re-derive it after the reveal
+  protected deriveOutcome(seeds: RoundSeeds): CoinTossResult {
+    return deriveCoinTossResult(seeds.serverSeed, seeds.clientSeed, seeds.nonce);
   }
 
-  async handleLockBet(socket: Socket, data: { roomId: string }) {
-    const player = this.globalRoom.players.find(p => p.socketId === socket.id);
-    if (!player || !player.dbId) {
-      socket.emit('coin-toss-bet-error', { message: 'Player not found' });
-      return;
-    }
-
-    if (this.globalRoom.status !== 'countdown' || this.globalRoom.countdownTime <= 10) {
-      socket.emit('coin-toss-bet-error', { message: 'Betting window closed' });
-      return;
-    }
-
-    if (this.lockedBets.has(player.dbId)) {
-      socket.emit('coin-toss-bet-error', { message: 'You already have locked bets. Locked bets cannot be changed.' });
-      return;
-    }
-
-    try {
-      const betsToLock = this.unlockedBets.get(socket.id);
-      
-      if (!betsToLock || betsToLock.length === 0) {
-        socket.emit('coin-toss-bet-error', { message: 'No bets to lock. Please place a bet first.' });
-        return;
-      }
-
-      // Mark all bets as locked for persistence (bets are already placed in DB)
-      this.lockedBets.set(player.dbId, betsToLock.map(bet => ({
-        betType: bet.betType,
-        amount: bet.amount,
-        betId: bet.betId
-      })));
-
-      // Remove from unlocked bets
-      this.unlockedBets.delete(socket.id);
-
-      socket.emit('coin-toss-bets-locked', {
-        bets: betsToLock.map(bet => ({ betType: bet.betType, betAmount: bet.amount, betId: bet.betId, locked: true })),
-        remainingChips: player.chips || 0
-      });
-
-      console.log(`Coin toss bets locked for persistence: ${player.name} locked ${betsToLock.length} bet(s)`);
-    } catch (error: any) {
-      console.error('Error locking coin toss bets:', error);
-      socket.emit('coin-toss-bet-error', { message: error.message });
-    }
+  protected outcomeForResult(result: string): CoinTossResult {
+    return result as CoinTossResult;
   }
 
-  async handleCancelBet(socket: Socket, data: { roomId: string }) {
-    const player = this.globalRoom.players.find(p => p.socketId === socket.id);
-    if (!player || !player.dbId) {
-      socket.emit('coin-toss-bet-error', { message: 'Player not found' });
-      return;
-    }
-
-    if (this.lockedBets.has(player.dbId)) {
-      socket.emit('coin-toss-bet-error', { message: 'Cannot cancel locked bets' });
-      return;
-    }
-
-    const unlockedBets = this.unlockedBets.get(socket.id);
-    if (!unlockedBets || unlockedBets.length === 0) {
-      socket.emit('coin-toss-bet-error', { message: 'No bets to cancel' });
-      return;
-    }
-
-    try {
-      let totalRefund = 0;
-
-      // Delete all unlocked bets from the database and calculate total refund
-      for (const bet of unlockedBets) {
-        await storage.deleteCoinTossBet(bet.betId);
-        totalRefund += bet.amount;
-        
-        // Remove from active bets
-        const playerBets = this.globalRoom.activeBets?.get(socket.id);
-        if (playerBets) {
-          const betIndex = playerBets.findIndex(b => b.betId === bet.betId);
-          if (betIndex !== -1) {
-            playerBets.splice(betIndex, 1);
-          }
-        }
-      }
-
-      // Remove active bets entry if empty
-      if (this.globalRoom.activeBets?.get(socket.id)?.length === 0) {
-        this.globalRoom.activeBets.delete(socket.id);
-      }
-
-      // Refund the player
-      const dbPlayer = await storage.getPlayer(player.dbId);
-      if (dbPlayer) {
-        await storage.updatePlayerChips(player.dbId, dbPlayer.chips + totalRefund);
-        player.chips = dbPlayer.chips + totalRefund;
-      }
-
-      this.unlockedBets.delete(socket.id);
-
-      socket.emit('coin-toss-bets-cancelled', {
-        message: `${unlockedBets.length} bet(s) cancelled and refunded successfully`,
-        remainingChips: player.chips
-      });
-
-      console.log(`Coin toss bets cancelled and refunded: ${player.name} cancelled ${unlockedBets.length} bet(s), total refund: ${totalRefund}`);
-    } catch (error: any) {
-      console.error('Error cancelling coin toss bets:', error);
-      socket.emit('coin-toss-bet-error', { message: error.message });
-    }
+  protected isWinningBet(betType: string, result: CoinTossResult): boolean {
+    return betType === result;
   }
 
-  async joinRoom(socket: Socket, player: CoinTossPlayer) {
-    const roomId = this.globalRoom.id;
-    
-    socket.join(roomId);
-    this.playerRooms.set(socket.id, roomId);
-    
-    const existingPlayerIndex = this.globalRoom.players.findIndex(p => p.socketId === socket.id);
-    if (existingPlayerIndex !== -1) {
-      this.globalRoom.players[existingPlayerIndex] = player;
-    } else {
-      this.globalRoom.players.push(player);
-    }
-
-    let activeBets: any[] = [];
-    let lockedBets: Array<{ betType: 'heads' | 'tails'; amount: number; betId: number }> = [];
-
-    if (player.dbId && this.lockedBets.has(player.dbId)) {
-      const existingLockedBets = this.lockedBets.get(player.dbId)!;
-      lockedBets = existingLockedBets;
-      console.log(`Restored ${lockedBets.length} locked bet(s) for ${player.name}`);
-    }
-
-    if (this.globalRoom.currentGameId && player.dbId) {
-      try {
-        const playerBets = await storage.getPlayerBetsByGame(player.dbId, this.globalRoom.currentGameId);
-        activeBets = playerBets.map(bet => ({
-          id: bet.id,
-          type: bet.betType,
-          amount: bet.betAmount
-        }));
-
-        if (activeBets.length > 0) {
-          if (!this.globalRoom.activeBets) {
-            this.globalRoom.activeBets = new Map();
-          }
-          this.globalRoom.activeBets.set(socket.id, activeBets.map(bet => ({
-            betId: bet.id,
-            betType: bet.type,
-            betAmount: bet.amount
-          })));
-        }
-      } catch (error) {
-        console.error('Error fetching player bets:', error);
-      }
-    }
-
-    socket.emit('coin-toss-room-joined', {
-      room: this.sanitizeRoomForBroadcast(this.globalRoom),
-      player,
-      activeBets,
-      lockedBets,
-      countdownTime: this.globalRoom.countdownTime
-    });
-
-    this.io.to(roomId).emit('coin-toss-player-joined', { player, room: this.sanitizeRoomForBroadcast(this.globalRoom) });
-
-    if (this.globalRoom.status === 'waiting') {
-      await this.startGame(player, roomId);
-    }
+  protected payoutMultiplier(betType: string): number {
+    return 2;
   }
 
-  async leaveRoom(socket: Socket) {
-    const roomId = this.playerRooms.get(socket.id);
-    if (!roomId) return;
-
-    const player = this.globalRoom.players.find(p => p.socketId === socket.id);
-    
-    // Auto-cancel and refund unlocked bets when player exits
-    if (this.unlockedBets.has(socket.id)) {
-      const unlockedBets = this.unlockedBets.get(socket.id)!;
-      
-      try {
-        let totalRefund = 0;
-        
-        // Delete all unlocked bets from the database
-        for (const bet of unlockedBets) {
-          await storage.deleteCoinTossBet(bet.betId);
-          totalRefund += bet.amount;
-          
-          // Remove from active bets
-          const playerBets = this.globalRoom.activeBets?.get(socket.id);
-          if (playerBets) {
-            const betIndex = playerBets.findIndex(b => b.betId === bet.betId);
-            if (betIndex !== -1) {
-              playerBets.splice(betIndex, 1);
-            }
-          }
-        }
-        
-        // Remove active bets entry if empty
-        if (this.globalRoom.activeBets?.get(socket.id)?.length === 0) {
-          this.globalRoom.activeBets.delete(socket.id);
-        }
-        
-        if (player?.dbId && totalRefund > 0) {
-          const dbPlayer = await storage.getPlayer(player.dbId);
-          if (dbPlayer) {
-            // Refund the player
-            await storage.updatePlayerChips(player.dbId, dbPlayer.chips + totalRefund);
-            
-            console.log(`${unlockedBets.length} unlocked bet(s) auto-cancelled and refunded for disconnected player ${player?.name || socket.id}, total refund: ${totalRefund}`);
-          }
-        }
-      } catch (error) {
-        console.error('Error refunding unlocked bets on disconnect:', error);
-      }
-      
-      this.unlockedBets.delete(socket.id);
-    }
-
-    this.globalRoom.players = this.globalRoom.players.filter(p => p.socketId !== socket.id);
-    
-    this.playerRooms.delete(socket.id);
-    socket.leave(roomId);
-    
-    this.io.to(roomId).emit('coin-toss-player-left', { 
-      socketId: socket.id, 
-      room: this.sanitizeRoomForBroadcast(this.globalRoom) 
-    });
-  }
-
-  private sanitizeRoomForBroadcast(room: CoinTossRoom) {
+  protected serializeRoom(room: RoundRoom<CoinTossResult>): CoinTossRoom {
     return {
-      ...room,
-      currentResult: room.status === 'revealing' ? room.currentResult : null,
-      activeBets: undefined
+      id: room.id,
+      players: room.players,
+      status: room.status,
+      maxPlayers: room.maxPlayers,
+      currentResult: room.status === 'revealing' ? room.outcome : null,
+      countdownTime: room.countdownTime,
+      gameStartTime: room.gameStartTime,
+      currentGameId: room.currentGameId,
+      roundNumber: room.roundNumber,
+      ...this.getPublicLimits(room)
     };
   }
 
-  private async startGame(player: CoinTossPlayer, roomId: string) {
-    const room = this.globalRoom;
-    if (!room || room.status !== 'waiting') {
-      return;
-    }
-
-    room.status = 'countdown';
-    room.countdownTime = 30;
-    room.gameStartTime = Date.now();
-    room.currentResult = null;
-    
-    try {
-      const gameRecord = await storage.createCoinTossGame({
-        roomId: 'COIN_TOSS_GLOBAL',
-        result: 'heads',
-        totalBets: 0,
-        totalPlayers: room.players.length
-      });
-      room.currentGameId = gameRecord.id;
-      console.log(`Created coin toss game record ${gameRecord.id}`);
-    } catch (error) {
-      console.error('Failed to create coin toss game record:', error);
-    }
-
-    const sanitizedRoom = this.sanitizeRoomForBroadcast(room);
-    this.io.to('COIN_TOSS_GLOBAL').emit('coin-toss-game-starting', {
-      room: sanitizedRoom,
-      countdownTime: room.countdownTime
-    });
-
-    const interval = setInterval(async () => {
-      room.countdownTime--;
-      
-      if (room.countdownTime === 10 && !room.currentResult) {
-        // Generate result when betting window closes (bets are already placed)
-        room.currentResult = this.generateSmartCoinResult(room);
-        console.log(`Coin result generated at 10s mark (after betting closed): ${room.currentResult}`);
-      }
-      
-      const sanitizedRoom = this.sanitizeRoomForBroadcast(room);
-      this.io.to('COIN_TOSS_GLOBAL').emit('coin-toss-countdown-tick', {
-        time: room.countdownTime,
-        room: sanitizedRoom
-      });
-
-      if (room.countdownTime <= 0) {
-        clearInterval(interval);
-        this.countdownIntervals.delete('COIN_TOSS_GLOBAL');
-        this.revealResult('COIN_TOSS_GLOBAL');
-      }
-    }, 1000);
-
-    this.countdownIntervals.set('COIN_TOSS_GLOBAL', interval);
+  protected betPlacedPayload(bet: RoundBet, remainingChips: number, duplicate: boolean) {
+    return {
+      bet: { betType: bet.betType, amount: bet.betAmount, locked: false, betId: bet.betId },
+      remainingChips,
+      duplicate
+    };
   }
 
-  private async revealResult(roomId: string) {
+  async joinRoom(socket: Socket, player: CoinTossPlayer) {
     const room = this.globalRoom;
-    if (!room) return;
-
-    if (!room.currentResult) {
-      console.warn('No result generated, generating now...');
-      room.currentResult = this.generateSmartCoinResult(room);
-    }
-
-    const gameId = room.currentGameId;
-    if (gameId && this.adminOverrides.has(gameId)) {
-      const overrideResult = this.adminOverrides.get(gameId)!;
-      room.currentResult = overrideResult;
-      this.adminOverrides.delete(gameId);
-      console.log(`Admin override applied for coin toss game ${gameId}: ${overrideResult}`);
-    }
-
-    room.status = 'revealing';
-
-    console.log(`Revealing coin toss result:`, room.currentResult);
-
-    await this.resolveBets(room);
+    this.seatPlayer(socket, room, player);
 
-    if (room.currentGameId && room.currentResult) {
-      try {
-        await storage.updateCoinTossResult(room.currentGameId, room.currentResult);
-        await storage.markCoinTossGameCompleted(room.currentGameId);
-        console.log(`Coin toss game ${room.currentGameId} updated with final result and marked as completed`);
-      } catch (error) {
-        console.error('Failed to update coin toss game result or mark as completed:', error);
-      }
+    let activeBets: RoundBet[] = [];
+    let lockedBets: RoundBet[] = [];
+    if (player.dbId) {
+      ({ activeBets, lockedBets } = await this.restorePlayerBets(socket, room, player.dbId));
     }
 
-    this.io.to('COIN_TOSS_GLOBAL').emit('coin-toss-result-revealed', {
-      result: room.currentResult,
-      room
+    socket.emit('coin-toss-room-joined', {
+      room: this.serializeRoom(room),
+      player,
+      activeBets: activeBets.map(bet => ({ id: bet.betId, type: bet.betType, amount: bet.betAmount })),
+      lockedBets: lockedBets.map(bet => ({ betType: bet.betType, amount: bet.betAmount, betId: bet.betId })),
+      countdownTime: room.countdownTime,
+      timings: room.timings,
+      fairness: room.seeds ? toPublicSeeds(room.seeds) : null
     });
 
-    setTimeout(() => {
-      this.startNextRound('COIN_TOSS_GLOBAL');
-    }, 6000);
-  }
-
-  private async resolveBets(room: CoinTossRoom) {
-    if (!room.activeBets || !room.currentResult) {
-      return;
-    }
-
-    let totalWagered = 0;
-    let totalPaidOut = 0;
-
-    for (const [socketId, bets] of Array.from(room.activeBets.entries())) {
-      for (const bet of bets) {
-        totalWagered += bet.betAmount;
-        
-        const won = bet.betType === room.currentResult;
-        const winAmount = won ? bet.betAmount * 2 : 0;
-        
-        if (won) {
-          totalPaidOut += winAmount;
-        }
-
-        try {
-          const result = await storage.resolveCoinTossBet(bet.betId, won, winAmount);
-          
-          const player = room.players.find(p => p.socketId === socketId);
-          if (player && result.updatedPlayer) {
-            player.chips = result.updatedPlayer.chips;
-          }
-
-          console.log(`Coin toss bet resolved: betId=${bet.betId}, won=${won}, winAmount=${winAmount}`);
-        } catch (error) {
-          console.error(`Failed to resolve coin toss bet ${bet.betId}:`, error);
-        }
-      }
-    }
+    this.io.to(room.id).emit('coin-toss-player-joined', { player, room: this.serializeRoom(room) });
 
-    const houseProfitThisRound = totalWagered - totalPaidOut;
-    if (room.houseStats) {
-      room.houseStats.totalWagered += totalWagered;
-      room.houseStats.totalPaidOut += totalPaidOut;
-      room.houseStats.houseProfitThisRound = houseProfitThisRound;
-      room.houseStats.houseProfitTotal += houseProfitThisRound;
-      room.houseStats.roundCount += 1;
-      room.houseStats.houseEdgePercent = room.houseStats.totalWagered > 0 
-        ? (room.houseStats.houseProfitTotal / room.houseStats.totalWagered) * 100 
-        : 0;
+    if (room.status === 'waiting') {
+      await this.startRound(room);
     }
-
-    console.log(`Round complete - Wagered: ${totalWagered}, Paid out: ${totalPaidOut}, House profit: ${houseProfitThisRound}`);
   }
 
-  private startNextRound(roomId: string) {
-    const room = this.globalRoom;
+  async leaveRoom(socket: Socket) {
+    const room = await this.unseatPlayer(socket);
     if (!room) return;
-
-    room.status = 'waiting';
-    room.currentResult = null;
-    room.countdownTime = 30;
-    room.currentGameId = undefined;
-    room.activeBets?.clear();
-    
-    // Clear locked bets and unlocked bets to allow players to bet in the next round
-    this.lockedBets.clear();
-    this.unlockedBets.clear();
     
-    room.roundNumber = (room.roundNumber || 1) + 1;
-
-    const sanitizedRoom = this.sanitizeRoomForBroadcast(room);
-    this.io.to('COIN_TOSS_GLOBAL').emit('coin-toss-round-ended', { room: sanitizedRoom });
-
-    if (room.players.length > 0) {
-      this.startGame(room.players[0] as any, 'COIN_TOSS_GLOBAL');
-    } else {
-      console.log('No players in room, waiting for players to join...');
-    }
-  }
-
-  getRoom(roomId: string): CoinTossRoom | undefined {
-    return this.globalRoom.id === roomId ? this.globalRoom : undefined;
-  }
-
-  getGlobalRoom(): CoinTossRoom {
-    return this.globalRoom;
+    this.io.to(room.id).emit('coin-toss-player-left', { 
+      socketId: socket.id, 
+      room: this.serializeRoom(room) 
+    });
   }
 
   getCurrentRoundData(): { 
@@ -621,58 +170,21 @@ export class CoinTossManager {
     betsByType: { heads: number; tails: number };
     status: string;
     timeRemaining: number;
-    currentResult: 'heads' | 'tails' | null;
+    currentResult: CoinTossResult | null;
   } {
     const room = this.globalRoom;
-    
-    let headsBets = 0;
-    let tailsBets = 0;
-    let totalBets = 0;
-
-    if (room.activeBets) {
-      room.activeBets.forEach(bets => {
-        bets.forEach(bet => {
-          totalBets += bet.betAmount;
-          if (bet.betType === 'heads') {
-            headsBets += bet.betAmount;
-          } else if (bet.betType === 'tails') {
-            tailsBets += bet.betAmount;
-          }
-        });
-      });
-    }
+    const { totalBets, betsByType } = this.getBetTotals(room);
 
     return {
       gameId: room.currentGameId,
       totalBets,
       betsByType: {
-        heads: headsBets,
-        tails: tailsBets
+        heads: betsByType.heads,
+        tails: betsByType.tails
       },
       status: room.status,
       timeRemaining: room.countdownTime,
-      currentResult: room.status === 'countdown' && room.countdownTime <= 10 ? room.currentResult : null
+      currentResult: room.status === 'countdown' && room.countdownTime <= room.timings.lockSeconds ? room.outcome : null
     };
   }
-
-  setAdminOverride(gameId: number, overrideResult: 'heads' | 'tails'): boolean {
-    const room = this.globalRoom;
-    
-    if (!room || room.status !== 'countdown' || room.currentGameId !== gameId) {
-      return false;
-    }
-
-    const validResults = ['heads', 'tails'];
-    if (!validResults.includes(overrideResult)) {
-      return false;
-    }
-
-    this.adminOverrides.set(gameId, overrideResult);
-    console.log(`Admin override set for coin toss game ${gameId}: ${overrideResult}`);
-    return true;
-  }
-
-  getHouseStats(): CoinTossHouseStats | undefined {
-    return this.globalRoom.houseStats;
-  }
 }
@@ -7,7 +7,9 @@ import { setupVite, serveStatic, log } from "./vite";
 import { GameManager } from "./gameManager";
 import { AndarBaharManager } from "./andarBaharManager";
 import { CoinTossManager } from "./coinTossManager";
+import { RoomChat } from "./roomChat";
 import { storage } from "./storage";
+import { setupSocketAuth, getSocketUser } from "./middleware/socketAuth";
 
 const app = express();
 app.use(express.json());
@@ -38,16 +40,19 @@ const io = new Server(httpServer, {
 
 // Share session with Socket.io
 io.engine.use(sessionMiddleware);
+setupSocketAuth(io);
 
 // Initialize game managers
 const gameManager = new GameManager(io);
 const andarBaharManager = new AndarBaharManager(io);
 const coinTossManager = new CoinTossManager(io);
+const roomChat = new RoomChat(io);
 
 // Attach game managers to app for route access
 (app as any).gameManager = gameManager;
 (app as any).andarBaharManager = andarBaharManager;
 (app as any).coinTossManager = coinTossManager;
+(app as any).roomChat = roomChat;
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -80,6 +85,17 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Balances from before the ledger get their opening entry before anything can move them
+  const backfilled = await storage.recordMissingOpeningBalances();
+  if (backfilled > 0) {
+    log(`Recorded opening ledger balances for ${backfilled} player(s)`);
+  }
+
+  // Refund rounds left unfinished by the previous process before any new round starts
+  await gameManager.start();
+  await coinTossManager.start();
+  await andarBaharManager.start();
+
   await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -111,38 +127,123 @@ app.use((req, res, next) => {
     });
 
     // Andar Bahar event handlers
-    socket.on('andar-bahar-join', async (data: { betAmount: number; userId: number; username: string }) => {
+    socket.on('andar-bahar-join', async (data: { betAmount: number; tolerance?: number }) => {
       try {
-        if (!data.userId || !data.username) {
-          socket.emit('error', 'Authentication required');
-          return;
-        }
+        const user = getSocketUser(socket)!;
         
         // Get or create player record
-        const player = await storage.createOrUpdatePlayerByUserId(data.userId, socket.id, data.username);
+        const player = await storage.createOrUpdatePlayerByUserId(user.id, socket.id, user.username);
         if (!player) {
           socket.emit('error', 'Player not found');
           return;
         }
 
-        await andarBaharManager.joinMatchmaking(socket, player, data.betAmount);
+        await andarBaharManager.joinMatchmaking(socket, player, data.betAmount, data.tolerance);
       } catch (error) {
         console.error('Error joining Andar Bahar:', error);
         socket.emit('error', 'Failed to join matchmaking');
       }
     });
 
+    socket.on('andar-bahar-create-challenge', async (data: { betAmount: number }) => {
+      try {
+        const user = getSocketUser(socket)!;
+        const player = await storage.createOrUpdatePlayerByUserId(user.id, socket.id, user.username);
+        if (!player) {
+          socket.emit('error', 'Player not found');
+          return;
+        }
+
+        await andarBaharManager.createChallenge(socket, player, data.betAmount);
+      } catch (error) {
+        console.error('Error creating Andar Bahar challenge:', error);
+        socket.emit('error', 'Failed to create challenge');
+      }
+    });
+
+    socket.on('andar-bahar-join-challenge', async (data: { code: string }) => {
+      try {
+        const user = getSocketUser(socket)!;
+        const player = await storage.createOrUpdatePlayerByUserId(user.id, socket.id, user.username);
+        if (!player) {
+          socket.emit('error', 'Player not found');
+          return;
+        }
+
+        await andarBaharManager.joinChallenge(socket, player, data.code);
+      } catch (error) {
+        console.error('Error joining Andar Bahar challenge:', error);
+        socket.emit('error', 'Failed to join challenge');
+      }
+    });
+
+    socket.on('andar-bahar-cancel-challenge', async () => {
+      try {
+        const user = getSocketUser(socket)!;
+        const player = await storage.getPlayerByUserId(user.id);
+        if (player) {
+          andarBaharManager.cancelChallenge(player.id);
+        }
+      } catch (error) {
+        console.error('Error cancelling Andar Bahar challenge:', error);
+      }
+    });
+
     socket.on('andar-bahar-choice', async (data: { matchId: string; choice: 'andar' | 'bahar' }) => {
-      await andarBaharManager.makeChoice(socket, data.matchId, data.choice);
+      try {
+        await andarBaharManager.makeChoice(socket, data?.matchId, data?.choice);
+      } catch (error) {
+        console.error('Error making Andar Bahar choice:', error);
+        socket.emit('error', 'Failed to make choice');
+      }
+    });
+
+    socket.on('andar-bahar-rematch', async (data: { matchId: string; accept: boolean }) => {
+      try {
+        const user = getSocketUser(socket)!;
+        const player = await storage.getPlayerByUserId(user.id);
+        if (!player) {
+          socket.emit('error', 'Player not found');
+          return;
+        }
+
+        if (data.accept) {
+          await andarBaharManager.acceptRematch(socket, player.id, data.matchId);
+        } else {
+          andarBaharManager.declineRematch(player.id, data.matchId);
+        }
+      } catch (error) {
+        console.error('Error answering Andar Bahar rematch:', error);
+        socket.emit('error', 'Failed to answer rematch');
+      }
     });
 
-    socket.on('andar-bahar-leave', async (data: { userId: number }) => {
+    socket.on('andar-bahar-resume', async () => {
       try {
-        if (data.userId) {
-          const player = await storage.getPlayerByUserId(data.userId);
-          if (player) {
-            andarBaharManager.leaveMatchmaking(player.id);
-          }
+        const user = getSocketUser(socket)!;
+        const player = await storage.getPlayerByUserId(user.id);
+        if (player) {
+          andarBaharManager.resumeMatch(socket, player.id);
+        }
+      } catch (error) {
+        console.error('Error resuming Andar Bahar match:', error);
+      }
+    });
+
+    socket.on('andar-bahar-spectate', (data: { matchId: string }) => {
+      andarBaharManager.spectate(socket, data?.matchId);
+    });
+
+    socket.on('andar-bahar-stop-spectating', () => {
+      andarBaharManager.stopSpectating(socket);
+    });
+
+    socket.on('andar-bahar-leave', async () => {
+      try {
+        const user = getSocketUser(socket)!;
+        const player = await storage.getPlayerByUserId(user.id);
+        if (player) {
+          andarBaharManager.leaveMatchmaking(player.id);
         }
       } catch (error) {
         console.error('Error leaving Andar Bahar:', error);
@@ -150,14 +251,11 @@ app.use((req, res, next) => {
     });
 
     // Coin Toss event handlers
-    socket.on('coin-toss-join', async (data: { roomId: string; userId: number; username: string }) => {
+    socket.on('coin-toss-join', async (data: { roomId: string }) => {
       try {
-        if (!data.userId || !data.username) {
-          socket.emit('error', 'Authentication required');
-          return;
-        }
+        const user = getSocketUser(socket)!;
         
-        const player = await storage.createOrUpdatePlayerByUserId(data.userId, socket.id, data.username);
+        const player = await storage.createOrUpdatePlayerByUserId(user.id, socket.id, user.username);
         if (!player) {
           socket.emit('error', 'Player not found');
           return;
@@ -165,7 +263,7 @@ app.use((req, res, next) => {
 
         const coinTossPlayer = {
           id: socket.id,
-          name: data.username,
+          name: user.username,
           socketId: socket.id,
           chips: player.chips,
           dbId: player.id
@@ -187,7 +285,7 @@ app.use((req, res, next) => {
     });
 
     // Coin Toss betting handlers
-    socket.on('coin-toss-place-bet', async (data: { roomId: string; betType: string; amount: number }) => {
+    socket.on('coin-toss-place-bet', async (data: { roomId: string; betType: string; amount: number; clientBetId?: string }) => {
       try {
         await coinTossManager.handlePlaceBet(socket, data);
       } catch (error) {
@@ -197,7 +295,7 @@ app.use((req, res, next) => {
 
     socket.on('coin-toss-lock-bet', async (data: { roomId: string; betType?: string; amount?: number }) => {
       try {
-        await coinTossManager.handleLockBet(socket, data);
+        await coinTossManager.handleLockBet(socket);
       } catch (error) {
         console.error('Error locking coin toss bet:', error);
       }
@@ -205,15 +303,35 @@ app.use((req, res, next) => {
 
     socket.on('coin-toss-cancel-bet', async (data: { roomId: string }) => {
       try {
-        await coinTossManager.handleCancelBet(socket, data);
+        await coinTossManager.handleCancelBet(socket);
       } catch (error) {
         console.error('Error cancelling coin toss bet:', error);
       }
     });
 
+    // Room chat for Lucky 7 and Coin Toss
+    socket.on('chat-join', async (data: { roomId: string }) => {
+      try {
+        await roomChat.joinChat(socket, data?.roomId);
+      } catch (error) {
+        console.error('Error joining chat:', error);
+        socket.emit('chat-error', { message: 'Failed to join chat' });
+      }
+    });
+
+    socket.on('chat-send', async (data: { roomId: string; message: string }) => {
+      try {
+        await roomChat.sendMessage(socket, data);
+      } catch (error) {
+        console.error('Error sending chat message:', error);
+        socket.emit('chat-error', { message: 'Failed to send message' });
+      }
+    });
+
     socket.on('disconnect', () => {
       log(`Player disconnected: ${socket.id}`);
       gameManager.handleDisconnect(socket);
+      andarBaharManager.handleDisconnect(socket);
     });
   });
 
@@ -234,3 +352,36 @@ app.use((req, res, next) => {
     log(`Server running on port ${port}`);
   });
 })();
+
+// Finish or void the running rounds and matches before exiting so no stake is left in limbo
+let shuttingDown = false;
+async function shutdown(signal: NodeJS.Signals) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  log(`${signal} received, draining rounds before shutdown`);
+
+  io.emit('server-maintenance', {
+    message: 'The server is restarting for maintenance. Bets in rounds and matches that cannot finish will be refunded.'
+  });
+
+  // Give up if settlement hangs, e.g. on a database that never answers
+  setTimeout(() => {
+    console.error('Shutdown timed out, exiting without waiting for settlement');
+    process.exit(1);
+  }, 30 * 1000).unref();
+
+  try {
+    await Promise.all([gameManager.shutdown(), coinTossManager.shutdown(), andarBaharManager.shutdown()]);
+  } catch (error) {
+    console.error('Error settling rounds during shutdown:', error);
+  }
+
+  // Closing socket.io also closes the HTTP server it is attached to
+  io.close(() => {
+    log('Server closed');
+    process.exit(0);
+  });
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { SessionUser } from '../types/session';
+import { storage } from '../storage';
+import { isAdminRole, hasPermission, type Permission } from '../../shared/permissions';
 
 export interface AuthRequest extends Request {
   user?: SessionUser;
@@ -21,7 +23,7 @@ export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction
     return res.status(401).json({ message: 'Authentication required' });
   }
 
-  if (req.session.user.role !== 'admin') {
+  if (!isAdminRole(req.session.user.role)) {
     return res.status(403).json({ message: 'Admin access required' });
   }
   
@@ -29,6 +31,37 @@ export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction
   next();
 };
 
+// Middleware to check that the admin's role grants a permission. The role is re-read so a
+// demotion applies to sessions that are already signed in.
+export const requirePermission = (permission: Permission) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.session?.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    try {
+      const user = await storage.getUser(req.session.user.id);
+      if (!user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      if (user.role !== req.session.user.role) {
+        req.session.user = { ...req.session.user, role: user.role };
+      }
+
+      if (!hasPermission(user.role, permission)) {
+        return res.status(403).json({
+          message: isAdminRole(user.role) ? 'Your admin role does not allow this action' : 'Admin access required'
+        });
+      }
+
+      req.user = req.session.user;
+      next();
+    } catch (error) {
+      console.error('Error checking admin permission:', error);
+      res.status(500).json({ message: 'Failed to check permissions' });
+    }
+  };
+
 // Middleware to attach user to request if authenticated (optional auth)
 export const optionalAuth = (req: AuthRequest, res: Response, next: NextFunction) => {
   if (req.session?.user) {
@@ -0,0 +1,109 @@
+import type { Server, Socket } from "socket.io";
+import type { IncomingMessage } from "http";
+import type { Session, SessionData } from "express-session";
+import type { SessionUser } from "../types/session";
+import { storage, activeSelfExclusion, describeSelfExclusion } from "../storage";
+
+// io.engine.use(sessionMiddleware) attaches the express session to the handshake request
+type SessionRequest = IncomingMessage & { session?: Session & Partial<SessionData> };
+
+// Events that act on behalf of a player; each maps to the error event its client listens on
+const AUTHENTICATED_EVENTS: Record<string, { errorEvent: string; asObject: boolean }> = {
+  'update-player-auth': { errorEvent: 'bet-error', asObject: false },
+  'place-bet': { errorEvent: 'bet-error', asObject: false },
+  'lock-bet': { errorEvent: 'bet-error', asObject: true },
+  'cancel-bet': { errorEvent: 'bet-error', asObject: true },
+  'coin-toss-join': { errorEvent: 'coin-toss-bet-error', asObject: true },
+  'coin-toss-place-bet': { errorEvent: 'coin-toss-bet-error', asObject: true },
+  'coin-toss-lock-bet': { errorEvent: 'coin-toss-bet-error', asObject: true },
+  'coin-toss-cancel-bet': { errorEvent: 'coin-toss-bet-error', asObject: true },
+  'andar-bahar-join': { errorEvent: 'error', asObject: false },
+  'andar-bahar-choice': { errorEvent: 'error', asObject: false },
+  'andar-bahar-leave': { errorEvent: 'error', asObject: false },
+  'andar-bahar-rematch': { errorEvent: 'error', asObject: false },
+  'andar-bahar-resume': { errorEvent: 'error', asObject: false },
+  'andar-bahar-create-challenge': { errorEvent: 'error', asObject: false },
+  'andar-bahar-join-challenge': { errorEvent: 'error', asObject: false },
+  'andar-bahar-cancel-challenge': { errorEvent: 'error', asObject: false },
+  'chat-send': { errorEvent: 'chat-error', asObject: true },
+};
+
+// Events that seat a player at a game or commit a stake; self-excluded players are turned away.
+// 'join-lobby' and 'join-room' also let anonymous visitors watch Lucky 7, so they only check a signed-in user.
+const GAME_ENTRY_EVENTS = new Set([
+  'join-lobby', 'join-room', 'update-player-auth', 'place-bet',
+  'coin-toss-join', 'coin-toss-place-bet',
+  'andar-bahar-join', 'andar-bahar-rematch', 'andar-bahar-create-challenge', 'andar-bahar-join-challenge',
+]);
+
+// Reload the session from the store so logins and logouts after the handshake are honoured
+function loadSessionUser(socket: Socket): Promise<SessionUser | undefined> {
+  return new Promise((resolve) => {
+    const request = socket.request as SessionRequest;
+    const session = request.session;
+    if (!session) {
+      resolve(undefined);
+      return;
+    }
+
+    session.reload((err) => {
+      // A session missing from the store (logged out, expired, never saved) is anonymous
+      resolve(err ? undefined : request.session?.user);
+    });
+  });
+}
+
+/**
+ * Player identity comes from the HTTP session, never from event payloads.
+ * Authenticated events get the user on socket.data.user; anonymous ones are rejected.
+ */
+export function setupSocketAuth(io: Server) {
+  io.on('connection', (socket) => {
+    socket.use(async ([event], next) => {
+      const rule = AUTHENTICATED_EVENTS[event];
+      const isGameEntry = GAME_ENTRY_EVENTS.has(event);
+      if (!rule && !isGameEntry) {
+        next();
+        return;
+      }
+
+      const user = await loadSessionUser(socket);
+      socket.data.user = user;
+      const reject = (message: string) => {
+        const errorEvent = rule?.errorEvent ?? 'error';
+        socket.emit(errorEvent, rule?.asObject ? { message } : message);
+      };
+
+      if (!user) {
+        if (rule) {
+          reject('Authentication required');
+          return;
+        }
+        next();
+        return;
+      }
+
+      if (isGameEntry) {
+        try {
+          const account = await storage.getUser(user.id);
+          const exclusion = account && activeSelfExclusion(account);
+          if (exclusion) {
+            reject(describeSelfExclusion(exclusion));
+            return;
+          }
+        } catch (error) {
+          console.error(`Failed to check self-exclusion for user ${user.id}:`, error);
+          reject('Could not verify your account. Please try again.');
+          return;
+        }
+      }
+
+      next();
+    });
+  });
+}
+
+// The session user for an event that passed setupSocketAuth
+export function getSocketUser(socket: Socket): SessionUser | undefined {
+  return socket.data.user;
+}
@@ -0,0 +1,104 @@
+import crypto from "crypto";
+
+/**
+ * Commit–reveal helpers for provably fair rounds.
+ *
+ * Before betting opens the server publishes sha256(serverSeed). Once the
+ * round is over it discloses the seed itself, and anyone can recompute the
+ * outcome from (serverSeed, clientSeed, nonce) with the functions below.
+ */
+
+export interface RoundSeeds {
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+}
+
+export type PublicRoundSeeds = Omit<RoundSeeds, 'serverSeed'>;
+
+export interface FairCard {
+  number: number; // 1-13 (Ace = 1)
+  suit: 'spades' | 'hearts' | 'diamonds' | 'clubs';
+  color: 'red' | 'black';
+}
+
+const CARD_SUITS = ['spades', 'hearts', 'diamonds', 'clubs'] as const;
+
+function sha256Hex(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+export function hashServerSeed(serverSeed: string): string {
+  return sha256Hex(serverSeed);
+}
+
+// Andar Bahar commits to the whole shuffled deck, serialized as e.g. "10H,AS,KD,..."
+export function hashDeckOrder(deckOrder: string): string {
+  return sha256Hex(deckOrder);
+}
+
+export function createRoundSeeds(nonce: number): RoundSeeds {
+  const serverSeed = crypto.randomBytes(32).toString('hex');
+  return {
+    serverSeed,
+    serverSeedHash: hashServerSeed(serverSeed),
+    clientSeed: crypto.randomBytes(16).toString('hex'),
+    nonce
+  };
+}
+
+export function toPublicSeeds(seeds: RoundSeeds): PublicRoundSeeds {
+  const { serverSeed, ...publicSeeds } = seeds;
+  return publicSeeds;
+}
+
+/**
+ * Deterministic integer stream keyed by the round seeds. Each block is
+ * HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}:${cursor}`); values are
+ * drawn 4 bytes at a time with rejection sampling so there is no modulo bias.
+ */
+export function createSeededRandom(serverSeed: string, clientSeed: string, nonce: number) {
+  let cursor = 0;
+  let block = Buffer.alloc(0);
+  let offset = 0;
+
+  const nextUint32 = (): number => {
+    if (offset + 4 > block.length) {
+      block = crypto.createHmac('sha256', serverSeed).update(`${clientSeed}:${nonce}:${cursor}`).digest();
+      cursor++;
+      offset = 0;
+    }
+    const value = block.readUInt32BE(offset);
+    offset += 4;
+    return value;
+  };
+
+  return {
+    // Uniform integer in [0, max)
+    nextInt(max: number): number {
+      const limit = Math.floor(0x100000000 / max) * max;
+      let value = nextUint32();
+      while (value >= limit) {
+        value = nextUint32();
+      }
+      return value % max;
+    }
+  };
+}
+
+// Lucky 7: one card drawn uniformly from a 52-card deck
+export function deriveLucky7Card(serverSeed: string, clientSeed: string, nonce: number): FairCard {
+  const index = createSeededRandom(serverSeed, clientSeed, nonce).nextInt(52);
+  const suit = CARD_SUITS[Math.floor(index / 13)];
+  return {
+    number: (index % 13) + 1,
+    suit,
+    color: (suit === 'hearts' || suit === 'diamonds') ? 'red' : 'black'
+  };
+}
+
+// Coin Toss: a single fair bit
+export function deriveCoinTossResult(serverSeed: string, clientSeed: string, nonce: number): 'heads' | 'tails' {
+  return createSeededRandom(serverSeed, clientSeed, nonce).nextInt(2) === 0 ? 'heads' : 'tails';
+}
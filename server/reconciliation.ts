@@ -0,0 +1,91 @@
+import { storage, type UnsettledBet } from "./storage";
+
+export interface BalanceMismatch {
+  playerId: number;
+  userId: number;
+  name: string;
+  chips: number;
+  expectedChips: number;
+  difference: number; // chips - expectedChips
+  ledgerEntryCount: number;
+  reason: 'balance_mismatch' | 'no_ledger_history';
+}
+
+export interface ReconciliationReport {
+  generatedAt: string;
+  playersChecked: number;
+  mismatches: BalanceMismatch[];
+  unsettledBets: UnsettledBet[];
+  totals: {
+    playerChips: number;
+    expectedChips: number;
+    unsettledStake: number;
+  };
+  ok: boolean;
+}
+
+export interface ReconciliationOptions {
+  // Rounds younger than this are probably still running, so their bets are not flagged
+  staleAfterMinutes?: number;
+}
+
+// Shared by the CLI and the admin route so both accept the same thresholds.
+// 0 flags every unfinished round; returns null for anything but a whole number of minutes.
+export function parseStaleAfterMinutes(value: string): number | null {
+  return /^[0-9]+$/.test(value) ? Number(value) : null;
+}
+
+/**
+ * Recompute every player's expected balance from the ledger and compare it
+ * with players.chips, then list bets whose round never completed.
+ */
+export async function runReconciliation(options: ReconciliationOptions = {}): Promise<ReconciliationReport> {
+  const staleAfterMinutes = options.staleAfterMinutes ?? 5;
+
+  const [allPlayers, ledgerTotals] = await Promise.all([
+    storage.getAllPlayers(),
+    storage.getLedgerTotalsByPlayer()
+  ]);
+  const totalsByPlayer = new Map(ledgerTotals.map(total => [total.playerId, total]));
+
+  const mismatches: BalanceMismatch[] = [];
+  let playerChips = 0;
+  let expectedChips = 0;
+
+  for (const player of allPlayers) {
+    const ledger = totalsByPlayer.get(player.id);
+    const expected = ledger?.balance ?? 0;
+    playerChips += player.chips;
+    expectedChips += expected;
+
+    if (player.chips !== expected) {
+      mismatches.push({
+        playerId: player.id,
+        userId: player.userId,
+        name: player.name,
+        chips: player.chips,
+        expectedChips: expected,
+        difference: player.chips - expected,
+        ledgerEntryCount: ledger?.entryCount ?? 0,
+        reason: ledger ? 'balance_mismatch' : 'no_ledger_history'
+      });
+    }
+  }
+
+  const startedBefore = new Date(Date.now() - staleAfterMinutes * 60 * 1000);
+  const unsettledBets = await storage.getBetsOnUnfinishedGames(startedBefore);
+  const unsettledStake = unsettledBets.reduce((sum, bet) => sum + bet.betAmount, 0);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    playersChecked: allPlayers.length,
+    mismatches,
+    unsettledBets,
+    totals: {
+      playerChips,
+      expectedChips,
+      unsettledStake
+    },
+    ok: mismatches.length === 0 && unsettledBets.length === 0
+  };
+}
@@ -0,0 +1,159 @@
+import type { Server, Socket } from "socket.io";
+import { storage, type ChatHistoryMessage } from "./storage";
+import type { ChatMessage } from "../shared/schema";
+import { getSocketUser } from "./middleware/socketAuth";
+import { LUCKY7_TABLES } from "./gameManager";
+import { COIN_TOSS_ROOM_ID } from "./coinTossManager";
+
+const MAX_MESSAGE_LENGTH = 300;
+const HISTORY_LIMIT = 50;
+
+// Only the game rooms have chat; sockets also sit in their own and Andar Bahar spectate rooms
+const CHAT_ROOM_IDS = new Set([...LUCKY7_TABLES.map(table => table.id), COIN_TOSS_ROOM_ID]);
+
+// Each user may send at most RATE_LIMIT_MESSAGES within any RATE_LIMIT_WINDOW_MS
+const RATE_LIMIT_MESSAGES = 5;
+const RATE_LIMIT_WINDOW_MS = 10 * 1000;
+
+// Matched as whole words, case-insensitively; common letter-for-symbol swaps are undone first
+const BLOCKED_WORDS = [
+  'fuck', 'fucking', 'fucker', 'shit', 'bullshit', 'bitch', 'bastard', 'asshole', 'dick',
+  'cunt', 'prick', 'slut', 'whore', 'motherfucker', 'wanker', 'twat',
+  'chutiya', 'madarchod', 'bhenchod', 'behenchod', 'gandu', 'randi', 'harami'
+];
+
+const LEET_SUBSTITUTIONS: Record<string, string> = { '@': 'a', '4': 'a', '3': 'e', '1': 'i', '!': 'i', '0': 'o', '$': 's', '5': 's' };
+
+/**
+ * Mask blocked words with asterisks, keeping the first letter so the
+ * message still reads naturally.
+ */
+export function filterProfanity(message: string): string {
+  return message.replace(/[A-Za-z0-9@$!]+/g, (word) => {
+    const normalized = word.toLowerCase().replace(/[@4310!$5]/g, char => LEET_SUBSTITUTIONS[char] ?? char);
+    if (!BLOCKED_WORDS.includes(normalized)) return word;
+    return word[0] + '*'.repeat(word.length - 1);
+  });
+}
+
+function serializeMessage(message: ChatHistoryMessage) {
+  return {
+    id: message.id,
+    roomId: message.roomId,
+    userId: message.userId,
+    username: message.username,
+    message: message.message,
+    createdAt: message.createdAt.toISOString()
+  };
+}
+
+/**
+ * Chat for the Lucky 7 and Coin Toss rooms. Messages go to the same
+ * socket.io room as the game events, so only players seated there see them.
+ */
+export class RoomChat {
+  private io: Server;
+  private recentSends: Map<number, number[]> = new Map(); // userId -> send times inside the rate limit window
+
+  constructor(io: Server) {
+    this.io = io;
+  }
+
+  // History comes oldest first so the client can append live messages below it
+  async joinChat(socket: Socket, roomId: unknown): Promise<void> {
+    if (typeof roomId !== 'string' || !CHAT_ROOM_IDS.has(roomId) || !socket.rooms.has(roomId)) {
+      socket.emit('chat-error', { message: 'Join the room before opening its chat' });
+      return;
+    }
+
+    try {
+      const history = await storage.getChatHistory(roomId, HISTORY_LIMIT);
+      socket.emit('chat-history', {
+        roomId,
+        messages: history.reverse().map(serializeMessage)
+      });
+    } catch (error) {
+      console.error(`Error loading chat history for ${roomId}:`, error);
+      socket.emit('chat-error', { message: 'Failed to load chat history' });
+    }
+  }
+
+  async sendMessage(socket: Socket, data: { roomId: string; message: string } | undefined): Promise<void> {
+    const user = getSocketUser(socket)!;
+    const roomId = data?.roomId;
+    const text = typeof data?.message === 'string' ? data.message.trim() : '';
+
+    if (typeof roomId !== 'string' || !CHAT_ROOM_IDS.has(roomId) || !socket.rooms.has(roomId)) {
+      socket.emit('chat-error', { message: 'You are not in this room' });
+      return;
+    }
+
+    if (!text) return;
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      socket.emit('chat-error', { message: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` });
+      return;
+    }
+
+    if (!this.takeRateLimitSlot(user.id)) {
+      socket.emit('chat-error', { message: 'You are sending messages too quickly. Please slow down.' });
+      return;
+    }
+
+    try {
+      // Read fresh so a mute applies to the very next message
+      const account = await storage.getUser(user.id);
+      if (account?.chatMutedUntil && account.chatMutedUntil > new Date()) {
+        socket.emit('chat-error', { message: `You are muted until ${account.chatMutedUntil.toLocaleString()}` });
+        return;
+      }
+
+      const player = await storage.getPlayerByUserId(user.id);
+      if (!player) {
+        socket.emit('chat-error', { message: 'Player not found' });
+        return;
+      }
+
+      const saved = await storage.createChatMessage({
+        roomId,
+        playerId: player.id,
+        message: filterProfanity(text)
+      });
+
+      this.io.to(roomId).emit('chat-message', serializeMessage({
+        id: saved.id,
+        roomId: saved.roomId,
+        userId: user.id,
+        username: player.name,
+        message: saved.message,
+        createdAt: saved.createdAt
+      }));
+    } catch (error) {
+      console.error('Error sending chat message:', error);
+      socket.emit('chat-error', { message: 'Failed to send message' });
+    }
+  }
+
+  // Returns undefined when the message was already deleted or never existed
+  async deleteMessage(messageId: number, deletedBy: number): Promise<ChatMessage | undefined> {
+    const deleted = await storage.deleteChatMessage(messageId, deletedBy);
+    if (!deleted) return undefined;
+
+    this.io.to(deleted.roomId).emit('chat-message-deleted', { messageId });
+    return deleted;
+  }
+
+  // Sliding window: drop send times older than the window, then check what is left
+  private takeRateLimitSlot(userId: number): boolean {
+    const now = Date.now();
+    const recent = (this.recentSends.get(userId) || []).filter(sentAt => now - sentAt < RATE_LIMIT_WINDOW_MS);
+
+    if (recent.length >= RATE_LIMIT_MESSAGES) {
+      this.recentSends.set(userId, recent);
+      return false;
+    }
+
+    recent.push(now);
+    this.recentSends.set(userId, recent);
+    return true;
+  }
+}
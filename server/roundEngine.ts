@@ -0,0 +1,965 @@
+import { Server, Socket } from "socket.io";
+import { storage, type VoidedRound } from "./storage";
+import type { Player as DBPlayer, GameSettingsType, BetTypeLimits } from "@shared/schema";
+import { createRoundSeeds, toPublicSeeds, type RoundSeeds } from "./provablyFair";
+
+/**
+ * Shared lifecycle for countdown-based house games (Lucky 7, Coin Toss).
+ *
+ * A round opens for betting for `bettingSeconds`, closes `lockSeconds` before the end of the
+ * countdown (when the outcome is drawn from the committed seeds), reveals,
+ * settles every bet and then starts the next round. Games subclass
+ * RoundEngine and only supply their bet types, outcome and payout rules,
+ * persistence and the shape of what is sent to clients.
+ *
+ * Rounds only live in memory, so start() first voids any round a previous
+ * process left in progress, refunding whatever it had not settled, and
+ * shutdown() settles or voids the rounds in progress before the process exits.
+ */
+
+export interface HouseStats {
+  totalWagered: number;  // Total amount wagered by all players
+  totalPaidOut: number;  // Total amount paid out as winnings
+  houseProfitThisRound: number;  // Profit for current round
+  houseProfitTotal: number;  // Cumulative house profit
+  roundCount: number;  // Number of rounds completed
+  houseEdgePercent: number;  // Current house edge percentage
+}
+
+export interface RoundPlayer {
+  id: string;
+  name: string;
+  socketId: string;
+  chips?: number;
+  dbId?: number; // Reference to database player ID
+}
+
+export type RoundStatus = 'waiting' | 'countdown' | 'revealing' | 'finished';
+
+export interface RoundBet {
+  betId: number;
+  betType: string;
+  betAmount: number;
+}
+
+export interface RoundTimings {
+  bettingSeconds: number;       // Time bets are accepted at the start of the countdown
+  lockSeconds: number;          // Betting closes when this many seconds remain
+  resultDisplaySeconds: number; // Pause between the reveal and the next round
+}
+
+export interface BetLimits {
+  minBet: number;
+  maxBet: number;
+}
+
+export interface GameLimits {
+  betLimits: BetTypeLimits; // Stake range per bet type, applied on top of any room limits
+  maxRoundWager: number | null; // Most a player may stake in one round
+}
+
+export const DEFAULT_ROUND_TIMINGS: RoundTimings = {
+  bettingSeconds: 20,
+  lockSeconds: 10,
+  resultDisplaySeconds: 6
+};
+
+// Whole countdown, including the lock period
+export function countdownSeconds(timings: RoundTimings): number {
+  return timings.bettingSeconds + timings.lockSeconds;
+}
+
+export interface RoundRoom<TOutcome> {
+  id: string;
+  players: RoundPlayer[];
+  status: RoundStatus;
+  maxPlayers: number;
+  outcome: TOutcome | null;
+  countdownTime: number;
+  gameStartTime: number | null;
+  currentGameId?: number; // Database game ID for bet tracking
+  roundNumber: number;
+  timings: RoundTimings; // Fixed when the round starts
+  limits: BetLimits | null; // Per-bet stake limits for this room, if any
+  seeds: RoundSeeds | null; // Server seed stays private until the reveal
+  adminOverride: string | null;
+  activeBets: Map<string, RoundBet[]>; // socketId -> bets staked this round
+  unlockedBets: Map<string, RoundBet[]>; // socketId -> bets that can still be cancelled
+  lockedBets: Map<number, RoundBet[]>; // dbId -> locked bets, kept across reconnects
+  countdownInterval: NodeJS.Timeout | null;
+}
+
+// Any bet row with these columns can be tracked by the engine
+export interface StoredBet {
+  id: number;
+  betType: string;
+  betAmount: number;
+  locked: boolean;
+  refundedAt: Date | null;
+}
+
+export interface RoundBetStore<TOutcome> {
+  createGame(roomId: string, totalPlayers: number, seeds: RoundSeeds): Promise<number>;
+  completeGame(gameId: number, outcome: TOutcome, overridden: boolean): Promise<void>;
+  placeBet(playerId: number, betAmount: number, betType: string, gameId: number, clientBetId?: string, maxRoundWager?: number): Promise<{ bet: StoredBet; updatedPlayer: DBPlayer; duplicate: boolean }>;
+  getBetByClientBetId(playerId: number, clientBetId: string): Promise<StoredBet | undefined>;
+  getPlayerBets(playerId: number, gameId: number): Promise<StoredBet[]>;
+  refundBet(betId: number): Promise<DBPlayer | undefined>;
+  lockBets(betIds: number[]): Promise<void>;
+  resolveBet(betId: number, won: boolean, winAmount: number): Promise<{ bet?: StoredBet; updatedPlayer?: DBPlayer }>; // No bet: already settled or refunded
+  getUnfinishedGameIds(): Promise<number[]>;
+  voidGame(gameId: number, reason: string): Promise<VoidedRound>;
+}
+
+export interface RoundEvents {
+  gameStarting: string;
+  countdownTick: string;
+  resultRevealed: string;
+  roundEnded: string;
+  roomUpdated?: string; // Broadcast after a bet changes a player's chips
+  betPlaced: string;
+  betsLocked: string;
+  betsCancelled: string;
+  lockedBetsCancelled: string;
+  betError: string;
+}
+
+export interface RoundGameConfig<TOutcome> {
+  name: string; // Used in log lines
+  betTypes: readonly string[];
+  events: RoundEvents;
+  outcomeKey: string; // Key of the outcome in the reveal payload
+  chipsKey: 'chips' | 'remainingChips'; // Key of the player's balance in bet payloads
+  runWhenEmpty: boolean; // Keep dealing rounds with nobody seated
+  lockedBetsAreFinal: boolean; // After locking, a player cannot bet, lock or cancel again that round
+  settingsKey: GameSettingsType; // Row in game_settings holding this game's timings and limits
+  defaultLimits: GameLimits; // Used until an admin saves limits for the game
+  store: RoundBetStore<TOutcome>;
+}
+
+export type BetAction = 'place' | 'lock' | 'cancel';
+
+export interface PlaceBetRequest {
+  roomId?: string;
+  betType: string;
+  amount: number;
+  clientBetId?: string;
+}
+
+export abstract class RoundEngine<TOutcome> {
+  protected io: Server;
+  protected config: RoundGameConfig<TOutcome>;
+  protected rooms: Map<string, RoundRoom<TOutcome>>;
+  protected playerRooms: Map<string, string>; // socketId -> roomId
+  protected timings: RoundTimings = DEFAULT_ROUND_TIMINGS;
+  protected limits: GameLimits;
+  private shuttingDown = false;
+  private pendingSettlements = new Set<Promise<void>>(); // Reveals still resolving bets
+  protected houseStats: HouseStats = {
+    totalWagered: 0,
+    totalPaidOut: 0,
+    houseProfitThisRound: 0,
+    houseProfitTotal: 0,
+    roundCount: 0,
+    houseEdgePercent: 0
+  };
+
+  constructor(io: Server, config: RoundGameConfig<TOutcome>) {
+    this.io = io;
+    this.config = config;
+    this.rooms = new Map();
+    this.playerRooms = new Map();
+    this.limits = config.defaultLimits;
+  }
+
+  // Call once before accepting connections
+  async start() {
+    await this.loadSettings();
+    await this.recoverUnfinishedRounds();
+
+    if (this.config.runWhenEmpty) {
+      this.rooms.forEach(room => this.startRound(room));
+    }
+  }
+
+  // Outcome drawn from the committed seeds when betting closes
+  protected abstract deriveOutcome(seeds: RoundSeeds): TOutcome;
+
+  // Outcome forced by an admin override (one of the bet types)
+  protected abstract outcomeForResult(result: string): TOutcome;
+
+  protected abstract isWinningBet(betType: string, outcome: TOutcome): boolean;
+
+  // Total returned on a winning bet (stake included), as a multiple of the stake
+  protected abstract payoutMultiplier(betType: string): number;
+
+  // Room as clients see it; the outcome is only included once revealed
+  protected abstract serializeRoom(room: RoundRoom<TOutcome>): unknown;
+
+  protected abstract betPlacedPayload(bet: RoundBet, chips: number, duplicate: boolean): unknown;
+
+  // Outcome as sent to clients
+  protected presentOutcome(outcome: TOutcome): unknown {
+    return outcome;
+  }
+
+  protected betErrorPayload(message: string, action: BetAction): unknown {
+    return { message };
+  }
+
+  protected createRoom(id: string, limits: BetLimits | null = null): RoundRoom<TOutcome> {
+    const room: RoundRoom<TOutcome> = {
+      id,
+      players: [],
+      status: 'waiting',
+      maxPlayers: 999999, // No practical limit
+      outcome: null,
+      countdownTime: countdownSeconds(this.timings),
+      gameStartTime: null,
+      roundNumber: 1,
+      timings: this.timings,
+      limits,
+      seeds: null,
+      adminOverride: null,
+      activeBets: new Map(),
+      unlockedBets: new Map(),
+      lockedBets: new Map(),
+      countdownInterval: null
+    };
+    this.rooms.set(id, room);
+    return room;
+  }
+
+  protected getPlayerRoom(socket: Socket): RoundRoom<TOutcome> | undefined {
+    const roomId = this.playerRooms.get(socket.id);
+    return roomId ? this.rooms.get(roomId) : undefined;
+  }
+
+  protected isBettingOpen(room: RoundRoom<TOutcome>): boolean {
+    return !this.shuttingDown && room.status === 'countdown' && room.countdownTime > room.timings.lockSeconds;
+  }
+
+  private hasFinalLockedBets(room: RoundRoom<TOutcome>, playerId: number): boolean {
+    return this.config.lockedBetsAreFinal && room.lockedBets.has(playerId);
+  }
+
+  protected broadcastRoom(room: RoundRoom<TOutcome>) {
+    if (this.config.events.roomUpdated) {
+      this.io.to(room.id).emit(this.config.events.roomUpdated, this.serializeRoom(room));
+    }
+  }
+
+  private emitBetError(socket: Socket, message: string, action: BetAction) {
+    socket.emit(this.config.events.betError, this.betErrorPayload(message, action));
+  }
+
+  private toRoundBet(bet: StoredBet): RoundBet {
+    return { betId: bet.id, betType: bet.betType, betAmount: bet.betAmount };
+  }
+
+  // Round lifecycle
+
+  protected async startRound(room: RoundRoom<TOutcome>) {
+    if (room.status !== 'waiting' || this.shuttingDown) return;
+
+    room.timings = this.timings;
+    room.status = 'countdown';
+    room.countdownTime = countdownSeconds(room.timings);
+    room.gameStartTime = Date.now();
+    room.outcome = null;
+
+    // Commit to this round's outcome before any bets are taken
+    const seeds = createRoundSeeds(room.roundNumber);
+    room.seeds = seeds;
+
+    try {
+      room.currentGameId = await this.config.store.createGame(room.id, room.players.length, seeds);
+      console.log(`Created ${this.config.name} game record ${room.currentGameId}`);
+    } catch (error) {
+      console.error(`Failed to create ${this.config.name} game record:`, error);
+    }
+
+    this.io.to(room.id).emit(this.config.events.gameStarting, {
+      room: this.serializeRoom(room),
+      countdownTime: room.countdownTime,
+      timings: room.timings,
+      fairness: toPublicSeeds(seeds)
+    });
+
+    room.countdownInterval = setInterval(() => this.tick(room), 1000);
+  }
+
+  private tick(room: RoundRoom<TOutcome>) {
+    room.countdownTime--;
+
+    // Draw the outcome once betting has closed; admins can still override it until the reveal
+    if (room.countdownTime === room.timings.lockSeconds && !room.outcome && room.seeds) {
+      room.outcome = this.deriveOutcome(room.seeds);
+      console.log(`${this.config.name} outcome generated after betting closed:`, room.outcome);
+    }
+
+    this.io.to(room.id).emit(this.config.events.countdownTick, {
+      time: room.countdownTime,
+      room: this.serializeRoom(room)
+    });
+
+    if (room.countdownTime <= 0) {
+      this.stopCountdown(room);
+      this.settleRound(room);
+    }
+  }
+
+  private stopCountdown(room: RoundRoom<TOutcome>) {
+    if (room.countdownInterval) {
+      clearInterval(room.countdownInterval);
+      room.countdownInterval = null;
+    }
+  }
+
+  // Tracked so shutdown() can wait for every payout to reach the database
+  private settleRound(room: RoundRoom<TOutcome>): Promise<void> {
+    const settlement = this.revealResult(room);
+    this.pendingSettlements.add(settlement);
+    settlement.finally(() => this.pendingSettlements.delete(settlement));
+    return settlement;
+  }
+
+  private async revealResult(room: RoundRoom<TOutcome>) {
+    if (!room.outcome && room.seeds) {
+      console.warn(`No ${this.config.name} outcome generated, generating now...`);
+      room.outcome = this.deriveOutcome(room.seeds);
+    }
+    if (!room.outcome) return;
+
+    // An overridden outcome no longer follows from the seeds, so the round is marked as such
+    const overridden = room.adminOverride !== null;
+    if (room.adminOverride) {
+      room.outcome = this.outcomeForResult(room.adminOverride);
+      console.log(`Admin override applied for ${this.config.name} game ${room.currentGameId}: ${room.adminOverride}`);
+      room.adminOverride = null;
+    }
+
+    room.status = 'revealing';
+    console.log(`Revealing ${this.config.name} result:`, room.outcome);
+
+    await this.resolveBets(room, room.outcome);
+
+    if (room.currentGameId) {
+      try {
+        await this.config.store.completeGame(room.currentGameId, room.outcome, overridden);
+        console.log(`${this.config.name} game ${room.currentGameId} updated with final result and marked as completed`);
+      } catch (error) {
+        console.error(`Failed to complete ${this.config.name} game ${room.currentGameId}:`, error);
+      }
+    }
+
+    // The seeds behind the outcome are disclosed with the reveal
+    this.io.to(room.id).emit(this.config.events.resultRevealed, {
+      [this.config.outcomeKey]: this.presentOutcome(room.outcome),
+      room: this.serializeRoom(room),
+      fairness: room.seeds && { ...room.seeds, overridden }
+    });
+
+    setTimeout(() => {
+      this.startNextRound(room);
+    }, room.timings.resultDisplaySeconds * 1000);
+  }
+
+  private startNextRound(room: RoundRoom<TOutcome>) {
+    this.resetRoom(room);
+    this.io.to(room.id).emit(this.config.events.roundEnded, { room: this.serializeRoom(room) });
+
+    if (this.config.runWhenEmpty || room.players.length > 0) {
+      this.startRound(room);
+    } else {
+      console.log(`No players in ${this.config.name} room ${room.id}, waiting for players to join...`);
+    }
+  }
+
+  private resetRoom(room: RoundRoom<TOutcome>) {
+    room.status = 'waiting';
+    room.outcome = null;
+    room.timings = this.timings;
+    room.countdownTime = countdownSeconds(room.timings);
+    room.currentGameId = undefined;
+    room.seeds = null;
+    room.adminOverride = null;
+    room.roundNumber++;
+
+    // Bets never carry over into the next round
+    room.activeBets.clear();
+    room.unlockedBets.clear();
+    room.lockedBets.clear();
+  }
+
+  // Recovery
+
+  private async recoverUnfinishedRounds() {
+    try {
+      const gameIds = await this.config.store.getUnfinishedGameIds();
+      for (const gameId of gameIds) {
+        const voided = await this.config.store.voidGame(gameId, 'server_restart');
+        console.log(`Voided unfinished ${this.config.name} game ${gameId}: refunded ${voided.refundedBets} bet(s) totalling ${voided.refundedStake}, ${voided.settledBets} already settled`);
+      }
+    } catch (error) {
+      console.error(`Failed to recover unfinished ${this.config.name} rounds:`, error);
+    }
+  }
+
+  // Shutdown
+
+  /**
+   * Stop dealing and leave nothing unsettled. A round whose betting window has
+   * closed already has its outcome, so it is revealed and settled now; a round
+   * still taking bets is voided and every stake refunded.
+   */
+  async shutdown() {
+    this.shuttingDown = true;
+
+    for (const room of Array.from(this.rooms.values())) {
+      if (room.status !== 'countdown') continue;
+      this.stopCountdown(room);
+
+      if (room.outcome) {
+        this.settleRound(room);
+      } else {
+        await this.voidRound(room, 'maintenance');
+      }
+    }
+
+    await Promise.all(Array.from(this.pendingSettlements));
+    console.log(`${this.config.name} rounds settled for shutdown`);
+  }
+
+  private async voidRound(room: RoundRoom<TOutcome>, reason: string) {
+    if (room.currentGameId) {
+      try {
+        const voided = await this.config.store.voidGame(room.currentGameId, reason);
+        console.log(`Voided ${this.config.name} game ${room.currentGameId} (${reason}): refunded ${voided.refundedBets} bet(s) totalling ${voided.refundedStake}`);
+      } catch (error) {
+        // Left in progress, so the next startup refunds it instead
+        console.error(`Failed to void ${this.config.name} game ${room.currentGameId}:`, error);
+      }
+    }
+
+    this.resetRoom(room);
+    this.io.to(room.id).emit(this.config.events.roundEnded, { room: this.serializeRoom(room) });
+  }
+
+  // Settlement
+
+  private async resolveBets(room: RoundRoom<TOutcome>, outcome: TOutcome) {
+    let roundWagered = 0;
+    let roundPaidOut = 0;
+    const processedBetIds = new Set<number>(); // A bet may still be filed under a player's previous socket
+
+    for (const [socketId, bets] of Array.from(room.activeBets.entries())) {
+      for (const bet of bets) {
+        if (processedBetIds.has(bet.betId)) {
+          console.log(`Skipping duplicate bet ${bet.betId} from socket ${socketId} (already processed)`);
+          continue;
+        }
+        processedBetIds.add(bet.betId);
+
+        const won = this.isWinningBet(bet.betType, outcome);
+        const winAmount = won ? this.calculateWinAmount(bet) : 0;
+
+        try {
+          const result = await this.config.store.resolveBet(bet.betId, won, winAmount);
+          if (!result.bet) {
+            console.log(`Skipping bet ${bet.betId}: already settled or refunded`);
+            continue;
+          }
+          roundWagered += bet.betAmount;
+          roundPaidOut += winAmount;
+
+          // Players who reconnected are found by dbId; disconnected players are settled in the database only
+          const roomPlayer = room.players.find(p => p.socketId === socketId)
+            ?? room.players.find(p => p.dbId !== undefined && p.dbId === result.updatedPlayer?.id);
+          if (roomPlayer && result.updatedPlayer) {
+            roomPlayer.chips = result.updatedPlayer.chips;
+          }
+
+          console.log(`Bet ${bet.betId}: ${won ? 'WON' : 'LOST'} - Wager: ${bet.betAmount}, Payout: ${winAmount} (${roomPlayer ? `Player: ${roomPlayer.name}` : 'player disconnected, settled in database'})`);
+        } catch (error) {
+          console.error(`Failed to resolve ${this.config.name} bet ${bet.betId}:`, error);
+        }
+      }
+    }
+
+    this.updateHouseStats(roundWagered, roundPaidOut);
+
+    room.activeBets.clear();
+    room.lockedBets.clear();
+  }
+
+  private calculateWinAmount(bet: RoundBet): number {
+    // Stakes are deducted when the bet is placed, so the payout includes the stake
+    const rawAmount = bet.betAmount * this.payoutMultiplier(bet.betType);
+    return Math.round(rawAmount * 100) / 100;
+  }
+
+  private updateHouseStats(roundWagered: number, roundPaidOut: number) {
+    const stats = this.houseStats;
+    const houseProfitThisRound = roundWagered - roundPaidOut;
+
+    stats.totalWagered += roundWagered;
+    stats.totalPaidOut += roundPaidOut;
+    stats.houseProfitThisRound = houseProfitThisRound;
+    stats.houseProfitTotal += houseProfitThisRound;
+    stats.roundCount += 1;
+    stats.houseEdgePercent = stats.totalWagered > 0
+      ? (stats.houseProfitTotal / stats.totalWagered) * 100
+      : 0;
+
+    console.log(`${this.config.name} round ${stats.roundCount} complete - Wagered: ${roundWagered}, Paid out: ${roundPaidOut}, House profit: ${houseProfitThisRound}, House edge: ${stats.houseEdgePercent.toFixed(2)}%`);
+  }
+
+  // Betting
+
+  async handlePlaceBet(socket: Socket, data: PlaceBetRequest) {
+    const room = this.getPlayerRoom(socket);
+    const player = room?.players.find(p => p.socketId === socket.id);
+    if (!room || !player) {
+      this.emitBetError(socket, 'You must be in the game to place bets', 'place');
+      return;
+    }
+
+    if (!player.dbId) {
+      this.emitBetError(socket, 'Authentication required to place bets', 'place');
+      return;
+    }
+    const playerId = player.dbId;
+
+    if (data.clientBetId !== undefined && (typeof data.clientBetId !== 'string' || data.clientBetId.length === 0 || data.clientBetId.length > 64)) {
+      this.emitBetError(socket, 'Invalid bet id', 'place');
+      return;
+    }
+
+    try {
+      // A retried emit (e.g. replayed after a reconnect) is acknowledged with the original bet,
+      // even if the betting window has closed since
+      if (data.clientBetId) {
+        const existingBet = await this.config.store.getBetByClientBetId(playerId, data.clientBetId);
+        if (existingBet?.refundedAt) {
+          this.emitBetError(socket, 'This bet was already cancelled', 'place');
+          return;
+        }
+        if (existingBet) {
+          const dbPlayer = await storage.getPlayer(playerId);
+          socket.emit(this.config.events.betPlaced, this.betPlacedPayload(this.toRoundBet(existingBet), dbPlayer?.chips ?? 0, true));
+          return;
+        }
+      }
+
+      if (!this.isBettingOpen(room)) {
+        this.emitBetError(socket, 'Betting window closed', 'place');
+        return;
+      }
+
+      if (this.hasFinalLockedBets(room, playerId)) {
+        this.emitBetError(socket, 'You have locked bets. Locked bets cannot be changed.', 'place');
+        return;
+      }
+
+      if (!this.config.betTypes.includes(data.betType)) {
+        this.emitBetError(socket, 'Invalid bet type', 'place');
+        return;
+      }
+
+      if (!Number.isInteger(data.amount) || data.amount <= 0) {
+        this.emitBetError(socket, 'Invalid bet amount', 'place');
+        return;
+      }
+
+      const stakeLimits = this.getStakeLimits(room, data.betType);
+      if (stakeLimits && (data.amount < stakeLimits.minBet || data.amount > stakeLimits.maxBet)) {
+        const where = room.limits ? ' at this table' : '';
+        this.emitBetError(socket, `Bets on ${data.betType}${where} must be between ${stakeLimits.minBet} and ${stakeLimits.maxBet}`, 'place');
+        return;
+      }
+
+      const gameId = room.currentGameId;
+      if (!gameId) {
+        this.emitBetError(socket, 'Game not ready for betting', 'place');
+        return;
+      }
+
+      const dbPlayer = await storage.getPlayer(playerId);
+      if (!dbPlayer) {
+        this.emitBetError(socket, 'Player record not found', 'place');
+        return;
+      }
+      if (dbPlayer.chips < data.amount) {
+        this.emitBetError(socket, 'Insufficient balance', 'place');
+        return;
+      }
+
+      // The per-round cap is checked by the store, inside the same transaction as the stake
+      const maxRoundWager = this.limits.maxRoundWager ?? undefined;
+      const result = await this.config.store.placeBet(playerId, data.amount, data.betType, gameId, data.clientBetId, maxRoundWager);
+      player.chips = result.updatedPlayer.chips;
+      const bet = this.toRoundBet(result.bet);
+
+      // Lost a race with a concurrent retry of the same bet
+      if (result.duplicate && result.bet.refundedAt) {
+        this.emitBetError(socket, 'This bet was already cancelled', 'place');
+        return;
+      }
+      if (result.duplicate) {
+        socket.emit(this.config.events.betPlaced, this.betPlacedPayload(bet, result.updatedPlayer.chips, true));
+        return;
+      }
+
+      room.activeBets.set(socket.id, [...(room.activeBets.get(socket.id) || []), bet]);
+      room.unlockedBets.set(socket.id, [...(room.unlockedBets.get(socket.id) || []), bet]);
+
+      this.broadcastRoom(room);
+      socket.emit(this.config.events.betPlaced, this.betPlacedPayload(bet, result.updatedPlayer.chips, false));
+
+      console.log(`${this.config.name} bet placed: ${player.name} placed ${data.amount} on ${data.betType} (bet ID: ${bet.betId})`);
+    } catch (error) {
+      console.error(`Error placing ${this.config.name} bet:`, error);
+      this.emitBetError(socket, error instanceof Error && error.message ? error.message : 'Failed to place bet', 'place');
+    }
+  }
+
+  async handleLockBet(socket: Socket) {
+    const room = this.getPlayerRoom(socket);
+    const player = room?.players.find(p => p.socketId === socket.id);
+    if (!room || !player || !player.dbId) {
+      this.emitBetError(socket, 'Player not found', 'lock');
+      return;
+    }
+
+    if (!this.isBettingOpen(room)) {
+      this.emitBetError(socket, 'Betting window closed', 'lock');
+      return;
+    }
+
+    if (this.hasFinalLockedBets(room, player.dbId)) {
+      this.emitBetError(socket, 'You already have locked bets. Locked bets cannot be changed.', 'lock');
+      return;
+    }
+
+    const betsToLock = room.unlockedBets.get(socket.id);
+    if (!betsToLock || betsToLock.length === 0) {
+      this.emitBetError(socket, 'No bets to lock. Please place a bet first.', 'lock');
+      return;
+    }
+
+    try {
+      await this.config.store.lockBets(betsToLock.map(bet => bet.betId));
+    } catch (error) {
+      console.error(`Error locking ${this.config.name} bets:`, error);
+      this.emitBetError(socket, 'Failed to lock bets', 'lock');
+      return;
+    }
+
+    // Locked bets are kept by player, so they survive a disconnect and are settled either way
+    const lockedBets = [...(room.lockedBets.get(player.dbId) || []), ...betsToLock];
+    room.lockedBets.set(player.dbId, lockedBets);
+    room.unlockedBets.delete(socket.id);
+
+    socket.emit(this.config.events.betsLocked, {
+      bets: lockedBets.map(bet => ({ betType: bet.betType, betAmount: bet.betAmount, betId: bet.betId, locked: true })),
+      [this.config.chipsKey]: player.chips || 0
+    });
+
+    console.log(`${this.config.name} bets locked: ${player.name} locked ${betsToLock.length} bet(s)`);
+  }
+
+  async handleCancelBet(socket: Socket, data: { cancelLocked?: boolean } = {}) {
+    const room = this.getPlayerRoom(socket);
+    const player = room?.players.find(p => p.socketId === socket.id);
+    if (!room || !player || !player.dbId) {
+      this.emitBetError(socket, 'Player not found', 'cancel');
+      return;
+    }
+
+    if (!this.isBettingOpen(room)) {
+      this.emitBetError(socket, 'Betting window closed', 'cancel');
+      return;
+    }
+
+    if (this.hasFinalLockedBets(room, player.dbId)) {
+      this.emitBetError(socket, 'Cannot cancel locked bets', 'cancel');
+      return;
+    }
+
+    const bets = data.cancelLocked ? room.lockedBets.get(player.dbId) : room.unlockedBets.get(socket.id);
+    if (!bets || bets.length === 0) {
+      this.emitBetError(socket, data.cancelLocked ? 'No locked bets to cancel' : 'No unlocked bets to cancel', 'cancel');
+      return;
+    }
+
+    try {
+      const totalRefund = await this.refundBets(room, bets, player);
+      if (data.cancelLocked) {
+        room.lockedBets.delete(player.dbId);
+      } else {
+        room.unlockedBets.delete(socket.id);
+      }
+
+      const kind = data.cancelLocked ? 'locked' : 'unlocked';
+      socket.emit(data.cancelLocked ? this.config.events.lockedBetsCancelled : this.config.events.betsCancelled, {
+        message: `${bets.length} ${kind} bet(s) cancelled and refunded successfully`,
+        [this.config.chipsKey]: player.chips
+      });
+
+      console.log(`${this.config.name} ${kind} bets cancelled and refunded: ${player.name} cancelled ${bets.length} bet(s), total refund: ${totalRefund}`);
+    } catch (error) {
+      console.error(`Error cancelling ${this.config.name} bets:`, error);
+      this.emitBetError(socket, error instanceof Error ? error.message : 'Failed to cancel bets', 'cancel');
+    }
+  }
+
+  // Returns every stake and drops the bets from the round, wherever they are filed
+  private async refundBets(room: RoundRoom<TOutcome>, bets: RoundBet[], player?: RoundPlayer): Promise<number> {
+    let totalRefund = 0;
+    const refundedIds = new Set<number>();
+
+    for (const bet of bets) {
+      // The store refuses bets already settled or refunded, e.g. by a settlement that won the race
+      const refundedPlayer = await this.config.store.refundBet(bet.betId);
+      refundedIds.add(bet.betId);
+      if (!refundedPlayer) {
+        console.log(`${this.config.name} bet ${bet.betId} was not refunded: already settled, refunded or final`);
+        continue;
+      }
+      if (player) {
+        player.chips = refundedPlayer.chips;
+      }
+      totalRefund += bet.betAmount;
+    }
+
+    this.removeBetsFromRound(room, refundedIds);
+    return totalRefund;
+  }
+
+  private removeBetsFromRound(room: RoundRoom<TOutcome>, betIds: Set<number>, exceptSocketId?: string) {
+    for (const map of [room.activeBets, room.unlockedBets]) {
+      for (const [socketId, bets] of Array.from(map.entries())) {
+        if (socketId === exceptSocketId) continue;
+        const remaining = bets.filter(bet => !betIds.has(bet.betId));
+        if (remaining.length === 0) {
+          map.delete(socketId);
+        } else if (remaining.length !== bets.length) {
+          map.set(socketId, remaining);
+        }
+      }
+    }
+  }
+
+  // Seating
+
+  protected seatPlayer(socket: Socket, room: RoundRoom<TOutcome>, player: RoundPlayer) {
+    const existingIndex = room.players.findIndex(p => p.socketId === socket.id);
+    if (existingIndex !== -1) {
+      room.players[existingIndex] = player;
+    } else {
+      room.players.push(player);
+    }
+    this.playerRooms.set(socket.id, room.id);
+    socket.join(room.id);
+  }
+
+  /**
+   * Remove a player from their room. Unlocked bets are refunded; locked bets
+   * stay in the round and are settled even if the player never comes back.
+   */
+  protected async unseatPlayer(socket: Socket): Promise<RoundRoom<TOutcome> | undefined> {
+    const room = this.getPlayerRoom(socket);
+    if (!room) return undefined;
+
+    // Delete immediately to prevent double execution from race condition
+    this.playerRooms.delete(socket.id);
+
+    const player = room.players.find(p => p.socketId === socket.id);
+    const unlockedBets = room.unlockedBets.get(socket.id);
+
+    if (unlockedBets && unlockedBets.length > 0) {
+      try {
+        const totalRefund = await this.refundBets(room, unlockedBets);
+        console.log(`${unlockedBets.length} unlocked bet(s) auto-cancelled and refunded for disconnected player ${player?.name || socket.id}, total refund: ${totalRefund}`);
+      } catch (error) {
+        console.error('Error refunding unlocked bets on disconnect:', error);
+      }
+    }
+    room.unlockedBets.delete(socket.id);
+
+    if (player?.dbId && room.lockedBets.has(player.dbId)) {
+      console.log(`Preserved ${room.lockedBets.get(player.dbId)!.length} locked bet(s) for player ${player.name} (dbId: ${player.dbId}) - will be settled even if offline`);
+    }
+
+    room.players = room.players.filter(p => p.socketId !== socket.id);
+    socket.leave(room.id);
+    return room;
+  }
+
+  /**
+   * Re-file a returning player's bets for this round under their new socket.
+   * Everything staked this round is read back from the database; bets flagged
+   * as locked there (or in memory) stay locked, the rest become cancellable again.
+   */
+  protected async restorePlayerBets(socket: Socket, room: RoundRoom<TOutcome>, playerId: number): Promise<{ activeBets: RoundBet[]; lockedBets: RoundBet[] }> {
+    let lockedBets = room.lockedBets.get(playerId) || [];
+    let activeBets: RoundBet[] = [];
+
+    if (room.currentGameId) {
+      try {
+        const storedBets = await this.config.store.getPlayerBets(playerId, room.currentGameId);
+        activeBets = storedBets.map(bet => this.toRoundBet(bet));
+
+        const lockedInMemory = new Set(lockedBets.map(bet => bet.betId));
+        const lockedInStore = storedBets.filter(bet => bet.locked && !lockedInMemory.has(bet.id));
+        if (lockedInStore.length > 0) {
+          lockedBets = [...lockedBets, ...lockedInStore.map(bet => this.toRoundBet(bet))];
+          room.lockedBets.set(playerId, lockedBets);
+        }
+      } catch (error) {
+        console.error(`Error fetching ${this.config.name} player bets:`, error);
+        activeBets = lockedBets;
+      }
+    }
+
+    // Drop copies still filed under the player's previous socket so nothing settles twice
+    const betIds = new Set([...activeBets, ...lockedBets].map(bet => bet.betId));
+    this.removeBetsFromRound(room, betIds, socket.id);
+
+    if (activeBets.length > 0) {
+      room.activeBets.set(socket.id, activeBets);
+    }
+
+    const lockedIds = new Set(lockedBets.map(bet => bet.betId));
+    const unlockedBets = activeBets.filter(bet => !lockedIds.has(bet.betId));
+    if (unlockedBets.length > 0) {
+      room.unlockedBets.set(socket.id, unlockedBets);
+    } else {
+      room.unlockedBets.delete(socket.id);
+    }
+
+    if (activeBets.length > 0 || lockedBets.length > 0) {
+      console.log(`Restored ${lockedBets.length} locked and ${unlockedBets.length} unlocked ${this.config.name} bet(s) for player ${playerId}`);
+    }
+
+    return { activeBets, lockedBets };
+  }
+
+  // Settings
+
+  private async loadSettings() {
+    try {
+      const settings = await storage.getGameSettings(this.config.settingsKey);
+      if (settings) {
+        this.updateTimings(settings);
+        this.updateLimits({
+          betLimits: settings.betLimits ?? this.config.defaultLimits.betLimits,
+          maxRoundWager: settings.maxRoundWager
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to load ${this.config.name} settings, using defaults:`, error);
+    }
+  }
+
+  getBetTypes(): readonly string[] {
+    return this.config.betTypes;
+  }
+
+  getTimings(): RoundTimings {
+    return this.timings;
+  }
+
+  // A round in progress keeps the timings it started with; new values apply from the next round
+  updateTimings(timings: RoundTimings) {
+    this.timings = {
+      bettingSeconds: timings.bettingSeconds,
+      lockSeconds: timings.lockSeconds,
+      resultDisplaySeconds: timings.resultDisplaySeconds
+    };
+
+    this.rooms.forEach(room => {
+      if (room.status === 'waiting') {
+        room.timings = this.timings;
+        room.countdownTime = countdownSeconds(room.timings);
+      }
+    });
+
+    console.log(`${this.config.name} timings: ${this.timings.bettingSeconds}s betting, ${this.timings.lockSeconds}s locked, ${this.timings.resultDisplaySeconds}s result display`);
+  }
+
+  getLimits(): GameLimits {
+    return this.limits;
+  }
+
+  // Unlike timings, limits apply to the round in progress straight away
+  updateLimits(limits: GameLimits) {
+    this.limits = { betLimits: limits.betLimits, maxRoundWager: limits.maxRoundWager };
+    this.rooms.forEach(room => this.broadcastRoom(room));
+    console.log(`${this.config.name} limits updated:`, JSON.stringify(this.limits));
+  }
+
+  // Stake range for one bet type: the room's limits narrowed by the game's limits for that type
+  protected getStakeLimits(room: RoundRoom<TOutcome>, betType: string): BetLimits | null {
+    const typeLimits = this.limits.betLimits[betType];
+    if (!typeLimits) return room.limits;
+    if (!room.limits) return typeLimits;
+    return {
+      minBet: Math.max(room.limits.minBet, typeLimits.minBet),
+      maxBet: Math.min(room.limits.maxBet, typeLimits.maxBet)
+    };
+  }
+
+  // Limits as shown to players in the room
+  protected getPublicLimits(room: RoundRoom<TOutcome>): { betLimits: Record<string, BetLimits>; maxRoundWager: number | null } {
+    const betLimits: Record<string, BetLimits> = {};
+    for (const betType of this.config.betTypes) {
+      if (this.limits.betLimits[betType]) {
+        betLimits[betType] = this.getStakeLimits(room, betType)!;
+      }
+    }
+    return { betLimits, maxRoundWager: this.limits.maxRoundWager };
+  }
+
+  // Admin
+
+  protected getBetTotals(room: RoundRoom<TOutcome>) {
+    const betsByType: Record<string, number> = {};
+    for (const betType of this.config.betTypes) {
+      betsByType[betType] = 0;
+    }
+
+    let totalBets = 0;
+    room.activeBets.forEach(bets => {
+      bets.forEach(bet => {
+        totalBets += bet.betAmount;
+        if (bet.betType in betsByType) {
+          betsByType[bet.betType] += bet.betAmount;
+        }
+      });
+    });
+
+    return { totalBets, betsByType };
+  }
+
+  // Only allowed while the round is still counting down
+  setAdminOverride(gameId: number, overrideResult: string): boolean {
+    const room = Array.from(this.rooms.values()).find(r => r.currentGameId === gameId);
+    if (!room || room.status !== 'countdown') {
+      return false;
+    }
+
+    if (!this.config.betTypes.includes(overrideResult)) {
+      return false;
+    }
+
+    room.adminOverride = overrideResult;
+    console.log(`Admin override set for ${this.config.name} game ${gameId}: ${overrideResult}`);
+    return true;
+  }
+
+  getHouseStats(): HouseStats {
+    return this.houseStats;
+  }
+}
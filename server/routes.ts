@@ -1,7 +1,12 @@
 import type { Express } from "express";
-import { storage } from "./storage";
-import { insertUserSchema } from "../shared/schema";
-import { requireAuth, requireAdmin, optionalAuth, type AuthRequest } from "./middleware/auth";
+import { storage, PLAYER_LIMIT_COOLING_OFF_MS, activeSelfExclusion, describeSelfExclusion } from "./storage";
+import { insertUserSchema, type GameSettingsType, type BetTypeLimits, type PlayerLimitType, type PlayerLimitPeriod, type SelfExclusionPeriod, type WalletRequestType, type WalletRequestStatus } from "../shared/schema";
+import { requireAuth, requirePermission, optionalAuth, type AuthRequest } from "./middleware/auth";
+import { ADMIN_ROLES, isAdminRole, hasPermission, type AdminRole } from "../shared/permissions";
+import { runReconciliation, parseStaleAfterMinutes } from "./reconciliation";
+import { recordAudit, auditEventsToCsv } from "./audit";
+import { hashServerSeed, deriveLucky7Card, deriveCoinTossResult } from "./provablyFair";
+import { DEFAULT_ROUND_TIMINGS, type RoundEngine } from "./roundEngine";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
@@ -39,6 +44,16 @@ const uploadBackground = multer({
   }
 });
 
+const GAME_SETTINGS_TYPES: GameSettingsType[] = ['lucky7', 'coin_toss'];
+const PLAYER_LIMIT_TYPES: PlayerLimitType[] = ['deposit', 'loss', 'wager'];
+const PLAYER_LIMIT_PERIODS: PlayerLimitPeriod[] = ['daily', 'weekly', 'monthly'];
+const SELF_EXCLUSION_PERIODS: SelfExclusionPeriod[] = ['24h', '7d', '30d', 'permanent'];
+const WALLET_REQUEST_TYPES: WalletRequestType[] = ['deposit', 'withdrawal'];
+const WALLET_REQUEST_STATUSES: WalletRequestStatus[] = ['pending', 'approved', 'rejected', 'cancelled'];
+
+// Upper bound on a single audit CSV export
+const AUDIT_EXPORT_MAX_ROWS = 10000;
+
 export async function registerRoutes(app: Express): Promise<void> {
   // Health check endpoint
   app.get("/api/health", (req, res) => {
@@ -62,8 +77,8 @@ export async function registerRoutes(app: Express): Promise<void> {
 
       // Create user with specified role
       let user;
-      if (role === 'admin') {
-        user = await storage.createAdminUser({ username, password });
+      if (isAdminRole(role)) {
+        user = await storage.createAdminUser({ username, password }, role === 'admin' ? 'superadmin' : role);
       } else {
         user = await storage.createUser({ username, password });
       }
@@ -80,16 +95,23 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  // Get active rooms
+  // Get Lucky 7 tables with their limits and live state
   app.get("/api/rooms", (req, res) => {
-    // This will be populated by the game manager
-    res.json({ rooms: [] });
+    const gameManager = (app as any).gameManager;
+    res.json({ rooms: gameManager ? gameManager.getTables() : [] });
   });
 
-  // Get recent game results
+  // Get Andar Bahar matches in progress that can be watched
+  app.get("/api/andar-bahar/live", (req, res) => {
+    const andarBaharManager = (app as any).andarBaharManager;
+    res.json({ matches: andarBaharManager ? andarBaharManager.getLiveMatches() : [] });
+  });
+
+  // Get recent game results, optionally for a single table
   app.get("/api/games/recent", async (req, res) => {
     try {
-      const games = await storage.getGameHistory(10);
+      const roomId = typeof req.query.roomId === 'string' ? req.query.roomId : undefined;
+      const games = await storage.getGameHistory(10, roomId);
       res.json(games);
     } catch (error) {
       console.error('Error fetching recent games:', error);
@@ -97,10 +119,57 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Re-derive a completed Lucky 7 round from its revealed seeds
+  app.get("/api/games/:id/verify", async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "Invalid game ID" });
+      }
+
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      // The seed must stay secret until the round is over
+      if (game.status !== 'completed') {
+        return res.status(409).json({ message: "Round has not been revealed yet" });
+      }
+
+      if (!game.serverSeed || !game.serverSeedHash || !game.clientSeed || game.nonce === null) {
+        return res.status(404).json({ message: "This round predates provably fair seeds" });
+      }
+
+      const derivedCard = deriveLucky7Card(game.serverSeed, game.clientSeed, game.nonce);
+      const hashMatches = hashServerSeed(game.serverSeed) === game.serverSeedHash;
+      const cardMatches = derivedCard.number === game.cardNumber && derivedCard.color === game.cardColor;
+
+      res.json({
+        gameId: game.id,
+        serverSeed: game.serverSeed,
+        serverSeedHash: game.serverSeedHash,
+        clientSeed: game.clientSeed,
+        nonce: game.nonce,
+        derivedCard,
+        recordedCard: { number: game.cardNumber, color: game.cardColor },
+        hashMatches,
+        cardMatches,
+        overridden: game.overridden,
+        ...(game.overridden && { note: "An admin overrode this result, so the card was not drawn from these seeds" }),
+        verified: hashMatches && cardMatches && !game.overridden
+      });
+    } catch (error) {
+      console.error('Error verifying game:', error);
+      res.status(500).json({ message: "Failed to verify game" });
+    }
+  });
+
   // Get total game count (round number)
   app.get("/api/games/count", async (req, res) => {
     try {
-      const count = await storage.getTotalGameCount();
+      const roomId = typeof req.query.roomId === 'string' ? req.query.roomId : undefined;
+      const count = await storage.getTotalGameCount(roomId);
       res.json({ totalGames: count });
     } catch (error) {
       console.error('Error fetching game count:', error);
@@ -133,6 +202,7 @@ export async function registerRoutes(app: Express): Promise<void> {
         id: player.id,
         name: player.name,
         chips: player.chips,
+        heldChips: await storage.getHeldChips(player.id),
         totalWins: player.totalWins,
         totalLosses: player.totalLosses
       });
@@ -190,6 +260,148 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Responsible-gaming limits the player has set on themselves
+  app.get("/api/player/limits", requireAuth, async (req: AuthRequest, res) => {
+    try {
+      const player = await storage.getPlayerByUserId(req.user!.id);
+      const limits = await storage.getPlayerLimits(req.user!.id, player?.id);
+      res.json({ limits, coolingOffHours: PLAYER_LIMIT_COOLING_OFF_MS / (60 * 60 * 1000) });
+    } catch (error) {
+      console.error('Error fetching player limits:', error);
+      res.status(500).json({ message: "Failed to fetch limits" });
+    }
+  });
+
+  // Set or remove (amount null) one limit
+  app.post("/api/player/limits", requireAuth, async (req: AuthRequest, res) => {
+    try {
+      const { limitType, period } = req.body;
+      const amount = req.body.amount ?? null;
+
+      if (!PLAYER_LIMIT_TYPES.includes(limitType) || !PLAYER_LIMIT_PERIODS.includes(period)) {
+        return res.status(400).json({ message: "Unknown limit type or period" });
+      }
+      if (amount !== null && (!Number.isInteger(amount) || amount <= 0)) {
+        return res.status(400).json({ message: "Limit must be a positive whole number" });
+      }
+
+      const { immediate } = await storage.setPlayerLimit(req.user!.id, limitType, period, amount);
+      const player = await storage.getPlayerByUserId(req.user!.id);
+      const limits = await storage.getPlayerLimits(req.user!.id, player?.id);
+
+      res.json({
+        message: immediate
+          ? `Your ${period} ${limitType} limit has been updated`
+          : `Your ${period} ${limitType} limit will change after the ${PLAYER_LIMIT_COOLING_OFF_MS / (60 * 60 * 1000)}-hour cooling-off period`,
+        limits
+      });
+    } catch (error) {
+      console.error('Error updating player limit:', error);
+      res.status(500).json({ message: "Failed to update limit" });
+    }
+  });
+
+  // Self-exclusion: the player is signed out by the client and kept out of every game until it ends
+  app.post("/api/player/self-exclusion", requireAuth, async (req: AuthRequest, res) => {
+    try {
+      const { period } = req.body;
+      if (!SELF_EXCLUSION_PERIODS.includes(period)) {
+        return res.status(400).json({ message: "Choose 24h, 7d, 30d or permanent" });
+      }
+
+      const user = await storage.selfExcludeUser(req.user!.id, period);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Nothing left waiting to start a match on their behalf
+      const player = await storage.getPlayerByUserId(user.id);
+      if (player) {
+        const andarBaharManager = (app as any).andarBaharManager;
+        andarBaharManager.leaveMatchmaking(player.id);
+        andarBaharManager.cancelChallenge(player.id);
+      }
+
+      const exclusion = activeSelfExclusion(user)!;
+      console.log(`User ${user.username} self-excluded ${exclusion.until ? `until ${exclusion.until.toISOString()}` : 'permanently'}`);
+      res.json({
+        message: describeSelfExclusion(exclusion),
+        selfExcludedUntil: exclusion.until
+      });
+    } catch (error) {
+      console.error('Error self-excluding user:', error);
+      res.status(500).json({ message: "Failed to start self-exclusion" });
+    }
+  });
+
+  // The player's own deposit and withdrawal requests
+  app.get("/api/player/wallet-requests", requireAuth, async (req: AuthRequest, res) => {
+    try {
+      const requests = await storage.getWalletRequestsByUser(req.user!.id);
+      res.json({ requests });
+    } catch (error) {
+      console.error('Error fetching wallet requests:', error);
+      res.status(500).json({ message: "Failed to fetch requests" });
+    }
+  });
+
+  app.post("/api/player/wallet-requests", requireAuth, async (req: AuthRequest, res) => {
+    try {
+      const { requestType, amount } = req.body;
+      const reference = typeof req.body.reference === 'string' ? req.body.reference.trim() : '';
+
+      if (!WALLET_REQUEST_TYPES.includes(requestType)) {
+        return res.status(400).json({ message: "Request must be a deposit or a withdrawal" });
+      }
+      if (!Number.isInteger(amount) || amount <= 0) {
+        return res.status(400).json({ message: "Amount must be a positive whole number" });
+      }
+      if (!reference || reference.length > 100) {
+        return res.status(400).json({ message: "A reference of up to 100 characters is required" });
+      }
+
+      if (requestType === 'deposit') {
+        const player = await storage.getPlayerByUserId(req.user!.id);
+        const limitBreach = player && await storage.getPlayerLimitBreach(req.user!.id, player.id, 'deposit', amount);
+        if (limitBreach) {
+          return res.status(400).json({ message: limitBreach });
+        }
+      }
+
+      const request = await storage.createWalletRequest(req.user!.id, requestType, amount, reference);
+      console.log(`User ${req.user!.username} requested a ${requestType} of ${amount} chips (request ${request.id})`);
+      res.json({
+        message: requestType === 'deposit'
+          ? 'Deposit request submitted. Chips are credited once it is approved.'
+          : `Withdrawal request submitted. ${amount} chips are held until it is reviewed.`,
+        request
+      });
+    } catch (error) {
+      console.error('Error creating wallet request:', error);
+      const message = error instanceof Error ? error.message : "Failed to submit request";
+      res.status(message.startsWith('Insufficient chips') ? 400 : 500).json({ message });
+    }
+  });
+
+  app.post("/api/player/wallet-requests/:requestId/cancel", requireAuth, async (req: AuthRequest, res) => {
+    try {
+      const requestId = parseInt(req.params.requestId);
+      if (isNaN(requestId)) {
+        return res.status(400).json({ message: "Invalid request ID" });
+      }
+
+      const request = await storage.cancelWalletRequest(requestId, req.user!.id);
+      if (!request) {
+        return res.status(404).json({ message: "No pending request found" });
+      }
+
+      res.json({ message: "Request cancelled", request });
+    } catch (error) {
+      console.error('Error cancelling wallet request:', error);
+      res.status(500).json({ message: "Failed to cancel request" });
+    }
+  });
+
   // Authentication routes
   app.post("/api/auth/register", async (req, res) => {
     try {
@@ -245,6 +457,11 @@ export async function registerRoutes(app: Express): Promise<void> {
         });
       }
 
+      const selfExclusion = activeSelfExclusion(user);
+      if (selfExclusion) {
+        return res.status(403).json({ message: describeSelfExclusion(selfExclusion) });
+      }
+
       // Update last login time
       await storage.updateUserLastLogin(user.id);
 
@@ -302,7 +519,7 @@ export async function registerRoutes(app: Express): Promise<void> {
       }
 
       // Users can only access their own stats (unless admin)
-      if (req.user!.id !== userId && req.user!.role !== 'admin') {
+      if (req.user!.id !== userId && !hasPermission(req.user!.role, 'users.view')) {
         return res.status(403).json({ message: "Access denied" });
       }
 
@@ -327,7 +544,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
   // Admin routes - requires admin role
-  app.get("/api/admin/users", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/users", requirePermission('users.view'), async (req: AuthRequest, res) => {
     try {
       // Use enhanced function to get users with player info
       const users = await storage.getUsersWithPlayerInfo();
@@ -338,6 +555,11 @@ export async function registerRoutes(app: Express): Promise<void> {
         username: user.username,
         role: user.role,
         status: user.status,
+        // Read-only here: only the player can start one and it cannot be shortened
+        selfExclusion: activeSelfExclusion(user) && {
+          since: user.selfExcludedAt,
+          until: user.selfExcludedUntil
+        },
         lastLogin: user.lastLogin,
         createdAt: user.createdAt,
         // Player information if available
@@ -376,7 +598,7 @@ export async function registerRoutes(app: Express): Promise<void> {
 
       // Check if any admin users already exist
       const users = await storage.getAllUsers();
-      const hasAdmin = users.some(user => user.role === 'admin');
+      const hasAdmin = users.some(user => isAdminRole(user.role));
       
       if (hasAdmin) {
         return res.status(400).json({ message: "Admin user already exists" });
@@ -411,7 +633,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
   // House statistics endpoint for admin monitoring
-  app.get("/api/admin/house-stats", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/house-stats", requirePermission('analytics.view'), async (req: AuthRequest, res) => {
     try {
       // Admin authentication required
       
@@ -445,7 +667,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
   // Get current round betting statistics for admin control
-  app.get("/api/admin/current-round", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/current-round", requirePermission('games.control'), async (req: AuthRequest, res) => {
     try {
       const gameManager = (app as any).gameManager;
       
@@ -453,7 +675,8 @@ export async function registerRoutes(app: Express): Promise<void> {
         return res.status(500).json({ message: "Game manager not available" });
       }
 
-      const currentRoundData = await gameManager.getCurrentRoundData();
+      const roomId = typeof req.query.roomId === 'string' ? req.query.roomId : undefined;
+      const currentRoundData = await gameManager.getCurrentRoundData(roomId);
       
       if (!currentRoundData) {
         return res.json({ message: "No active round found" });
@@ -467,7 +690,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
   // Admin override result endpoint
-  app.post("/api/admin/override-result", requireAdmin, async (req: AuthRequest, res) => {
+  app.post("/api/admin/override-result", requirePermission('games.control'), async (req: AuthRequest, res) => {
     try {
       const { gameId, overrideResult } = req.body;
       
@@ -490,6 +713,13 @@ export async function registerRoutes(app: Express): Promise<void> {
       
       if (success) {
         console.log(`Admin ${req.user!.username} overrode result for game ${gameId} to: ${overrideResult}`);
+        await recordAudit(req, {
+          action: 'game.override_result',
+          targetType: 'game',
+          targetId: gameId,
+          description: `Overrode Lucky 7 result for game ${gameId} to ${overrideResult}`,
+          after: { overrideResult },
+        });
         res.json({ 
           message: "Result override set successfully",
           gameId: gameId,
@@ -506,7 +736,7 @@ export async function registerRoutes(app: Express): Promise<void> {
 
   // User management endpoints
   // Block/Unblock user
-  app.post("/api/admin/users/:userId/status", requireAdmin, async (req: AuthRequest, res) => {
+  app.post("/api/admin/users/:userId/status", requirePermission('users.manage'), async (req: AuthRequest, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const { status } = req.body;
@@ -520,6 +750,14 @@ export async function registerRoutes(app: Express): Promise<void> {
         return res.status(400).json({ message: "Invalid status. Must be: active, blocked, or suspended" });
       }
 
+      const existingUser = await storage.getUser(userId);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (isAdminRole(existingUser.role) && !hasPermission(req.user!.role, 'roles.manage')) {
+        return res.status(403).json({ message: "Only a superadmin can change another admin's account" });
+      }
+
       const updatedUser = await storage.updateUserStatus(userId, status);
       
       if (!updatedUser) {
@@ -527,6 +765,14 @@ export async function registerRoutes(app: Express): Promise<void> {
       }
 
       console.log(`Admin ${req.user!.username} changed user ${updatedUser.username} status to: ${status}`);
+      await recordAudit(req, {
+        action: 'user.status',
+        targetType: 'user',
+        targetId: userId,
+        description: `Changed ${updatedUser.username} status from ${existingUser.status} to ${status}`,
+        before: { status: existingUser.status },
+        after: { status },
+      });
       res.json({ 
         message: `User status updated to ${status}`,
         user: {
@@ -542,7 +788,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
   // Add/Remove funds
-  app.post("/api/admin/users/:userId/funds", requireAdmin, async (req: AuthRequest, res) => {
+  app.post("/api/admin/users/:userId/funds", requirePermission('funds.manage'), async (req: AuthRequest, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const { amount, reason } = req.body;
@@ -555,7 +801,9 @@ export async function registerRoutes(app: Express): Promise<void> {
         return res.status(400).json({ message: "Amount must be a number" });
       }
 
-      const updatedPlayer = await storage.updatePlayerFunds(userId, amount);
+      const updatedPlayer = await storage.updatePlayerFunds(userId, amount, {
+        description: `${reason || 'No reason provided'} (by ${req.user!.username})`
+      });
       
       if (!updatedPlayer) {
         return res.status(404).json({ message: "Player not found for this user" });
@@ -563,6 +811,14 @@ export async function registerRoutes(app: Express): Promise<void> {
 
       const action = amount > 0 ? 'added' : 'removed';
       console.log(`Admin ${req.user!.username} ${action} ${Math.abs(amount)} chips ${amount > 0 ? 'to' : 'from'} user ${updatedPlayer.name}. Reason: ${reason || 'No reason provided'}`);
+      await recordAudit(req, {
+        action: 'user.funds',
+        targetType: 'user',
+        targetId: userId,
+        description: `${amount > 0 ? 'Added' : 'Removed'} ${Math.abs(amount)} chips ${amount > 0 ? 'to' : 'from'} ${updatedPlayer.name}. Reason: ${reason || 'No reason provided'}`,
+        before: { chips: updatedPlayer.chips - amount },
+        after: { chips: updatedPlayer.chips },
+      });
       
       res.json({ 
         message: `Successfully ${action} ${Math.abs(amount)} chips`,
@@ -581,7 +837,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
   // Change user password
-  app.post("/api/admin/users/:userId/password", requireAdmin, async (req: AuthRequest, res) => {
+  app.post("/api/admin/users/:userId/password", requirePermission('users.manage'), async (req: AuthRequest, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const { password } = req.body;
@@ -598,6 +854,9 @@ export async function registerRoutes(app: Express): Promise<void> {
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
+      if (isAdminRole(user.role) && !hasPermission(req.user!.role, 'roles.manage')) {
+        return res.status(403).json({ message: "Only a superadmin can change another admin's account" });
+      }
 
       const updatedUser = await storage.updateUserPassword(userId, password);
       
@@ -606,6 +865,12 @@ export async function registerRoutes(app: Express): Promise<void> {
       }
 
       console.log(`Admin ${req.user!.username} changed password for user ${updatedUser.username}`);
+      await recordAudit(req, {
+        action: 'user.password',
+        targetType: 'user',
+        targetId: userId,
+        description: `Reset password for ${updatedUser.username}`,
+      });
       res.json({ 
         message: "Password changed successfully",
         user: {
@@ -619,8 +884,58 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Grant an admin role, or 'user' to take admin access away
+  app.post("/api/admin/users/:userId/role", requirePermission('roles.manage'), async (req: AuthRequest, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const { role } = req.body;
+
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      if (role !== 'user' && !ADMIN_ROLES.includes(role)) {
+        return res.status(400).json({ message: `Invalid role. Must be: user, ${ADMIN_ROLES.join(', ')}` });
+      }
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
+
+      const existingUser = await storage.getUser(userId);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedUser = await storage.updateUserRole(userId, role as AdminRole | 'user');
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      console.log(`Admin ${req.user!.username} changed user ${updatedUser.username} role from ${existingUser.role} to ${role}`);
+      await recordAudit(req, {
+        action: 'user.role',
+        targetType: 'user',
+        targetId: userId,
+        description: `Changed ${updatedUser.username} role from ${existingUser.role} to ${role}`,
+        before: { role: existingUser.role },
+        after: { role },
+      });
+
+      res.json({
+        message: `${updatedUser.username} is now ${role === 'user' ? 'a player' : role}`,
+        user: {
+          id: updatedUser.id,
+          username: updatedUser.username,
+          role: updatedUser.role
+        }
+      });
+    } catch (error) {
+      console.error('Error changing user role:', error);
+      res.status(500).json({ message: "Failed to change role" });
+    }
+  });
+
   // Get detailed user stats  
-  app.get("/api/admin/users/:userId/stats", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/users/:userId/stats", requirePermission('users.view'), async (req: AuthRequest, res) => {
     try {
       const userId = parseInt(req.params.userId);
 
@@ -658,6 +973,49 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Get a user's chip ledger (most recent first)
+  app.get("/api/admin/users/:userId/ledger", requirePermission('users.view'), async (req: AuthRequest, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+
+      if (!userId || isNaN(userId)) {
+        return res.status(400).json({ message: "Valid User ID is required" });
+      }
+
+      const player = await storage.getPlayerByUserId(userId);
+      if (!player) {
+        return res.status(404).json({ message: "Player not found for this user" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const entries = await storage.getLedgerEntriesByPlayer(player.id, limit);
+
+      res.json({ playerId: player.id, chips: player.chips, entries });
+    } catch (error) {
+      console.error('Error fetching user ledger:', error);
+      res.status(500).json({ message: "Failed to fetch user ledger" });
+    }
+  });
+
+  // Compare every player's balance against the ledger and list bets on rounds that never finished
+  app.get("/api/admin/reconciliation", requirePermission('funds.manage'), async (req: AuthRequest, res) => {
+    try {
+      const staleAfterMinutes = req.query.staleAfterMinutes !== undefined
+        ? parseStaleAfterMinutes(String(req.query.staleAfterMinutes))
+        : undefined;
+
+      if (staleAfterMinutes === null) {
+        return res.status(400).json({ message: "staleAfterMinutes must be a whole number of minutes (0 or more)" });
+      }
+
+      const report = await runReconciliation({ staleAfterMinutes });
+      res.json(report);
+    } catch (error) {
+      console.error('Error running reconciliation:', error);
+      res.status(500).json({ message: "Failed to run reconciliation" });
+    }
+  });
+
   // Coin Toss API Routes
   app.get("/api/coin-toss/games/recent", async (req, res) => {
     try {
@@ -669,6 +1027,52 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Re-derive a completed coin toss from its revealed seeds
+  app.get("/api/coin-toss/games/:id/verify", async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "Invalid game ID" });
+      }
+
+      const game = await storage.getCoinTossGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      // The seed must stay secret until the round is over
+      if (game.status !== 'completed') {
+        return res.status(409).json({ message: "Round has not been revealed yet" });
+      }
+
+      if (!game.serverSeed || !game.serverSeedHash || !game.clientSeed || game.nonce === null) {
+        return res.status(404).json({ message: "This round predates provably fair seeds" });
+      }
+
+      const derivedResult = deriveCoinTossResult(game.serverSeed, game.clientSeed, game.nonce);
+      const hashMatches = hashServerSeed(game.serverSeed) === game.serverSeedHash;
+      const resultMatches = derivedResult === game.result;
+
+      res.json({
+        gameId: game.id,
+        serverSeed: game.serverSeed,
+        serverSeedHash: game.serverSeedHash,
+        clientSeed: game.clientSeed,
+        nonce: game.nonce,
+        derivedResult,
+        recordedResult: game.result,
+        hashMatches,
+        resultMatches,
+        overridden: game.overridden,
+        ...(game.overridden && { note: "An admin overrode this result, so it was not drawn from these seeds" }),
+        verified: hashMatches && resultMatches && !game.overridden
+      });
+    } catch (error) {
+      console.error('Error verifying coin toss game:', error);
+      res.status(500).json({ message: "Failed to verify coin toss game" });
+    }
+  });
+
   app.get("/api/coin-toss/games/count", async (req, res) => {
     try {
       const count = await storage.getTotalCoinTossGameCount();
@@ -679,7 +1083,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.get("/api/admin/coin-toss/house-stats", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/coin-toss/house-stats", requirePermission('analytics.view'), async (req: AuthRequest, res) => {
     try {
       const coinTossManager = (app as any).coinTossManager;
       
@@ -709,7 +1113,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.get("/api/admin/coin-toss/current-round", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/coin-toss/current-round", requirePermission('games.control'), async (req: AuthRequest, res) => {
     try {
       const coinTossManager = (app as any).coinTossManager;
       
@@ -730,7 +1134,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/admin/coin-toss/override-result", requireAdmin, async (req: AuthRequest, res) => {
+  app.post("/api/admin/coin-toss/override-result", requirePermission('games.control'), async (req: AuthRequest, res) => {
     try {
       const { gameId, overrideResult } = req.body;
       
@@ -753,6 +1157,13 @@ export async function registerRoutes(app: Express): Promise<void> {
       
       if (success) {
         console.log(`Admin ${req.user!.username} overrode coin toss result for game ${gameId} to: ${overrideResult}`);
+        await recordAudit(req, {
+          action: 'game.override_result',
+          targetType: 'coin_toss_game',
+          targetId: gameId,
+          description: `Overrode coin toss result for game ${gameId} to ${overrideResult}`,
+          after: { overrideResult },
+        });
         res.json({ 
           message: "Coin toss result override set successfully",
           gameId: gameId,
@@ -768,7 +1179,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
   // Game background upload endpoint
-  app.post("/api/admin/game-background", requireAdmin, uploadBackground.single('background'), async (req: AuthRequest, res) => {
+  app.post("/api/admin/game-background", requirePermission('games.configure'), uploadBackground.single('background'), async (req: AuthRequest, res) => {
     try {
       const { gameType } = req.body;
       
@@ -792,6 +1203,13 @@ export async function registerRoutes(app: Express): Promise<void> {
       fs.renameSync(tempPath, targetPath);
       
       console.log(`Admin ${req.user!.username} uploaded new background for ${gameType}: ${targetFilename}`);
+      await recordAudit(req, {
+        action: 'game.background',
+        targetType: 'settings',
+        targetId: gameType,
+        description: `Uploaded new ${gameType} background (${req.file.originalname})`,
+        after: { filename: targetFilename, originalName: req.file.originalname, size: req.file.size },
+      });
       
       res.json({ 
         message: "Background image uploaded successfully",
@@ -826,8 +1244,156 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Recent messages from every room chat, newest first
+  app.get("/api/admin/chat/messages", requirePermission('chat.moderate'), async (req: AuthRequest, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const messages = await storage.getRecentChatMessages(limit);
+      res.json({ messages });
+    } catch (error) {
+      console.error('Error fetching chat messages:', error);
+      res.status(500).json({ message: "Failed to fetch chat messages" });
+    }
+  });
+
+  // Remove a chat message from its room and from history
+  app.delete("/api/admin/chat/messages/:messageId", requirePermission('chat.moderate'), async (req: AuthRequest, res) => {
+    try {
+      const messageId = parseInt(req.params.messageId);
+      if (isNaN(messageId)) {
+        return res.status(400).json({ message: "Invalid message ID" });
+      }
+
+      const roomChat = (app as any).roomChat;
+      const deleted = await roomChat.deleteMessage(messageId, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      console.log(`Admin ${req.user!.username} deleted chat message ${messageId}`);
+      await recordAudit(req, {
+        action: 'chat.delete_message',
+        targetType: 'chat_message',
+        targetId: messageId,
+        description: `Deleted chat message ${messageId} in ${deleted.roomId}`,
+        before: { userId: deleted.userId, roomId: deleted.roomId, message: deleted.message },
+      });
+      res.json({ message: "Message deleted" });
+    } catch (error) {
+      console.error('Error deleting chat message:', error);
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  // Mute a user in every room chat for a number of minutes; 0 lifts the mute
+  app.post("/api/admin/chat/mutes/:userId", requirePermission('chat.moderate'), async (req: AuthRequest, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const minutes = Number(req.body.minutes);
+
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      if (!Number.isInteger(minutes) || minutes < 0 || minutes > 30 * 24 * 60) {
+        return res.status(400).json({ message: "Mute duration must be between 0 minutes and 30 days" });
+      }
+
+      const existingUser = await storage.getUser(userId);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const mutedUntil = minutes > 0 ? new Date(Date.now() + minutes * 60 * 1000) : null;
+      const updatedUser = await storage.setChatMute(userId, mutedUntil);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      console.log(`Admin ${req.user!.username} ${mutedUntil ? `muted ${updatedUser.username} in chat for ${minutes} minutes` : `unmuted ${updatedUser.username} in chat`}`);
+      await recordAudit(req, {
+        action: 'chat.mute',
+        targetType: 'user',
+        targetId: userId,
+        description: mutedUntil ? `Muted ${updatedUser.username} in chat for ${minutes} minutes` : `Unmuted ${updatedUser.username} in chat`,
+        before: { chatMutedUntil: existingUser.chatMutedUntil },
+        after: { chatMutedUntil: mutedUntil },
+      });
+      res.json({
+        message: mutedUntil ? `${updatedUser.username} is muted until ${mutedUntil.toLocaleString()}` : `${updatedUser.username} is no longer muted`,
+        chatMutedUntil: mutedUntil
+      });
+    } catch (error) {
+      console.error('Error muting user:', error);
+      res.status(500).json({ message: "Failed to update mute" });
+    }
+  });
+
+  // Deposit and withdrawal queue (admin only)
+  app.get("/api/admin/wallet-requests", requirePermission('funds.manage'), async (req: AuthRequest, res) => {
+    try {
+      const status = req.query.status as WalletRequestStatus | undefined;
+      if (status && !WALLET_REQUEST_STATUSES.includes(status)) {
+        return res.status(400).json({ message: "Unknown status" });
+      }
+
+      const requests = await storage.getWalletRequests(status);
+      res.json({ requests });
+    } catch (error) {
+      console.error('Error fetching wallet requests:', error);
+      res.status(500).json({ message: "Failed to fetch requests" });
+    }
+  });
+
+  // Approve or reject one request; approval credits or debits the player's chips
+  app.post("/api/admin/wallet-requests/:requestId/:decision", requirePermission('funds.manage'), async (req: AuthRequest, res) => {
+    try {
+      const requestId = parseInt(req.params.requestId);
+      const { decision } = req.params;
+      const note = typeof req.body.note === 'string' ? req.body.note.trim() : '';
+
+      if (isNaN(requestId)) {
+        return res.status(400).json({ message: "Invalid request ID" });
+      }
+      if (decision !== 'approve' && decision !== 'reject') {
+        return res.status(404).json({ message: "Unknown action" });
+      }
+
+      const approve = decision === 'approve';
+      const existing = await storage.getWalletRequest(requestId);
+      if (!existing) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const review = await storage.reviewWalletRequest(requestId, req.user!.id, approve, note);
+      if (!review.ok) {
+        const status = review.reason === 'not_found' ? 404 : review.reason === 'already_reviewed' ? 409 : 400;
+        return res.status(status).json({ message: review.message });
+      }
+      const { request, updatedPlayer } = review;
+
+      console.log(`Admin ${req.user!.username} ${approve ? 'approved' : 'rejected'} ${request.requestType} request ${requestId} for ${request.amount} chips${note ? `. Note: ${note}` : ''}`);
+      await recordAudit(req, {
+        action: approve ? 'wallet.approve' : 'wallet.reject',
+        targetType: 'wallet_request',
+        targetId: requestId,
+        description: `${approve ? 'Approved' : 'Rejected'} ${request.requestType} of ${request.amount} chips for user ${request.userId}${note ? `. Note: ${note}` : ''}`,
+        before: { status: existing.status },
+        after: { status: request.status, chips: updatedPlayer?.chips ?? null },
+      });
+      res.json({
+        message: `${request.requestType === 'deposit' ? 'Deposit' : 'Withdrawal'} request ${approve ? 'approved' : 'rejected'}`,
+        request,
+        chips: updatedPlayer?.chips
+      });
+    } catch (error) {
+      console.error('Error reviewing wallet request:', error);
+      const message = error instanceof Error ? error.message : "Failed to review request";
+      res.status(500).json({ message });
+    }
+  });
+
   // Get deposit settings (admin)
-  app.get("/api/admin/deposit-settings", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/deposit-settings", requirePermission('deposit_settings.manage'), async (req: AuthRequest, res) => {
     try {
       const settings = await storage.getDepositSettings();
       res.json(settings || { whatsappNumber: '', depositMessage: '' });
@@ -838,7 +1404,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
   // Update deposit settings (admin only)
-  app.post("/api/admin/deposit-settings", requireAdmin, async (req: AuthRequest, res) => {
+  app.post("/api/admin/deposit-settings", requirePermission('deposit_settings.manage'), async (req: AuthRequest, res) => {
     try {
       const { whatsappNumber, depositMessage } = req.body;
       
@@ -846,9 +1412,18 @@ export async function registerRoutes(app: Express): Promise<void> {
         return res.status(400).json({ message: "WhatsApp number and message are required" });
       }
 
+      const previous = await storage.getDepositSettings();
       const settings = await storage.updateDepositSettings({ whatsappNumber, depositMessage });
       
       console.log(`Admin ${req.user!.username} updated deposit settings`);
+      await recordAudit(req, {
+        action: 'settings.deposit',
+        targetType: 'settings',
+        targetId: 'deposit',
+        description: 'Updated deposit settings',
+        before: previous ? { whatsappNumber: previous.whatsappNumber, depositMessage: previous.depositMessage } : null,
+        after: { whatsappNumber, depositMessage },
+      });
       
       res.json({ 
         message: "Deposit settings updated successfully",
@@ -860,8 +1435,136 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Managers hold the settings in effect, including defaults for games never configured
+  const getRoundManager = (gameType: GameSettingsType): RoundEngine<unknown> | undefined =>
+    gameType === 'lucky7' ? (app as any).gameManager : (app as any).coinTossManager;
+
+  // Get round timings and table limits for each countdown game (admin)
+  app.get("/api/admin/game-settings", requirePermission('games.configure'), async (req: AuthRequest, res) => {
+    try {
+      const saved = await storage.getAllGameSettings();
+      const settings = GAME_SETTINGS_TYPES.map(gameType => {
+        const manager = getRoundManager(gameType);
+        const row = saved.find(s => s.gameType === gameType);
+        return {
+          gameType,
+          betTypes: manager?.getBetTypes() ?? [],
+          ...(manager?.getTimings() ?? DEFAULT_ROUND_TIMINGS),
+          ...(manager?.getLimits() ?? { betLimits: {}, maxRoundWager: null }),
+          updatedAt: row?.updatedAt ?? null
+        };
+      });
+      res.json({ settings });
+    } catch (error) {
+      console.error('Error fetching game settings:', error);
+      res.status(500).json({ message: "Failed to fetch game settings" });
+    }
+  });
+
+  // Update round timings for one game (admin only) - applies from the next round
+  app.post("/api/admin/game-settings/:gameType", requirePermission('games.configure'), async (req: AuthRequest, res) => {
+    try {
+      const gameType = req.params.gameType as GameSettingsType;
+      if (!GAME_SETTINGS_TYPES.includes(gameType)) {
+        return res.status(404).json({ message: "Unknown game" });
+      }
+
+      const bettingSeconds = Number(req.body.bettingSeconds);
+      const lockSeconds = Number(req.body.lockSeconds);
+      const resultDisplaySeconds = Number(req.body.resultDisplaySeconds);
+
+      if (!Number.isInteger(bettingSeconds) || bettingSeconds < 5 || bettingSeconds > 300) {
+        return res.status(400).json({ message: "Betting duration must be a whole number between 5 and 300 seconds" });
+      }
+      if (!Number.isInteger(lockSeconds) || lockSeconds < 1 || lockSeconds > 60) {
+        return res.status(400).json({ message: "Lock period must be a whole number between 1 and 60 seconds" });
+      }
+      if (!Number.isInteger(resultDisplaySeconds) || resultDisplaySeconds < 1 || resultDisplaySeconds > 60) {
+        return res.status(400).json({ message: "Result display time must be a whole number between 1 and 60 seconds" });
+      }
+
+      const previousTimings = getRoundManager(gameType)?.getTimings() ?? null;
+      const settings = await storage.updateGameSettings({ gameType, bettingSeconds, lockSeconds, resultDisplaySeconds });
+
+      getRoundManager(gameType)?.updateTimings(settings);
+
+      console.log(`Admin ${req.user!.username} updated ${gameType} round timings: ${bettingSeconds}s betting, ${lockSeconds}s locked, ${resultDisplaySeconds}s result display`);
+      await recordAudit(req, {
+        action: 'settings.game_timings',
+        targetType: 'settings',
+        targetId: gameType,
+        description: `Updated ${gameType} round timings`,
+        before: previousTimings ? { ...previousTimings } : null,
+        after: { bettingSeconds, lockSeconds, resultDisplaySeconds },
+      });
+
+      res.json({
+        message: "Game settings updated successfully. Changes apply from the next round.",
+        settings
+      });
+    } catch (error) {
+      console.error('Error updating game settings:', error);
+      res.status(500).json({ message: "Failed to update game settings" });
+    }
+  });
+
+  // Update stake limits for one game (admin only) - enforced from the next bet
+  app.post("/api/admin/game-settings/:gameType/limits", requirePermission('games.configure'), async (req: AuthRequest, res) => {
+    try {
+      const gameType = req.params.gameType as GameSettingsType;
+      const manager = GAME_SETTINGS_TYPES.includes(gameType) ? getRoundManager(gameType) : undefined;
+      if (!manager) {
+        return res.status(404).json({ message: "Unknown game" });
+      }
+
+      const isStake = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+      const betLimits: BetTypeLimits = {};
+      const requested = req.body.betLimits ?? {};
+      if (typeof requested !== 'object' || Array.isArray(requested)) {
+        return res.status(400).json({ message: "Bet limits must be an object keyed by bet type" });
+      }
+      for (const [betType, limit] of Object.entries(requested as Record<string, any>)) {
+        if (!manager.getBetTypes().includes(betType)) {
+          return res.status(400).json({ message: `Unknown bet type: ${betType}` });
+        }
+        if (!isStake(limit?.minBet) || !isStake(limit?.maxBet) || limit.minBet > limit.maxBet) {
+          return res.status(400).json({ message: `Limits for ${betType} must be whole numbers with min no greater than max` });
+        }
+        betLimits[betType] = { minBet: limit.minBet, maxBet: limit.maxBet };
+      }
+
+      const maxRoundWager = req.body.maxRoundWager ?? null;
+      if (maxRoundWager !== null && !isStake(maxRoundWager)) {
+        return res.status(400).json({ message: "Per-round maximum must be a positive whole number" });
+      }
+
+      const previousLimits = manager.getLimits();
+      const settings = await storage.updateGameSettings({ gameType, betLimits, maxRoundWager });
+      manager.updateLimits({ betLimits, maxRoundWager });
+
+      console.log(`Admin ${req.user!.username} updated ${gameType} table limits: ${JSON.stringify(betLimits)}, per-round max ${maxRoundWager ?? 'none'}`);
+      await recordAudit(req, {
+        action: 'settings.table_limits',
+        targetType: 'settings',
+        targetId: gameType,
+        description: `Updated ${gameType} table limits`,
+        before: { ...previousLimits },
+        after: { betLimits, maxRoundWager },
+      });
+
+      res.json({
+        message: "Table limits updated successfully",
+        settings
+      });
+    } catch (error) {
+      console.error('Error updating table limits:', error);
+      res.status(500).json({ message: "Failed to update table limits" });
+    }
+  });
+
   // Data Reset endpoint (admin only)
-  app.post("/api/admin/reset-data", requireAdmin, async (req: AuthRequest, res) => {
+  app.post("/api/admin/reset-data", requirePermission('data.reset'), async (req: AuthRequest, res) => {
     try {
       const { resetType } = req.body;
       
@@ -895,14 +1598,62 @@ export async function registerRoutes(app: Express): Promise<void> {
           res.json({ message: "Complete database has been successfully reset" });
           break;
       }
+
+      await recordAudit(req, {
+        action: 'data.reset',
+        targetType: 'database',
+        targetId: resetType,
+        description: `Reset data: ${resetType}`,
+      });
     } catch (error) {
       console.error('Error resetting data:', error);
       res.status(500).json({ message: "Failed to reset data" });
     }
   });
 
+  // Audit trail of admin actions, newest first; format=csv exports every matching row
+  app.get("/api/admin/audit-logs", requirePermission('audit.view'), async (req: AuthRequest, res) => {
+    try {
+      const parseDate = (value: unknown) => {
+        if (typeof value !== 'string' || !value) return undefined;
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date;
+      };
+      const from = parseDate(req.query.from);
+      const to = parseDate(req.query.to);
+      if (from === null || to === null) {
+        return res.status(400).json({ message: "Invalid date filter" });
+      }
+
+      const filters = {
+        action: (req.query.action as string) || undefined,
+        actor: (req.query.actor as string)?.trim() || undefined,
+        targetType: (req.query.targetType as string) || undefined,
+        targetId: (req.query.targetId as string) || undefined,
+        from,
+        to,
+      };
+
+      if (req.query.format === 'csv') {
+        const { events } = await storage.getAuditEvents(filters, AUDIT_EXPORT_MAX_ROWS);
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+        return res.send(auditEventsToCsv(events));
+      }
+
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 25, 1), 100);
+      const { events, total } = await storage.getAuditEvents(filters, pageSize, (page - 1) * pageSize);
+
+      res.json({ events, total, page, pageSize });
+    } catch (error) {
+      console.error('Error fetching audit logs:', error);
+      res.status(500).json({ message: "Failed to fetch audit logs" });
+    }
+  });
+
   // Analytics endpoints
-  app.get("/api/admin/analytics/overview", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/analytics/overview", requirePermission('analytics.view'), async (req: AuthRequest, res) => {
     try {
       // Get all users and games
       const users = await storage.getUsersWithPlayerInfo();
@@ -951,7 +1702,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.get("/api/admin/analytics/game-performance", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/analytics/game-performance", requirePermission('analytics.view'), async (req: AuthRequest, res) => {
     try {
       const lucky7Games = await storage.getGameHistory(100);
       const coinTossGames = await storage.getCoinTossGameHistory(100);
@@ -989,7 +1740,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.get("/api/admin/analytics/player-activity", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/analytics/player-activity", requirePermission('analytics.view'), async (req: AuthRequest, res) => {
     try {
       const users = await storage.getUsersWithPlayerInfo();
       
@@ -1028,7 +1779,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.get("/api/admin/analytics/top-players", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/analytics/top-players", requirePermission('analytics.view'), async (req: AuthRequest, res) => {
     try {
       const users = await storage.getUsersWithPlayerInfo();
       
@@ -1070,7 +1821,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.get("/api/admin/analytics/revenue-trend", requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/analytics/revenue-trend", requirePermission('analytics.view'), async (req: AuthRequest, res) => {
     try {
       const gameManager = (app as any).gameManager;
       const coinTossManager = (app as any).coinTossManager;
@@ -1,6 +1,6 @@
 import { 
   users, players, games, bets, chatMessages, andarBaharMatches,
-  coinTossGames, coinTossBets, depositSettings,
+  coinTossGames, coinTossBets, depositSettings, gameSettings, ledgerEntries, playerLimits, walletRequests, auditEvents,
   type User, type InsertUser,
   type Player, type InsertPlayer,
   type Game, type InsertGame,
@@ -9,12 +9,18 @@ import {
   type AndarBaharMatch, type InsertAndarBaharMatch,
   type CoinTossGame, type InsertCoinTossGame,
   type CoinTossBet, type InsertCoinTossBet,
-  type DepositSettings, type InsertDepositSettings
+  type DepositSettings, type InsertDepositSettings,
+  type GameSettings, type InsertGameSettings, type GameSettingsType,
+  type LedgerEntry, type InsertLedgerEntry, type LedgerEntryType,
+  type PlayerLimit, type PlayerLimitType, type PlayerLimitPeriod, type SelfExclusionPeriod,
+  type WalletRequest, type WalletRequestType, type WalletRequestStatus,
+  type AuditEvent, type InsertAuditEvent
 } from "@shared/schema";
 import { drizzle } from "drizzle-orm/node-postgres";
 import { Pool } from "pg";
-import { eq, desc, sql, and } from "drizzle-orm";
+import { eq, desc, sql, and, lt, lte, gte, inArray, isNull, type SQL } from "drizzle-orm";
 import bcrypt from "bcrypt";
+import type { AdminRole } from "../shared/permissions";
 
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
@@ -24,6 +30,149 @@ const pool = new Pool({
 });
 const db = drizzle(pool);
 
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Checked under the player row lock, so concurrent bets cannot slip past the cap together
+function assertWithinRoundWager(alreadyStaked: number, betAmount: number, maxRoundWager: number) {
+  if (alreadyStaked + betAmount > maxRoundWager) {
+    const remaining = Math.max(0, maxRoundWager - alreadyStaked);
+    throw new Error(`Round limit reached: you can stake at most ${maxRoundWager} per round (${remaining} remaining)`);
+  }
+}
+
+// Limits measure a rolling window ending now
+const PLAYER_LIMIT_PERIOD_MS: Record<PlayerLimitPeriod, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+  monthly: 30 * 24 * 60 * 60 * 1000,
+};
+
+// How long a raised or removed limit waits before it applies
+export const PLAYER_LIMIT_COOLING_OFF_MS = 24 * 60 * 60 * 1000;
+
+// Only deposits the player asked for (approved wallet requests) count towards a deposit limit;
+// admin credits are corrections, recorded in the audit log instead
+const DEPOSIT_ENTRY_TYPES: LedgerEntryType[] = ['deposit'];
+// Stakes less refunds count as wagered; every gameplay movement nets into the loss
+const WAGER_ENTRY_TYPES: LedgerEntryType[] = ['bet_stake', 'match_stake', 'bet_refund'];
+const GAMEPLAY_ENTRY_TYPES: LedgerEntryType[] = ['bet_stake', 'bet_payout', 'bet_refund', 'match_stake', 'match_settlement'];
+
+// The amount in force at `now`, or null when the limit has been removed
+function limitInForce(limit: PlayerLimit, now: Date): number | null {
+  if (limit.pendingEffectiveAt && limit.pendingEffectiveAt <= now) {
+    return limit.pendingAmount;
+  }
+  return limit.amount;
+}
+
+const SELF_EXCLUSION_PERIOD_MS: Record<Exclude<SelfExclusionPeriod, 'permanent'>, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+// The self-exclusion still running at `now`; expired ones lift without anything being written
+export function activeSelfExclusion(user: Pick<User, 'selfExcludedAt' | 'selfExcludedUntil'>, now: Date = new Date()): { until: Date | null } | null {
+  if (!user.selfExcludedAt) return null;
+  if (user.selfExcludedUntil && user.selfExcludedUntil <= now) return null;
+  return { until: user.selfExcludedUntil };
+}
+
+export function describeSelfExclusion(exclusion: { until: Date | null }): string {
+  return exclusion.until
+    ? `You have excluded yourself from play until ${exclusion.until.toLocaleString()}`
+    : 'You have permanently excluded yourself from play';
+}
+
+// Chips held for pending withdrawals stay in the balance but cannot be staked
+function assertAvailableChips(chips: number, heldChips: number, amount: number) {
+  if (chips - heldChips < amount) {
+    throw new Error(heldChips > 0 ? `Insufficient chips (${heldChips} held for a pending withdrawal)` : 'Insufficient chips');
+  }
+}
+
+// A bet whose round never reached 'completed'
+export interface UnsettledBet {
+  game: 'lucky7' | 'coin_toss';
+  betId: number;
+  gameId: number;
+  playerId: number;
+  betAmount: number;
+  betType: string;
+  gameCreatedAt: Date;
+}
+
+// Outcome of voiding a round that never completed
+export interface VoidedRound {
+  refundedBets: number;
+  refundedStake: number;
+  settledBets: number; // Already resolved before the round was interrupted; left as they are
+}
+
+// A chat message as the room sees it
+export interface ChatHistoryMessage {
+  id: number;
+  roomId: string;
+  userId: number;
+  username: string;
+  message: string;
+  createdAt: Date;
+}
+
+// A limit as the player sees it, with what has counted against it so far
+export interface PlayerLimitStatus {
+  limitType: PlayerLimitType;
+  period: PlayerLimitPeriod;
+  amount: number | null;
+  used: number;
+  pendingAmount: number | null;
+  pendingEffectiveAt: Date | null;
+}
+
+// A wallet request as the admin queue shows it
+export interface WalletRequestWithUser extends WalletRequest {
+  username: string;
+}
+
+// Filters for the audit trail; every field narrows the result
+export interface AuditEventFilters {
+  action?: string;
+  actor?: string; // Username, matched case-insensitively
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// What moderators see: the message plus whether its author is currently muted
+export interface ModeratedChatMessage extends ChatHistoryMessage {
+  chatMutedUntil: Date | null;
+}
+
+// A review is either applied or refused for a reason the admin can act on
+export type WalletReviewResult =
+  | { ok: true; request: WalletRequest; updatedPlayer?: Player }
+  | { ok: false; reason: 'not_found' | 'already_reviewed' | 'deposit_limit' | 'insufficient_chips'; message: string };
+
+// Escrow fails as a whole when either player cannot cover the stake or it would breach their limits
+export type AndarBaharEscrowResult =
+  | { ok: true; match: AndarBaharMatch }
+  | { ok: false; refusals: AndarBaharEscrowRefusal[] };
+
+export interface AndarBaharEscrowRefusal {
+  playerId: number;
+  reason: string; // Shown to that player only
+}
+
+// Why a balance moved; defaults depend on the calling method
+export interface LedgerEntryDetails {
+  entryType?: LedgerEntryType;
+  counterAccount?: string;
+  referenceType?: string;
+  referenceId?: string;
+  description?: string;
+}
+
 // modify the interface with any CRUD methods
 // you might need
 
@@ -33,9 +182,11 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   getAllUsers(): Promise<User[]>;
-  createAdminUser(user: InsertUser): Promise<User>;
+  createAdminUser(user: InsertUser, role?: AdminRole): Promise<User>;
   updateUserStatus(userId: number, status: string): Promise<User | undefined>;
+  updateUserRole(userId: number, role: AdminRole | 'user'): Promise<User | undefined>;
   updateUserLastLogin(userId: number): Promise<User | undefined>;
+  selfExcludeUser(userId: number, period: SelfExclusionPeriod): Promise<User | undefined>;
   updateUserPassword(userId: number, password: string): Promise<User | undefined>;
   getUsersWithPlayerInfo(): Promise<Array<User & { playerInfo?: Player }>>;
   
@@ -43,10 +194,11 @@ export interface IStorage {
   getPlayer(id: number): Promise<Player | undefined>;
   getPlayerBySocketId(socketId: string): Promise<Player | undefined>;
   createPlayer(player: InsertPlayer): Promise<Player>;
-  updatePlayerChips(playerId: number, chips: number): Promise<Player | undefined>;
+  updatePlayerChips(playerId: number, chips: number, details?: LedgerEntryDetails): Promise<Player | undefined>;
   updatePlayerStats(playerId: number, wins: number, losses: number): Promise<Player | undefined>;
   updatePlayerOnlineStatus(userId: number, isOnline: boolean): Promise<Player | undefined>;
-  updatePlayerFunds(userId: number, chipsToAdd: number): Promise<Player | undefined>;
+  updatePlayerFunds(userId: number, chipsToAdd: number, details?: LedgerEntryDetails): Promise<Player | undefined>;
+  adjustPlayerChips(playerId: number, chipsToAdd: number, details?: LedgerEntryDetails): Promise<Player | undefined>;
   getPlayerStatsByUserId(userId: number): Promise<{
     chips: number;
     totalWins: number;
@@ -57,24 +209,37 @@ export interface IStorage {
   
   // Games
   createGame(game: InsertGame): Promise<Game>;
-  updateGameCard(gameId: number, cardNumber: number, cardColor: string): Promise<Game | undefined>;
+  getGame(gameId: number): Promise<Game | undefined>;
+  updateGameCard(gameId: number, cardNumber: number, cardColor: string, overridden?: boolean): Promise<Game | undefined>;
   markGameCompleted(gameId: number): Promise<Game | undefined>;
-  getGameHistory(limit?: number): Promise<Game[]>;
-  getTotalGameCount(): Promise<number>;
+  getUnfinishedGameIds(): Promise<number[]>;
+  voidGame(gameId: number, reason: string): Promise<VoidedRound>;
+  getGameHistory(limit?: number, roomId?: string): Promise<Game[]>;
+  getTotalGameCount(roomId?: string): Promise<number>;
   getGamesByRoom(roomId: string, limit?: number): Promise<Game[]>;
   getLastCompletedGameBettingStats(roomId: string): Promise<{ totalBets: number; betsByType: { red: number; black: number; low: number; high: number; lucky7: number } } | null>;
   
   // Bets
   createBet(bet: InsertBet): Promise<Bet>;
   getBetsByGame(gameId: number): Promise<Bet[]>;
+  getBetByClientBetId(playerId: number, clientBetId: string): Promise<Bet | undefined>;
+  getBetsByPlayerAndGame(playerId: number, gameId: number): Promise<Bet[]>;
   getBetsByPlayer(playerId: number, limit?: number): Promise<(Bet & { gameStatus: string })[]>;
+  refundBet(betId: number): Promise<Player | undefined>;
+  lockBets(betIds: number[]): Promise<void>;
   
   // Chat Messages
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
-  getChatHistory(roomId: string, limit?: number): Promise<ChatMessage[]>;
+  getChatHistory(roomId: string, limit?: number): Promise<ChatHistoryMessage[]>;
+  getRecentChatMessages(limit?: number): Promise<ModeratedChatMessage[]>;
+  deleteChatMessage(messageId: number, deletedBy: number): Promise<ChatMessage | undefined>;
+  setChatMute(userId: number, mutedUntil: Date | null): Promise<User | undefined>;
   
   // Andar Bahar Matches
   createAndarBaharMatch(match: Partial<InsertAndarBaharMatch>): Promise<AndarBaharMatch>;
+  createEscrowedAndarBaharMatch(match: Partial<InsertAndarBaharMatch> & { matchId: string; dealerPlayerId: number; guesserPlayerId: number; betAmount: number }): Promise<AndarBaharEscrowResult>;
+  settleAndarBaharMatch(matchId: string, winnerPlayerId: number, winningSide: 'andar' | 'bahar' | null): Promise<AndarBaharMatch>;
+  cancelAndarBaharMatch(matchId: string, reason: string): Promise<AndarBaharMatch | undefined>;
   getAndarBaharMatch(matchId: string): Promise<AndarBaharMatch | undefined>;
   updateAndarBaharMatch(matchId: string, updates: Partial<AndarBaharMatch>): Promise<AndarBaharMatch | undefined>;
   getActiveAndarBaharMatches(): Promise<AndarBaharMatch[]>;
@@ -82,8 +247,11 @@ export interface IStorage {
   
   // Coin Toss Games
   createCoinTossGame(game: InsertCoinTossGame): Promise<CoinTossGame>;
-  updateCoinTossResult(gameId: number, result: string): Promise<CoinTossGame | undefined>;
+  getCoinTossGame(gameId: number): Promise<CoinTossGame | undefined>;
+  updateCoinTossResult(gameId: number, result: string, overridden?: boolean): Promise<CoinTossGame | undefined>;
   markCoinTossGameCompleted(gameId: number): Promise<CoinTossGame | undefined>;
+  getUnfinishedCoinTossGameIds(): Promise<number[]>;
+  voidCoinTossGame(gameId: number, reason: string): Promise<VoidedRound>;
   getCoinTossGameHistory(limit?: number): Promise<CoinTossGame[]>;
   getTotalCoinTossGameCount(): Promise<number>;
   getLastCompletedCoinTossGameBettingStats(roomId: string): Promise<{ totalBets: number; betsByType: { heads: number; tails: number } } | null>;
@@ -91,20 +259,55 @@ export interface IStorage {
   // Coin Toss Bets
   createCoinTossBet(bet: InsertCoinTossBet): Promise<CoinTossBet>;
   getCoinTossBetsByGame(gameId: number): Promise<CoinTossBet[]>;
-  placeCoinTossBet(playerId: number, betAmount: number, betType: string, gameId: number): Promise<{ bet: CoinTossBet; updatedPlayer: Player }>;
-  resolveCoinTossBet(betId: number, won: boolean, winAmount: number): Promise<{ bet: CoinTossBet; updatedPlayer?: Player }>;
+  getCoinTossBetByClientBetId(playerId: number, clientBetId: string): Promise<CoinTossBet | undefined>;
+  placeCoinTossBet(playerId: number, betAmount: number, betType: string, gameId: number, clientBetId?: string, maxRoundWager?: number): Promise<{ bet: CoinTossBet; updatedPlayer: Player; duplicate: boolean }>;
+  resolveCoinTossBet(betId: number, won: boolean, winAmount: number): Promise<{ bet?: CoinTossBet; updatedPlayer?: Player }>;
+  refundCoinTossBet(betId: number): Promise<Player | undefined>;
+  lockCoinTossBets(betIds: number[]): Promise<void>;
+  
+  // Ledger
+  getLedgerEntriesByPlayer(playerId: number, limit?: number): Promise<LedgerEntry[]>;
+  getLedgerTotalsByPlayer(): Promise<Array<{ playerId: number; balance: number; entryCount: number }>>;
+  recordMissingOpeningBalances(): Promise<number>;
+  
+  // Reconciliation
+  getAllPlayers(): Promise<Player[]>;
+  getBetsOnUnfinishedGames(startedBefore: Date): Promise<UnsettledBet[]>;
   
   // Authentication
   verifyUserPassword(username: string, password: string): Promise<User | null>;
   
   // Advanced betting operations
-  placeBet(playerId: number, betAmount: number, betType: string, betValue: string | null, gameId: number): Promise<{ bet: Bet; updatedPlayer: Player }>;
-  resolveBet(betId: number, won: boolean, winAmount: number): Promise<{ bet: Bet; updatedPlayer?: Player }>;
+  placeBet(playerId: number, betAmount: number, betType: string, betValue: string | null, gameId: number, clientBetId?: string, maxRoundWager?: number): Promise<{ bet: Bet; updatedPlayer: Player; duplicate: boolean }>;
+  resolveBet(betId: number, won: boolean, winAmount: number): Promise<{ bet?: Bet; updatedPlayer?: Player }>;
+  
+  // Player Limits
+  getPlayerLimits(userId: number, playerId?: number): Promise<PlayerLimitStatus[]>;
+  setPlayerLimit(userId: number, limitType: PlayerLimitType, period: PlayerLimitPeriod, amount: number | null): Promise<{ limit?: PlayerLimit; immediate: boolean }>;
+  getPlayerLimitBreach(userId: number, playerId: number, kind: 'stake' | 'deposit', amount: number): Promise<string | null>;
+  
+  // Wallet Requests
+  createWalletRequest(userId: number, requestType: WalletRequestType, amount: number, reference: string): Promise<WalletRequest>;
+  getWalletRequest(requestId: number): Promise<WalletRequest | undefined>;
+  getWalletRequestsByUser(userId: number, limit?: number): Promise<WalletRequest[]>;
+  getWalletRequests(status?: WalletRequestStatus, limit?: number): Promise<WalletRequestWithUser[]>;
+  reviewWalletRequest(requestId: number, reviewerId: number, approve: boolean, note?: string): Promise<WalletReviewResult>;
+  cancelWalletRequest(requestId: number, userId: number): Promise<WalletRequest | undefined>;
+  getHeldChips(playerId: number): Promise<number>;
+  
+  // Audit Events
+  recordAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filters: AuditEventFilters, limit: number, offset?: number): Promise<{ events: AuditEvent[]; total: number }>;
   
   // Deposit Settings
   getDepositSettings(): Promise<DepositSettings | undefined>;
   updateDepositSettings(settings: InsertDepositSettings): Promise<DepositSettings>;
   
+  // Game Settings
+  getGameSettings(gameType: GameSettingsType): Promise<GameSettings | undefined>;
+  getAllGameSettings(): Promise<GameSettings[]>;
+  updateGameSettings(settings: InsertGameSettings): Promise<GameSettings>;
+  
   // Data Reset
   resetAllGameData(): Promise<void>;
   resetAllUserData(): Promise<void>;
@@ -146,17 +349,25 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async createAdminUser(user: InsertUser): Promise<User> {
+  async createAdminUser(user: InsertUser, role: AdminRole = 'superadmin'): Promise<User> {
     // Hash password before storing
     const hashedPassword = await bcrypt.hash(user.password, 10);
     const result = await db.insert(users).values({
       ...user,
       password: hashedPassword,
-      role: 'admin'
+      role
     }).returning();
     return result[0];
   }
 
+  async updateUserRole(userId: number, role: AdminRole | 'user'): Promise<User | undefined> {
+    const result = await db.update(users)
+      .set({ role })
+      .where(eq(users.id, userId))
+      .returning();
+    return result[0];
+  }
+
   async updateUserStatus(userId: number, status: string): Promise<User | undefined> {
     const result = await db.update(users)
       .set({ status })
@@ -165,6 +376,29 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Can only lengthen a running exclusion, never shorten it
+  async selfExcludeUser(userId: number, period: SelfExclusionPeriod): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const user = await tx.select().from(users)
+        .where(eq(users.id, userId))
+        .for('update');
+      if (!user[0]) return undefined;
+
+      const now = new Date();
+      const until = period === 'permanent' ? null : new Date(now.getTime() + SELF_EXCLUSION_PERIOD_MS[period]);
+      const running = activeSelfExclusion(user[0], now);
+      if (running && (running.until === null || (until !== null && until <= running.until))) {
+        return user[0];
+      }
+
+      const result = await tx.update(users)
+        .set({ selfExcludedAt: now, selfExcludedUntil: until })
+        .where(eq(users.id, userId))
+        .returning();
+      return result[0];
+    });
+  }
+
   async updateUserLastLogin(userId: number): Promise<User | undefined> {
     const result = await db.update(users)
       .set({ lastLogin: new Date() })
@@ -192,6 +426,9 @@ export class DatabaseStorage implements IStorage {
         password: users.password,
         role: users.role,
         status: users.status,
+        chatMutedUntil: users.chatMutedUntil,
+        selfExcludedAt: users.selfExcludedAt,
+        selfExcludedUntil: users.selfExcludedUntil,
         lastLogin: users.lastLogin,
         createdAt: users.createdAt,
         // Player fields
@@ -213,6 +450,9 @@ export class DatabaseStorage implements IStorage {
       password: row.password,
       role: row.role,
       status: row.status,
+      chatMutedUntil: row.chatMutedUntil,
+      selfExcludedAt: row.selfExcludedAt,
+      selfExcludedUntil: row.selfExcludedUntil,
       lastLogin: row.lastLogin,
       createdAt: row.createdAt,
       playerInfo: row.playerId ? {
@@ -256,8 +496,22 @@ export class DatabaseStorage implements IStorage {
     if (existing) {
       return existing;
     }
-    const result = await db.insert(players).values(player).returning();
-    return result[0];
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(players).values(player).returning();
+
+      if (result[0].chips > 0) {
+        await this.recordLedgerEntry(tx, {
+          playerId: result[0].id,
+          entryType: 'admin_credit',
+          amount: result[0].chips,
+          balanceAfter: result[0].chips,
+          counterAccount: 'cashier',
+          description: 'Opening balance',
+        });
+      }
+
+      return result[0];
+    });
   }
   
   async createOrUpdatePlayerByUserId(userId: number, socketId: string, name: string): Promise<Player> {
@@ -286,20 +540,88 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async updatePlayerChips(playerId: number, chips: number): Promise<Player | undefined> {
+  async updatePlayerChips(playerId: number, chips: number, details: LedgerEntryDetails = {}): Promise<Player | undefined> {
     if (chips < 0) {
       throw new Error('Chip balance cannot be negative');
     }
-    const result = await db.update(players)
-      .set({ chips, updatedAt: new Date() })
+    return await db.transaction(async (tx) => {
+      const player = await tx.select().from(players)
+        .where(eq(players.id, playerId))
+        .for('update');
+
+      if (!player[0]) {
+        return undefined;
+      }
+
+      const result = await tx.update(players)
+        .set({ chips, updatedAt: new Date() })
+        .where(eq(players.id, playerId))
+        .returning();
+
+      const amount = chips - player[0].chips;
+      if (amount !== 0) {
+        await this.recordLedgerEntry(tx, {
+          playerId,
+          entryType: details.entryType || (amount > 0 ? 'admin_credit' : 'admin_debit'),
+          amount,
+          balanceAfter: chips,
+          counterAccount: details.counterAccount || 'cashier',
+          referenceType: details.referenceType,
+          referenceId: details.referenceId,
+          description: details.description,
+        });
+      }
+
+      return result[0];
+    });
+  }
+
+  // Every write to players.chips goes through a transaction that also records one of these
+  private async recordLedgerEntry(tx: DbTransaction, entry: InsertLedgerEntry): Promise<void> {
+    await tx.insert(ledgerEntries).values(entry);
+  }
+
+  // Credit a stake back to its player as a 'bet_refund' ledger entry
+  private async returnStake(tx: DbTransaction, playerId: number, amount: number, details: Required<Pick<LedgerEntryDetails, 'referenceType' | 'referenceId' | 'description'>> & Pick<LedgerEntryDetails, 'counterAccount'>): Promise<void> {
+    const player = await tx.select().from(players)
+      .where(eq(players.id, playerId))
+      .for('update');
+
+    if (!player[0]) {
+      throw new Error('Player not found');
+    }
+
+    const updatedPlayer = await tx.update(players)
+      .set({
+        chips: player[0].chips + amount,
+        updatedAt: new Date()
+      })
       .where(eq(players.id, playerId))
       .returning();
-    return result[0];
+
+    await this.recordLedgerEntry(tx, {
+      playerId,
+      entryType: 'bet_refund',
+      amount,
+      balanceAfter: updatedPlayer[0].chips,
+      counterAccount: 'house',
+      ...details,
+    });
   }
   
   // Atomic betting operation with transaction
-  async placeBet(playerId: number, betAmount: number, betType: string, betValue: string | null, gameId: number): Promise<{ bet: Bet; updatedPlayer: Player }> {
+  // A repeated clientBetId returns the original bet without deducting again
+  async placeBet(playerId: number, betAmount: number, betType: string, betValue: string | null, gameId: number, clientBetId?: string, maxRoundWager?: number): Promise<{ bet: Bet; updatedPlayer: Player; duplicate: boolean }> {
     return await db.transaction(async (tx) => {
+      // Locked before the player, in the same order as voidGame, so a void cannot commit
+      // between this check and the stake
+      const game = await tx.select({ status: games.status }).from(games)
+        .where(eq(games.id, gameId))
+        .for('share');
+      if (game[0]?.status !== 'in_progress') {
+        throw new Error('Betting window closed');
+      }
+
       // Lock player row and check balance
       const player = await tx.select().from(players)
         .where(eq(players.id, playerId))
@@ -308,9 +630,28 @@ export class DatabaseStorage implements IStorage {
       if (!player[0]) {
         throw new Error('Player not found');
       }
+
+      // The player row lock serializes retries, so this check cannot race
+      if (clientBetId) {
+        const existing = await tx.select().from(bets)
+          .where(and(eq(bets.playerId, playerId), eq(bets.clientBetId, clientBetId)));
+        if (existing[0]) {
+          return { bet: existing[0], updatedPlayer: player[0], duplicate: true };
+        }
+      }
       
-      if (player[0].chips < betAmount) {
-        throw new Error('Insufficient chips');
+      assertAvailableChips(player[0].chips, await this.heldChips(tx, playerId), betAmount);
+
+      const limitBreach = await this.findPlayerLimitBreach(tx, player[0].userId, playerId, 'stake', betAmount);
+      if (limitBreach) {
+        throw new Error(limitBreach);
+      }
+
+      if (maxRoundWager !== undefined) {
+        const staked = await tx.select({ total: sql<number>`coalesce(sum(${bets.betAmount}), 0)::int` })
+          .from(bets)
+          .where(and(eq(bets.playerId, playerId), eq(bets.gameId, gameId), isNull(bets.refundedAt)));
+        assertWithinRoundWager(staked[0].total, betAmount, maxRoundWager);
       }
       
       // Create the bet (outcome will be determined later)
@@ -322,6 +663,7 @@ export class DatabaseStorage implements IStorage {
         betValue,
         won: false, // Will be updated when game resolves
         winAmount: 0,
+        clientBetId,
       }).returning();
       
       // Deduct chips from player
@@ -332,25 +674,41 @@ export class DatabaseStorage implements IStorage {
         })
         .where(eq(players.id, playerId))
         .returning();
+
+      await this.recordLedgerEntry(tx, {
+        playerId,
+        entryType: 'bet_stake',
+        amount: -betAmount,
+        balanceAfter: updatedPlayer[0].chips,
+        counterAccount: 'house',
+        referenceType: 'bet',
+        referenceId: String(bet[0].id),
+        description: `Lucky 7 stake on ${betType} (game ${gameId})`,
+      });
       
-      return { bet: bet[0], updatedPlayer: updatedPlayer[0] };
+      return { bet: bet[0], updatedPlayer: updatedPlayer[0], duplicate: false };
     });
   }
   
   // Update bet outcome and award winnings
-  async resolveBet(betId: number, won: boolean, winAmount: number): Promise<{ bet: Bet; updatedPlayer?: Player }> {
+  // Returns no bet when it was already settled or refunded (e.g. by voidGame), so nothing is paid twice
+  async resolveBet(betId: number, won: boolean, winAmount: number): Promise<{ bet?: Bet; updatedPlayer?: Player }> {
     return await db.transaction(async (tx) => {
       // Update bet outcome
       const bet = await tx.update(bets)
-        .set({ won, winAmount })
-        .where(eq(bets.id, betId))
+        .set({ won, winAmount, settledAt: new Date() })
+        .where(and(eq(bets.id, betId), isNull(bets.settledAt), isNull(bets.refundedAt)))
         .returning();
+      if (!bet[0]) {
+        return {};
+      }
       
       let updatedPlayer;
       if (won && winAmount > 0) {
         // Award winnings to player
         const player = await tx.select().from(players)
-          .where(eq(players.id, bet[0].playerId));
+          .where(eq(players.id, bet[0].playerId))
+          .for('update');
         
         if (player[0]) {
           updatedPlayer = await tx.update(players)
@@ -361,6 +719,17 @@ export class DatabaseStorage implements IStorage {
             })
             .where(eq(players.id, bet[0].playerId))
             .returning();
+
+          await this.recordLedgerEntry(tx, {
+            playerId: bet[0].playerId,
+            entryType: 'bet_payout',
+            amount: winAmount,
+            balanceAfter: updatedPlayer[0].chips,
+            counterAccount: 'house',
+            referenceType: 'bet',
+            referenceId: String(betId),
+            description: `Lucky 7 payout on ${bet[0].betType} (game ${bet[0].gameId})`,
+          });
         }
       } else {
         // Update loss count
@@ -402,26 +771,52 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async updatePlayerFunds(userId: number, chipsToAdd: number): Promise<Player | undefined> {
+  async updatePlayerFunds(userId: number, chipsToAdd: number, details: LedgerEntryDetails = {}): Promise<Player | undefined> {
     // Get current player data
     const player = await this.getPlayerByUserId(userId);
     if (!player) {
       throw new Error('Player not found');
     }
 
-    const newChips = player.chips + chipsToAdd;
-    if (newChips < 0) {
-      throw new Error('Cannot reduce chips below zero');
-    }
+    return await this.adjustPlayerChips(player.id, chipsToAdd, details);
+  }
 
-    const result = await db.update(players)
-      .set({ 
-        chips: newChips,
-        updatedAt: new Date() 
-      })
-      .where(eq(players.userId, userId))
-      .returning();
-    return result[0];
+  async adjustPlayerChips(playerId: number, chipsToAdd: number, details: LedgerEntryDetails = {}): Promise<Player | undefined> {
+    return await db.transaction(async (tx) => {
+      const player = await tx.select().from(players)
+        .where(eq(players.id, playerId))
+        .for('update');
+
+      if (!player[0]) {
+        throw new Error('Player not found');
+      }
+
+      const newChips = player[0].chips + chipsToAdd;
+      if (newChips < 0) {
+        throw new Error('Cannot reduce chips below zero');
+      }
+
+      const result = await tx.update(players)
+        .set({ 
+          chips: newChips,
+          updatedAt: new Date() 
+        })
+        .where(eq(players.id, playerId))
+        .returning();
+
+      await this.recordLedgerEntry(tx, {
+        playerId,
+        entryType: details.entryType || (chipsToAdd >= 0 ? 'admin_credit' : 'admin_debit'),
+        amount: chipsToAdd,
+        balanceAfter: newChips,
+        counterAccount: details.counterAccount || 'cashier',
+        referenceType: details.referenceType,
+        referenceId: details.referenceId,
+        description: details.description,
+      });
+
+      return result[0];
+    });
   }
 
   async getPlayerStatsByUserId(userId: number): Promise<{
@@ -453,10 +848,15 @@ export class DatabaseStorage implements IStorage {
     const result = await db.insert(games).values(game).returning();
     return result[0];
   }
+
+  async getGame(gameId: number): Promise<Game | undefined> {
+    const result = await db.select().from(games).where(eq(games.id, gameId));
+    return result[0];
+  }
   
-  async updateGameCard(gameId: number, cardNumber: number, cardColor: string): Promise<Game | undefined> {
+  async updateGameCard(gameId: number, cardNumber: number, cardColor: string, overridden: boolean = false): Promise<Game | undefined> {
     const result = await db.update(games)
-      .set({ cardNumber, cardColor })
+      .set({ cardNumber, cardColor, overridden })
       .where(eq(games.id, gameId))
       .returning();
     return result[0];
@@ -470,16 +870,63 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async getGameHistory(limit: number = 50): Promise<Game[]> {
+  async getUnfinishedGameIds(): Promise<number[]> {
+    const result = await db.select({ id: games.id }).from(games)
+      .where(eq(games.status, 'in_progress'));
+    return result.map(row => row.id);
+  }
+
+  // Refund every bet the round had not settled and mark it voided, in one transaction
+  async voidGame(gameId: number, reason: string): Promise<VoidedRound> {
+    return await db.transaction(async (tx) => {
+      const game = await tx.select().from(games)
+        .where(eq(games.id, gameId))
+        .for('update');
+
+      const voided: VoidedRound = { refundedBets: 0, refundedStake: 0, settledBets: 0 };
+      if (!game[0] || game[0].status !== 'in_progress') {
+        return voided;
+      }
+
+      const roundBets = await tx.select().from(bets).where(eq(bets.gameId, gameId));
+      for (const bet of roundBets) {
+        if (bet.settledAt || bet.refundedAt) {
+          voided.settledBets++;
+          continue;
+        }
+
+        await tx.update(bets)
+          .set({ refundedAt: new Date(), refundReason: reason })
+          .where(eq(bets.id, bet.id));
+        await this.returnStake(tx, bet.playerId, bet.betAmount, {
+          referenceType: 'bet',
+          referenceId: String(bet.id),
+          description: `Lucky 7 stake on ${bet.betType} refunded: game ${gameId} voided (${reason})`,
+        });
+
+        voided.refundedBets++;
+        voided.refundedStake += bet.betAmount;
+      }
+
+      await tx.update(games)
+        .set({ status: 'voided' })
+        .where(eq(games.id, gameId));
+
+      return voided;
+    });
+  }
+
+  // Without a roomId, history and counts span every Lucky 7 table
+  async getGameHistory(limit: number = 50, roomId?: string): Promise<Game[]> {
     return await db.select().from(games)
-      .where(eq(games.status, 'completed'))
+      .where(and(eq(games.status, 'completed'), roomId ? eq(games.roomId, roomId) : undefined))
       .orderBy(desc(games.createdAt))
       .limit(limit);
   }
 
-  async getTotalGameCount(): Promise<number> {
+  async getTotalGameCount(roomId?: string): Promise<number> {
     const result = await db.select({ count: sql<number>`count(*)` }).from(games)
-      .where(eq(games.status, 'completed'));
+      .where(and(eq(games.status, 'completed'), roomId ? eq(games.roomId, roomId) : undefined));
     return result[0]?.count || 0;
   }
   
@@ -503,7 +950,7 @@ export class DatabaseStorage implements IStorage {
 
     // Get all bets for that game
     const gameBets = await db.select().from(bets)
-      .where(eq(bets.gameId, latestGame[0].id));
+      .where(and(eq(bets.gameId, latestGame[0].id), isNull(bets.refundedAt)));
 
     // Calculate betting statistics
     const betsByType = {
@@ -537,6 +984,19 @@ export class DatabaseStorage implements IStorage {
       .where(eq(bets.gameId, gameId))
       .orderBy(desc(bets.createdAt));
   }
+
+  // Cancelled (refunded) bets are left out
+  async getBetsByPlayerAndGame(playerId: number, gameId: number): Promise<Bet[]> {
+    return await db.select().from(bets)
+      .where(and(eq(bets.playerId, playerId), eq(bets.gameId, gameId), isNull(bets.refundedAt)))
+      .orderBy(desc(bets.createdAt));
+  }
+
+  async getBetByClientBetId(playerId: number, clientBetId: string): Promise<Bet | undefined> {
+    const result = await db.select().from(bets)
+      .where(and(eq(bets.playerId, playerId), eq(bets.clientBetId, clientBetId)));
+    return result[0];
+  }
   
   async getBetsByPlayer(playerId: number, limit: number = 50): Promise<(Bet & { gameStatus: string })[]> {
     return await db.select({
@@ -548,6 +1008,11 @@ export class DatabaseStorage implements IStorage {
       betValue: bets.betValue,
       won: bets.won,
       winAmount: bets.winAmount,
+      clientBetId: bets.clientBetId,
+      locked: bets.locked,
+      settledAt: bets.settledAt,
+      refundedAt: bets.refundedAt,
+      refundReason: bets.refundReason,
       createdAt: bets.createdAt,
       gameStatus: games.status
     }).from(bets)
@@ -569,6 +1034,7 @@ export class DatabaseStorage implements IStorage {
       betType: bets.betType,
       won: bets.won,
       winAmount: bets.winAmount,
+      refunded: sql<boolean>`${bets.refundedAt} is not null`,
       createdAt: bets.createdAt,
       gameType: sql<string>`'Lucky 7'`,
       gameId: bets.gameId
@@ -584,6 +1050,7 @@ export class DatabaseStorage implements IStorage {
       betType: coinTossBets.betType,
       won: coinTossBets.won,
       winAmount: coinTossBets.winAmount,
+      refunded: sql<boolean>`${coinTossBets.refundedAt} is not null`,
       createdAt: coinTossBets.createdAt,
       gameType: sql<string>`'Coin Toss'`,
       gameId: coinTossBets.gameId
@@ -605,6 +1072,7 @@ export class DatabaseStorage implements IStorage {
         WHEN ${andarBaharMatches.winnerPlayerId} = ${playerId} THEN ${andarBaharMatches.betAmount} * 2 
         ELSE 0 
       END`,
+      refunded: sql<boolean>`false`,
       createdAt: andarBaharMatches.completedAt,
       gameType: sql<string>`'Andar Bahar'`,
       gameId: andarBaharMatches.id
@@ -632,17 +1100,18 @@ export class DatabaseStorage implements IStorage {
     let currentBalance = player.chips;
     const betsWithBalance = allBets.map(bet => {
       const balanceAfterBet = currentBalance;
-      // Move backwards: add back the bet amount and subtract the win amount
+      // Move backwards: add back the bet amount and subtract the win amount.
+      // A refunded stake came straight back, so it left the balance unchanged.
       if (bet.won) {
         currentBalance = currentBalance + bet.betAmount - bet.winAmount;
-      } else {
+      } else if (!bet.refunded) {
         currentBalance = currentBalance + bet.betAmount;
       }
       
       return {
         ...bet,
         balanceAfter: balanceAfterBet,
-        profitLoss: bet.won ? bet.winAmount - bet.betAmount : -bet.betAmount
+        profitLoss: bet.refunded ? 0 : bet.won ? bet.winAmount - bet.betAmount : -bet.betAmount
       };
     });
 
@@ -655,19 +1124,224 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
   
-  async getChatHistory(roomId: string, limit: number = 50): Promise<ChatMessage[]> {
-    return await db.select().from(chatMessages)
-      .where(eq(chatMessages.roomId, roomId))
+  // Newest first, without messages an admin deleted
+  async getChatHistory(roomId: string, limit: number = 50): Promise<ChatHistoryMessage[]> {
+    return await db.select({
+      id: chatMessages.id,
+      roomId: chatMessages.roomId,
+      userId: players.userId,
+      username: players.name,
+      message: chatMessages.message,
+      createdAt: chatMessages.createdAt,
+    })
+      .from(chatMessages)
+      .innerJoin(players, eq(chatMessages.playerId, players.id))
+      .where(and(eq(chatMessages.roomId, roomId), isNull(chatMessages.deletedAt)))
       .orderBy(desc(chatMessages.createdAt))
       .limit(limit);
   }
 
+  async getRecentChatMessages(limit: number = 100): Promise<ModeratedChatMessage[]> {
+    return await db.select({
+      id: chatMessages.id,
+      roomId: chatMessages.roomId,
+      userId: players.userId,
+      username: players.name,
+      message: chatMessages.message,
+      createdAt: chatMessages.createdAt,
+      chatMutedUntil: users.chatMutedUntil,
+    })
+      .from(chatMessages)
+      .innerJoin(players, eq(chatMessages.playerId, players.id))
+      .innerJoin(users, eq(players.userId, users.id))
+      .where(isNull(chatMessages.deletedAt))
+      .orderBy(desc(chatMessages.createdAt))
+      .limit(limit);
+  }
+
+  async deleteChatMessage(messageId: number, deletedBy: number): Promise<ChatMessage | undefined> {
+    const result = await db.update(chatMessages)
+      .set({ deletedAt: new Date(), deletedBy })
+      .where(and(eq(chatMessages.id, messageId), isNull(chatMessages.deletedAt)))
+      .returning();
+    return result[0];
+  }
+
+  async setChatMute(userId: number, mutedUntil: Date | null): Promise<User | undefined> {
+    const result = await db.update(users)
+      .set({ chatMutedUntil: mutedUntil })
+      .where(eq(users.id, userId))
+      .returning();
+    return result[0];
+  }
+
   // Andar Bahar Matches
   async createAndarBaharMatch(match: Partial<InsertAndarBaharMatch>): Promise<AndarBaharMatch> {
     const result = await db.insert(andarBaharMatches).values(match as InsertAndarBaharMatch).returning();
     return result[0];
   }
 
+  // Take both stakes into the match pot and create the match in one transaction,
+  // so neither player can spend the chips elsewhere while the cards are dealt
+  async createEscrowedAndarBaharMatch(match: Partial<InsertAndarBaharMatch> & { matchId: string; dealerPlayerId: number; guesserPlayerId: number; betAmount: number }): Promise<AndarBaharEscrowResult> {
+    return await db.transaction(async (tx) => {
+      // Lock in id order so two matches sharing a player cannot deadlock
+      const playerIds = [match.dealerPlayerId, match.guesserPlayerId].sort((a, b) => a - b);
+      const lockedPlayers: Player[] = [];
+      for (const playerId of playerIds) {
+        const player = await tx.select().from(players)
+          .where(eq(players.id, playerId))
+          .for('update');
+        if (!player[0]) {
+          throw new Error('Player not found');
+        }
+        lockedPlayers.push(player[0]);
+      }
+
+      // Limits are checked here too: a queued player may have played elsewhere since joining
+      const refusals: AndarBaharEscrowRefusal[] = [];
+      for (const player of lockedPlayers) {
+        if (player.chips - await this.heldChips(tx, player.id) < match.betAmount) {
+          refusals.push({ playerId: player.id, reason: 'Insufficient chips' });
+          continue;
+        }
+
+        const limitBreach = await this.findPlayerLimitBreach(tx, player.userId, player.id, 'stake', match.betAmount);
+        if (limitBreach) {
+          refusals.push({ playerId: player.id, reason: limitBreach });
+        }
+      }
+      if (refusals.length > 0) {
+        return { ok: false as const, refusals };
+      }
+
+      const created = await tx.insert(andarBaharMatches)
+        .values({ ...match, escrowedAt: new Date() } as InsertAndarBaharMatch)
+        .returning();
+
+      for (const player of lockedPlayers) {
+        const updatedPlayer = await tx.update(players)
+          .set({
+            chips: player.chips - match.betAmount,
+            updatedAt: new Date()
+          })
+          .where(eq(players.id, player.id))
+          .returning();
+
+        await this.recordLedgerEntry(tx, {
+          playerId: player.id,
+          entryType: 'match_stake',
+          amount: -match.betAmount,
+          balanceAfter: updatedPlayer[0].chips,
+          counterAccount: 'match_pot',
+          referenceType: 'andar_bahar_match',
+          referenceId: match.matchId,
+          description: `Andar Bahar stake as ${player.id === match.dealerPlayerId ? 'dealer' : 'guesser'}`,
+        });
+      }
+
+      return { ok: true as const, match: created[0] };
+    });
+  }
+
+  // Pay the whole pot to the winner and complete the match in one transaction.
+  // A null winning side means the opponent forfeited before the deal finished.
+  async settleAndarBaharMatch(matchId: string, winnerPlayerId: number, winningSide: 'andar' | 'bahar' | null): Promise<AndarBaharMatch> {
+    return await db.transaction(async (tx) => {
+      const match = await tx.select().from(andarBaharMatches)
+        .where(eq(andarBaharMatches.matchId, matchId))
+        .for('update');
+
+      if (!match[0]) {
+        throw new Error('Match not found');
+      }
+      if (!match[0].escrowedAt) {
+        throw new Error('Match stakes were never escrowed');
+      }
+      // The match row lock makes a repeated settlement a no-op rather than a double payout
+      if (match[0].status === 'completed' || match[0].status === 'cancelled') {
+        return match[0];
+      }
+
+      const winner = await tx.select().from(players)
+        .where(eq(players.id, winnerPlayerId))
+        .for('update');
+
+      if (!winner[0]) {
+        throw new Error('Player not found');
+      }
+
+      const pot = match[0].betAmount * 2;
+      const updatedWinner = await tx.update(players)
+        .set({
+          chips: winner[0].chips + pot,
+          updatedAt: new Date()
+        })
+        .where(eq(players.id, winnerPlayerId))
+        .returning();
+
+      await this.recordLedgerEntry(tx, {
+        playerId: winnerPlayerId,
+        entryType: 'match_settlement',
+        amount: pot,
+        balanceAfter: updatedWinner[0].chips,
+        counterAccount: 'match_pot',
+        referenceType: 'andar_bahar_match',
+        referenceId: matchId,
+        description: winningSide ? `Won Andar Bahar match on ${winningSide}` : 'Won Andar Bahar match by forfeit',
+      });
+
+      const completed = await tx.update(andarBaharMatches)
+        .set({
+          winningSide,
+          winnerPlayerId,
+          status: 'completed',
+          completedAt: new Date()
+        })
+        .where(eq(andarBaharMatches.matchId, matchId))
+        .returning();
+
+      return completed[0];
+    });
+  }
+
+  // Return both escrowed stakes and cancel a match that cannot be played out
+  async cancelAndarBaharMatch(matchId: string, reason: string): Promise<AndarBaharMatch | undefined> {
+    return await db.transaction(async (tx) => {
+      const match = await tx.select().from(andarBaharMatches)
+        .where(eq(andarBaharMatches.matchId, matchId))
+        .for('update');
+
+      if (!match[0]) {
+        return undefined;
+      }
+      if (match[0].status === 'completed' || match[0].status === 'cancelled') {
+        return match[0];
+      }
+
+      if (match[0].escrowedAt) {
+        const playerIds = [match[0].dealerPlayerId, match[0].guesserPlayerId]
+          .filter((playerId): playerId is number => playerId !== null)
+          .sort((a, b) => a - b);
+        for (const playerId of playerIds) {
+          await this.returnStake(tx, playerId, match[0].betAmount, {
+            counterAccount: 'match_pot',
+            referenceType: 'andar_bahar_match',
+            referenceId: matchId,
+            description: `Andar Bahar stake refunded (${reason})`,
+          });
+        }
+      }
+
+      const cancelled = await tx.update(andarBaharMatches)
+        .set({ status: 'cancelled', completedAt: new Date() })
+        .where(eq(andarBaharMatches.matchId, matchId))
+        .returning();
+
+      return cancelled[0];
+    });
+  }
+
   async getAndarBaharMatch(matchId: string): Promise<AndarBaharMatch | undefined> {
     const result = await db.select().from(andarBaharMatches)
       .where(eq(andarBaharMatches.matchId, matchId))
@@ -707,14 +1381,64 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async updateCoinTossResult(gameId: number, result: string): Promise<CoinTossGame | undefined> {
+  async getCoinTossGame(gameId: number): Promise<CoinTossGame | undefined> {
+    const result = await db.select().from(coinTossGames).where(eq(coinTossGames.id, gameId));
+    return result[0];
+  }
+
+  async updateCoinTossResult(gameId: number, result: string, overridden: boolean = false): Promise<CoinTossGame | undefined> {
     const updateResult = await db.update(coinTossGames)
-      .set({ result })
+      .set({ result, overridden })
       .where(eq(coinTossGames.id, gameId))
       .returning();
     return updateResult[0];
   }
 
+  async getUnfinishedCoinTossGameIds(): Promise<number[]> {
+    const result = await db.select({ id: coinTossGames.id }).from(coinTossGames)
+      .where(eq(coinTossGames.status, 'in_progress'));
+    return result.map(row => row.id);
+  }
+
+  async voidCoinTossGame(gameId: number, reason: string): Promise<VoidedRound> {
+    return await db.transaction(async (tx) => {
+      const game = await tx.select().from(coinTossGames)
+        .where(eq(coinTossGames.id, gameId))
+        .for('update');
+
+      const voided: VoidedRound = { refundedBets: 0, refundedStake: 0, settledBets: 0 };
+      if (!game[0] || game[0].status !== 'in_progress') {
+        return voided;
+      }
+
+      const roundBets = await tx.select().from(coinTossBets).where(eq(coinTossBets.gameId, gameId));
+      for (const bet of roundBets) {
+        if (bet.settledAt || bet.refundedAt) {
+          voided.settledBets++;
+          continue;
+        }
+
+        await tx.update(coinTossBets)
+          .set({ refundedAt: new Date(), refundReason: reason })
+          .where(eq(coinTossBets.id, bet.id));
+        await this.returnStake(tx, bet.playerId, bet.betAmount, {
+          referenceType: 'coin_toss_bet',
+          referenceId: String(bet.id),
+          description: `Coin Toss stake on ${bet.betType} refunded: game ${gameId} voided (${reason})`,
+        });
+
+        voided.refundedBets++;
+        voided.refundedStake += bet.betAmount;
+      }
+
+      await tx.update(coinTossGames)
+        .set({ status: 'voided' })
+        .where(eq(coinTossGames.id, gameId));
+
+      return voided;
+    });
+  }
+
   async markCoinTossGameCompleted(gameId: number): Promise<CoinTossGame | undefined> {
     const result = await db.update(coinTossGames)
       .set({ status: 'completed' })
@@ -752,7 +1476,7 @@ export class DatabaseStorage implements IStorage {
     }
 
     const gameBets = await db.select().from(coinTossBets)
-      .where(eq(coinTossBets.gameId, latestGame[0].id));
+      .where(and(eq(coinTossBets.gameId, latestGame[0].id), isNull(coinTossBets.refundedAt)));
 
     const betsByType = {
       heads: 0,
@@ -785,19 +1509,35 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(coinTossBets.createdAt));
   }
 
+  async getCoinTossBetByClientBetId(playerId: number, clientBetId: string): Promise<CoinTossBet | undefined> {
+    const result = await db.select().from(coinTossBets)
+      .where(and(eq(coinTossBets.playerId, playerId), eq(coinTossBets.clientBetId, clientBetId)));
+    return result[0];
+  }
+
+  // Cancelled (refunded) bets are left out
   async getPlayerBetsByGame(playerId: number, gameId: number): Promise<CoinTossBet[]> {
     return await db.select().from(coinTossBets)
       .where(
         and(
           eq(coinTossBets.playerId, playerId),
-          eq(coinTossBets.gameId, gameId)
+          eq(coinTossBets.gameId, gameId),
+          isNull(coinTossBets.refundedAt)
         )
       )
       .orderBy(desc(coinTossBets.createdAt));
   }
 
-  async placeCoinTossBet(playerId: number, betAmount: number, betType: string, gameId: number): Promise<{ bet: CoinTossBet; updatedPlayer: Player }> {
+  async placeCoinTossBet(playerId: number, betAmount: number, betType: string, gameId: number, clientBetId?: string, maxRoundWager?: number): Promise<{ bet: CoinTossBet; updatedPlayer: Player; duplicate: boolean }> {
     return await db.transaction(async (tx) => {
+      // Locked before the player, in the same order as voidCoinTossGame
+      const game = await tx.select({ status: coinTossGames.status }).from(coinTossGames)
+        .where(eq(coinTossGames.id, gameId))
+        .for('share');
+      if (game[0]?.status !== 'in_progress') {
+        throw new Error('Betting window closed');
+      }
+
       const player = await tx.select().from(players)
         .where(eq(players.id, playerId))
         .for('update');
@@ -805,9 +1545,27 @@ export class DatabaseStorage implements IStorage {
       if (!player[0]) {
         throw new Error('Player not found');
       }
+
+      if (clientBetId) {
+        const existing = await tx.select().from(coinTossBets)
+          .where(and(eq(coinTossBets.playerId, playerId), eq(coinTossBets.clientBetId, clientBetId)));
+        if (existing[0]) {
+          return { bet: existing[0], updatedPlayer: player[0], duplicate: true };
+        }
+      }
       
-      if (player[0].chips < betAmount) {
-        throw new Error('Insufficient chips');
+      assertAvailableChips(player[0].chips, await this.heldChips(tx, playerId), betAmount);
+
+      const limitBreach = await this.findPlayerLimitBreach(tx, player[0].userId, playerId, 'stake', betAmount);
+      if (limitBreach) {
+        throw new Error(limitBreach);
+      }
+
+      if (maxRoundWager !== undefined) {
+        const staked = await tx.select({ total: sql<number>`coalesce(sum(${coinTossBets.betAmount}), 0)::int` })
+          .from(coinTossBets)
+          .where(and(eq(coinTossBets.playerId, playerId), eq(coinTossBets.gameId, gameId), isNull(coinTossBets.refundedAt)));
+        assertWithinRoundWager(staked[0].total, betAmount, maxRoundWager);
       }
       
       const bet = await tx.insert(coinTossBets).values({
@@ -817,6 +1575,7 @@ export class DatabaseStorage implements IStorage {
         betType,
         won: false,
         winAmount: 0,
+        clientBetId,
       }).returning();
       
       const updatedPlayer = await tx.update(players)
@@ -826,22 +1585,38 @@ export class DatabaseStorage implements IStorage {
         })
         .where(eq(players.id, playerId))
         .returning();
+
+      await this.recordLedgerEntry(tx, {
+        playerId,
+        entryType: 'bet_stake',
+        amount: -betAmount,
+        balanceAfter: updatedPlayer[0].chips,
+        counterAccount: 'house',
+        referenceType: 'coin_toss_bet',
+        referenceId: String(bet[0].id),
+        description: `Coin Toss stake on ${betType} (game ${gameId})`,
+      });
       
-      return { bet: bet[0], updatedPlayer: updatedPlayer[0] };
+      return { bet: bet[0], updatedPlayer: updatedPlayer[0], duplicate: false };
     });
   }
 
-  async resolveCoinTossBet(betId: number, won: boolean, winAmount: number): Promise<{ bet: CoinTossBet; updatedPlayer?: Player }> {
+  // Returns no bet when it was already settled or refunded, like resolveBet
+  async resolveCoinTossBet(betId: number, won: boolean, winAmount: number): Promise<{ bet?: CoinTossBet; updatedPlayer?: Player }> {
     return await db.transaction(async (tx) => {
       const bet = await tx.update(coinTossBets)
-        .set({ won, winAmount })
-        .where(eq(coinTossBets.id, betId))
+        .set({ won, winAmount, settledAt: new Date() })
+        .where(and(eq(coinTossBets.id, betId), isNull(coinTossBets.settledAt), isNull(coinTossBets.refundedAt)))
         .returning();
+      if (!bet[0]) {
+        return {};
+      }
       
       let updatedPlayer;
       if (won && winAmount > 0) {
         const player = await tx.select().from(players)
-          .where(eq(players.id, bet[0].playerId));
+          .where(eq(players.id, bet[0].playerId))
+          .for('update');
         
         if (player[0]) {
           updatedPlayer = await tx.update(players)
@@ -852,6 +1627,17 @@ export class DatabaseStorage implements IStorage {
             })
             .where(eq(players.id, bet[0].playerId))
             .returning();
+
+          await this.recordLedgerEntry(tx, {
+            playerId: bet[0].playerId,
+            entryType: 'bet_payout',
+            amount: winAmount,
+            balanceAfter: updatedPlayer[0].chips,
+            counterAccount: 'house',
+            referenceType: 'coin_toss_bet',
+            referenceId: String(betId),
+            description: `Coin Toss payout on ${bet[0].betType} (game ${bet[0].gameId})`,
+          });
         }
       } else {
         const player = await tx.select().from(players)
@@ -872,14 +1658,443 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async deleteCoinTossBet(betId: number): Promise<void> {
-    await db.delete(coinTossBets)
-      .where(eq(coinTossBets.id, betId));
+  // Cancel an unsettled bet: remove it and return the stake in one transaction
+  // Like refundBet, but a locked Coin Toss bet is final and is never refunded here
+  async refundCoinTossBet(betId: number): Promise<Player | undefined> {
+    return await db.transaction(async (tx) => {
+      const bet = await tx.update(coinTossBets)
+        .set({ refundedAt: new Date(), refundReason: 'cancelled' })
+        .where(and(
+          eq(coinTossBets.id, betId),
+          eq(coinTossBets.locked, false),
+          isNull(coinTossBets.settledAt),
+          isNull(coinTossBets.refundedAt)
+        ))
+        .returning();
+
+      if (!bet[0]) {
+        return undefined;
+      }
+
+      await this.returnStake(tx, bet[0].playerId, bet[0].betAmount, {
+        referenceType: 'coin_toss_bet',
+        referenceId: String(betId),
+        description: `Coin Toss stake on ${bet[0].betType} cancelled (game ${bet[0].gameId})`,
+      });
+
+      const player = await tx.select().from(players).where(eq(players.id, bet[0].playerId));
+      return player[0];
+    });
   }
 
-  async deleteBet(betId: number): Promise<void> {
-    await db.delete(bets)
-      .where(eq(bets.id, betId));
+  // The bet row is kept, marked refunded, so the ledger entry still points at it.
+  // Returns undefined when the bet does not exist or was already settled or refunded.
+  async refundBet(betId: number): Promise<Player | undefined> {
+    return await db.transaction(async (tx) => {
+      const bet = await tx.update(bets)
+        .set({ refundedAt: new Date(), refundReason: 'cancelled' })
+        .where(and(eq(bets.id, betId), isNull(bets.settledAt), isNull(bets.refundedAt)))
+        .returning();
+
+      if (!bet[0]) {
+        return undefined;
+      }
+
+      await this.returnStake(tx, bet[0].playerId, bet[0].betAmount, {
+        referenceType: 'bet',
+        referenceId: String(betId),
+        description: `Lucky 7 stake on ${bet[0].betType} cancelled (game ${bet[0].gameId})`,
+      });
+
+      const player = await tx.select().from(players).where(eq(players.id, bet[0].playerId));
+      return player[0];
+    });
+  }
+
+  // Locked bets are part of what the player committed to the round, so the flag is kept with the bet
+  async lockBets(betIds: number[]): Promise<void> {
+    if (betIds.length === 0) return;
+    await db.update(bets).set({ locked: true }).where(inArray(bets.id, betIds));
+  }
+
+  async lockCoinTossBets(betIds: number[]): Promise<void> {
+    if (betIds.length === 0) return;
+    await db.update(coinTossBets).set({ locked: true }).where(inArray(coinTossBets.id, betIds));
+  }
+
+  // Ledger
+  // Players created before the ledger existed have chips but no entries. Give each one the same
+  // 'Opening balance' credit createPlayer writes, for the chips they hold now. Safe to run on every
+  // start: once a player has any entry they are skipped. Returns how many players were backfilled.
+  async recordMissingOpeningBalances(): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const unrecorded = await tx.select().from(players)
+        .where(and(
+          sql`${players.chips} <> 0`,
+          sql`not exists (select 1 from ${ledgerEntries} where ${ledgerEntries.playerId} = ${players.id})`
+        ))
+        .for('update');
+
+      for (const player of unrecorded) {
+        await this.recordLedgerEntry(tx, {
+          playerId: player.id,
+          entryType: 'admin_credit',
+          amount: player.chips,
+          balanceAfter: player.chips,
+          counterAccount: 'cashier',
+          description: 'Opening balance (held before the ledger was introduced)',
+        });
+      }
+
+      return unrecorded.length;
+    });
+  }
+
+  async getLedgerTotalsByPlayer(): Promise<Array<{ playerId: number; balance: number; entryCount: number }>> {
+    const rows = await db.select({
+      playerId: ledgerEntries.playerId,
+      balance: sql<string>`coalesce(sum(${ledgerEntries.amount}), 0)`,
+      entryCount: sql<string>`count(*)`,
+    })
+      .from(ledgerEntries)
+      .groupBy(ledgerEntries.playerId);
+
+    // Postgres returns bigint aggregates as strings
+    return rows.map(row => ({
+      playerId: row.playerId,
+      balance: Number(row.balance),
+      entryCount: Number(row.entryCount),
+    }));
+  }
+
+  async getAllPlayers(): Promise<Player[]> {
+    return await db.select().from(players).orderBy(players.id);
+  }
+
+  async getBetsOnUnfinishedGames(startedBefore: Date): Promise<UnsettledBet[]> {
+    const lucky7Bets = await db.select({
+      betId: bets.id,
+      gameId: bets.gameId,
+      playerId: bets.playerId,
+      betAmount: bets.betAmount,
+      betType: bets.betType,
+      gameCreatedAt: games.createdAt,
+    })
+      .from(bets)
+      .innerJoin(games, eq(bets.gameId, games.id))
+      .where(and(
+        eq(games.status, 'in_progress'),
+        lt(games.createdAt, startedBefore),
+        isNull(bets.settledAt),
+        isNull(bets.refundedAt)
+      ));
+
+    const coinTossBetRows = await db.select({
+      betId: coinTossBets.id,
+      gameId: coinTossBets.gameId,
+      playerId: coinTossBets.playerId,
+      betAmount: coinTossBets.betAmount,
+      betType: coinTossBets.betType,
+      gameCreatedAt: coinTossGames.createdAt,
+    })
+      .from(coinTossBets)
+      .innerJoin(coinTossGames, eq(coinTossBets.gameId, coinTossGames.id))
+      .where(and(
+        eq(coinTossGames.status, 'in_progress'),
+        lt(coinTossGames.createdAt, startedBefore),
+        isNull(coinTossBets.settledAt),
+        isNull(coinTossBets.refundedAt)
+      ));
+
+    return [
+      ...lucky7Bets.map(bet => ({ ...bet, game: 'lucky7' as const })),
+      ...coinTossBetRows.map(bet => ({ ...bet, game: 'coin_toss' as const })),
+    ];
+  }
+
+  async getLedgerEntriesByPlayer(playerId: number, limit: number = 100): Promise<LedgerEntry[]> {
+    return await db.select().from(ledgerEntries)
+      .where(eq(ledgerEntries.playerId, playerId))
+      .orderBy(desc(ledgerEntries.createdAt))
+      .limit(limit);
+  }
+
+  // Player Limits
+  async getPlayerLimits(userId: number, playerId?: number): Promise<PlayerLimitStatus[]> {
+    const now = new Date();
+    const limits = await db.select().from(playerLimits).where(eq(playerLimits.userId, userId));
+    const statuses: PlayerLimitStatus[] = [];
+
+    for (const limit of limits) {
+      const amount = limitInForce(limit, now);
+      const pending = limit.pendingEffectiveAt && limit.pendingEffectiveAt > now;
+      if (amount === null && !pending) continue;
+
+      const usage = playerId !== undefined
+        ? await this.getLimitUsage(db, playerId, limit.period as PlayerLimitPeriod)
+        : { deposit: 0, wager: 0, loss: 0 };
+
+      statuses.push({
+        limitType: limit.limitType as PlayerLimitType,
+        period: limit.period as PlayerLimitPeriod,
+        amount,
+        used: Math.max(0, usage[limit.limitType as PlayerLimitType]),
+        pendingAmount: pending ? limit.pendingAmount : null,
+        pendingEffectiveAt: pending ? limit.pendingEffectiveAt : null,
+      });
+    }
+
+    return statuses;
+  }
+
+  // Tightening applies at once; loosening keeps the current amount until the cooling-off has passed
+  async setPlayerLimit(userId: number, limitType: PlayerLimitType, period: PlayerLimitPeriod, amount: number | null): Promise<{ limit?: PlayerLimit; immediate: boolean }> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const existing = await tx.select().from(playerLimits)
+        .where(and(eq(playerLimits.userId, userId), eq(playerLimits.limitType, limitType), eq(playerLimits.period, period)))
+        .for('update');
+      const inForce = existing[0] ? limitInForce(existing[0], now) : null;
+
+      if (amount !== null && (inForce === null || amount <= inForce)) {
+        const result = existing[0]
+          ? await tx.update(playerLimits)
+            .set({ amount, pendingAmount: null, pendingEffectiveAt: null, updatedAt: now })
+            .where(eq(playerLimits.id, existing[0].id))
+            .returning()
+          : await tx.insert(playerLimits)
+            .values({ userId, limitType, period, amount })
+            .returning();
+        return { limit: result[0], immediate: true };
+      }
+
+      if (inForce === null) {
+        // Removing a limit that is no longer in force
+        if (existing[0]) {
+          await tx.delete(playerLimits).where(eq(playerLimits.id, existing[0].id));
+        }
+        return { immediate: true };
+      }
+
+      const result = await tx.update(playerLimits)
+        .set({
+          amount: inForce,
+          pendingAmount: amount,
+          pendingEffectiveAt: new Date(now.getTime() + PLAYER_LIMIT_COOLING_OFF_MS),
+          updatedAt: now
+        })
+        .where(eq(playerLimits.id, existing[0].id))
+        .returning();
+      return { limit: result[0], immediate: false };
+    });
+  }
+
+  async getPlayerLimitBreach(userId: number, playerId: number, kind: 'stake' | 'deposit', amount: number): Promise<string | null> {
+    return await this.findPlayerLimitBreach(db, userId, playerId, kind, amount);
+  }
+
+  // A stake is checked against wager limits and, assuming it is lost, against loss limits
+  private async findPlayerLimitBreach(executor: DbTransaction | typeof db, userId: number, playerId: number, kind: 'stake' | 'deposit', amount: number): Promise<string | null> {
+    const now = new Date();
+    const limits = await executor.select().from(playerLimits).where(eq(playerLimits.userId, userId));
+    const checked: PlayerLimitType[] = kind === 'deposit' ? ['deposit'] : ['wager', 'loss'];
+
+    for (const limit of limits) {
+      const limitType = limit.limitType as PlayerLimitType;
+      const inForce = limitInForce(limit, now);
+      if (inForce === null || !checked.includes(limitType)) continue;
+
+      const usage = await this.getLimitUsage(executor, playerId, limit.period as PlayerLimitPeriod);
+      if (usage[limitType] + amount > inForce) {
+        const remaining = Math.max(0, inForce - usage[limitType]);
+        return `This would exceed your ${limit.period} ${limitType} limit of ${inForce} (${remaining} remaining)`;
+      }
+    }
+
+    return null;
+  }
+
+  private async getLimitUsage(executor: DbTransaction | typeof db, playerId: number, period: PlayerLimitPeriod): Promise<Record<PlayerLimitType, number>> {
+    const since = new Date(Date.now() - PLAYER_LIMIT_PERIOD_MS[period]);
+    const result = await executor.select({
+      deposit: sql<number>`coalesce(sum(case when ${inArray(ledgerEntries.entryType, DEPOSIT_ENTRY_TYPES)} and ${ledgerEntries.amount} > 0 then ${ledgerEntries.amount} else 0 end), 0)::int`,
+      wager: sql<number>`coalesce(-sum(case when ${inArray(ledgerEntries.entryType, WAGER_ENTRY_TYPES)} then ${ledgerEntries.amount} else 0 end), 0)::int`,
+      loss: sql<number>`coalesce(-sum(case when ${inArray(ledgerEntries.entryType, GAMEPLAY_ENTRY_TYPES)} then ${ledgerEntries.amount} else 0 end), 0)::int`,
+    })
+      .from(ledgerEntries)
+      .where(and(eq(ledgerEntries.playerId, playerId), gte(ledgerEntries.createdAt, since)));
+    return result[0];
+  }
+
+  // Wallet Requests
+  // The player row lock orders this against stakes, so a withdrawal can only hold chips nobody has staked
+  async createWalletRequest(userId: number, requestType: WalletRequestType, amount: number, reference: string): Promise<WalletRequest> {
+    return await db.transaction(async (tx) => {
+      const player = await tx.select().from(players)
+        .where(eq(players.userId, userId))
+        .for('update');
+      if (!player[0]) {
+        throw new Error('Player not found');
+      }
+
+      if (requestType === 'withdrawal') {
+        assertAvailableChips(player[0].chips, await this.heldChips(tx, player[0].id), amount);
+      }
+
+      const result = await tx.insert(walletRequests).values({
+        userId,
+        playerId: player[0].id,
+        requestType,
+        amount,
+        reference,
+      }).returning();
+      return result[0];
+    });
+  }
+
+  async getWalletRequest(requestId: number): Promise<WalletRequest | undefined> {
+    const result = await db.select().from(walletRequests).where(eq(walletRequests.id, requestId));
+    return result[0];
+  }
+
+  async getWalletRequestsByUser(userId: number, limit: number = 20): Promise<WalletRequest[]> {
+    return await db.select().from(walletRequests)
+      .where(eq(walletRequests.userId, userId))
+      .orderBy(desc(walletRequests.createdAt))
+      .limit(limit);
+  }
+
+  // Pending requests come oldest first so the queue is worked in order; reviewed ones newest first
+  async getWalletRequests(status?: WalletRequestStatus, limit: number = 100): Promise<WalletRequestWithUser[]> {
+    const rows = await db.select({ request: walletRequests, username: users.username })
+      .from(walletRequests)
+      .innerJoin(users, eq(walletRequests.userId, users.id))
+      .where(status ? eq(walletRequests.status, status) : undefined)
+      .orderBy(status === 'pending' ? walletRequests.createdAt : desc(walletRequests.createdAt))
+      .limit(limit);
+    return rows.map(row => ({ ...row.request, username: row.username }));
+  }
+
+  // Approving moves the chips in the same transaction that closes the request
+  async reviewWalletRequest(requestId: number, reviewerId: number, approve: boolean, note?: string): Promise<WalletReviewResult> {
+    return await db.transaction(async (tx): Promise<WalletReviewResult> => {
+      const request = await tx.select().from(walletRequests)
+        .where(eq(walletRequests.id, requestId))
+        .for('update');
+      if (!request[0]) {
+        return { ok: false, reason: 'not_found', message: 'Request not found' };
+      }
+      if (request[0].status !== 'pending') {
+        return { ok: false, reason: 'already_reviewed', message: `Request is already ${request[0].status}` };
+      }
+
+      let updatedPlayer: Player | undefined;
+      if (approve) {
+        const player = await tx.select().from(players)
+          .where(eq(players.id, request[0].playerId))
+          .for('update');
+        if (!player[0]) {
+          throw new Error('Player not found');
+        }
+
+        const isDeposit = request[0].requestType === 'deposit';
+        const amount = isDeposit ? request[0].amount : -request[0].amount;
+        if (player[0].chips + amount < 0) {
+          return { ok: false, reason: 'insufficient_chips', message: 'Player no longer has enough chips for this withdrawal' };
+        }
+
+        // Checked under the player row lock, so two approvals at once cannot both fit under the limit
+        if (isDeposit && await this.findPlayerLimitBreach(tx, request[0].userId, player[0].id, 'deposit', amount)) {
+          return { ok: false, reason: 'deposit_limit', message: "Approving this deposit would break the player's own deposit limit" };
+        }
+
+        const result = await tx.update(players)
+          .set({ chips: player[0].chips + amount, updatedAt: new Date() })
+          .where(eq(players.id, player[0].id))
+          .returning();
+        updatedPlayer = result[0];
+
+        await this.recordLedgerEntry(tx, {
+          playerId: player[0].id,
+          entryType: isDeposit ? 'deposit' : 'withdrawal',
+          amount,
+          balanceAfter: updatedPlayer.chips,
+          counterAccount: 'cashier',
+          referenceType: 'wallet_request',
+          referenceId: String(requestId),
+          description: `${isDeposit ? 'Deposit' : 'Withdrawal'} request ${requestId} (ref ${request[0].reference})`,
+        });
+      }
+
+      const reviewed = await tx.update(walletRequests)
+        .set({
+          status: approve ? 'approved' : 'rejected',
+          reviewedBy: reviewerId,
+          reviewNote: note || null,
+          reviewedAt: new Date()
+        })
+        .where(eq(walletRequests.id, requestId))
+        .returning();
+
+      return { ok: true, request: reviewed[0], updatedPlayer };
+    });
+  }
+
+  // Players may withdraw their own request while it is still pending, releasing any held chips
+  async cancelWalletRequest(requestId: number, userId: number): Promise<WalletRequest | undefined> {
+    const result = await db.update(walletRequests)
+      .set({ status: 'cancelled', reviewedAt: new Date() })
+      .where(and(
+        eq(walletRequests.id, requestId),
+        eq(walletRequests.userId, userId),
+        eq(walletRequests.status, 'pending')
+      ))
+      .returning();
+    return result[0];
+  }
+
+  async getHeldChips(playerId: number): Promise<number> {
+    return await this.heldChips(db, playerId);
+  }
+
+  private async heldChips(executor: DbTransaction | typeof db, playerId: number): Promise<number> {
+    const result = await executor.select({ total: sql<number>`coalesce(sum(${walletRequests.amount}), 0)::int` })
+      .from(walletRequests)
+      .where(and(
+        eq(walletRequests.playerId, playerId),
+        eq(walletRequests.requestType, 'withdrawal'),
+        eq(walletRequests.status, 'pending')
+      ));
+    return result[0].total;
+  }
+
+  // Audit Events - there is deliberately no update or delete
+  async recordAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const result = await db.insert(auditEvents).values(event).returning();
+    return result[0];
+  }
+
+  async getAuditEvents(filters: AuditEventFilters, limit: number, offset: number = 0): Promise<{ events: AuditEvent[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+    // Exact, case-insensitive match; a LIKE pattern would let '%' and '_' in the query act as wildcards
+    if (filters.actor) conditions.push(sql`lower(${auditEvents.actorUsername}) = lower(${filters.actor})`);
+    if (filters.targetType) conditions.push(eq(auditEvents.targetType, filters.targetType));
+    if (filters.targetId) conditions.push(eq(auditEvents.targetId, filters.targetId));
+    if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditEvents.createdAt, filters.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [events, count] = await Promise.all([
+      db.select().from(auditEvents)
+        .where(where)
+        .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+        .limit(limit)
+        .offset(offset),
+      db.select({ total: sql<number>`count(*)::int` }).from(auditEvents).where(where),
+    ]);
+
+    return { events, total: count[0].total };
   }
 
   // Deposit Settings
@@ -914,6 +2129,32 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Game Settings
+  async getGameSettings(gameType: GameSettingsType): Promise<GameSettings | undefined> {
+    const result = await db.select().from(gameSettings).where(eq(gameSettings.gameType, gameType));
+    return result[0];
+  }
+
+  async getAllGameSettings(): Promise<GameSettings[]> {
+    return await db.select().from(gameSettings);
+  }
+
+  // Only the fields provided are changed; a new row takes column defaults for the rest
+  async updateGameSettings(settings: InsertGameSettings): Promise<GameSettings> {
+    const { gameType, ...changes } = settings;
+    const result = await db.insert(gameSettings)
+      .values(settings)
+      .onConflictDoUpdate({
+        target: gameSettings.gameType,
+        set: {
+          ...changes,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return result[0];
+  }
+
   // Data Reset Methods
   async resetAllGameData(): Promise<void> {
     // Delete all game-related data but keep users
@@ -927,21 +2168,29 @@ export class DatabaseStorage implements IStorage {
 
   async resetAllUserData(): Promise<void> {
     // Delete all user and player data but keep game history
+    await db.delete(ledgerEntries);
+    await db.delete(walletRequests);
+    await db.delete(playerLimits);
     await db.delete(players);
     await db.delete(users);
   }
 
   async resetCompleteDatabase(): Promise<void> {
-    // Delete everything in correct order (respecting foreign keys)
+    // Delete everything in correct order (respecting foreign keys).
+    // audit_events is kept, so the reset itself stays on record.
     await db.delete(bets);
     await db.delete(coinTossBets);
     await db.delete(chatMessages);
     await db.delete(games);
     await db.delete(coinTossGames);
     await db.delete(andarBaharMatches);
+    await db.delete(ledgerEntries);
+    await db.delete(walletRequests);
+    await db.delete(playerLimits);
     await db.delete(players);
     await db.delete(users);
     await db.delete(depositSettings);
+    await db.delete(gameSettings);
   }
 }
 
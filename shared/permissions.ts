@@ -0,0 +1,42 @@
+// Admin roles and what each may do. Shared so the server can enforce permissions and the
+// admin panel can hide what the signed-in role cannot use.
+
+export type AdminRole = 'superadmin' | 'support' | 'finance' | 'game-ops';
+
+export type Permission =
+  | 'users.view'        // User list, stats and ledgers
+  | 'users.manage'      // Block/unblock and password resets
+  | 'funds.manage'      // Manual credits/debits, wallet requests, reconciliation
+  | 'deposit_settings.manage'
+  | 'chat.moderate'
+  | 'games.control'     // Live rounds and result overrides
+  | 'games.configure'   // Timings, table limits and backgrounds
+  | 'analytics.view'    // House stats and analytics
+  | 'audit.view'
+  | 'data.reset'
+  | 'roles.manage';     // Assigning roles, and acting on other admin accounts
+
+export const ADMIN_ROLES: AdminRole[] = ['superadmin', 'support', 'finance', 'game-ops'];
+
+// superadmin is not listed: it holds every permission
+const ROLE_PERMISSIONS: Record<Exclude<AdminRole, 'superadmin'>, Permission[]> = {
+  support: ['users.view', 'users.manage', 'chat.moderate'],
+  finance: ['users.view', 'funds.manage', 'deposit_settings.manage', 'analytics.view'],
+  'game-ops': ['users.view', 'games.control', 'games.configure', 'analytics.view'],
+};
+
+// Accounts created before roles existed carry role 'admin' and keep full access
+export function toAdminRole(role: string | null | undefined): AdminRole | null {
+  if (role === 'admin') return 'superadmin';
+  return ADMIN_ROLES.includes(role as AdminRole) ? role as AdminRole : null;
+}
+
+export function isAdminRole(role: string | null | undefined): boolean {
+  return toAdminRole(role) !== null;
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  const adminRole = toAdminRole(role);
+  if (!adminRole) return false;
+  return adminRole === 'superadmin' || ROLE_PERMISSIONS[adminRole].includes(permission);
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, unique, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from "drizzle-orm";
@@ -9,6 +9,9 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   role: varchar("role", { length: 20 }).default("user").notNull(),
   status: varchar("status", { length: 20 }).default("active").notNull(), // 'active', 'blocked', 'suspended'
+  chatMutedUntil: timestamp("chat_muted_until"), // Set by admins; the user cannot send chat messages until then
+  selfExcludedAt: timestamp("self_excluded_at"), // Set by the user; only they can start it and nobody can shorten it
+  selfExcludedUntil: timestamp("self_excluded_until"), // null while selfExcludedAt is set means permanent
   lastLogin: timestamp("last_login"),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
@@ -45,7 +48,13 @@ export const games = pgTable("games", {
   cardColor: varchar("card_color", { length: 10 }).notNull(),
   totalBets: integer("total_bets").default(0).notNull(),
   totalPlayers: integer("total_players").notNull(),
-  status: varchar("status", { length: 20 }).default("in_progress").notNull(),
+  status: varchar("status", { length: 20 }).default("in_progress").notNull(), // 'in_progress', 'completed', 'voided'
+  // Provably fair commitment: hash is published before betting, seed revealed with the card
+  serverSeed: varchar("server_seed", { length: 64 }),
+  serverSeedHash: varchar("server_seed_hash", { length: 64 }),
+  clientSeed: varchar("client_seed", { length: 64 }),
+  nonce: integer("nonce"),
+  overridden: boolean("overridden").default(false).notNull(), // An admin forced the card, so it does not follow from the seeds
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
@@ -59,8 +68,15 @@ export const bets = pgTable("bets", {
   betValue: varchar("bet_value", { length: 20 }), // specific number or color
   won: boolean("won").notNull(),
   winAmount: integer("win_amount").default(0).notNull(),
+  clientBetId: varchar("client_bet_id", { length: 64 }), // idempotency key generated by the client
+  locked: boolean("locked").default(false).notNull(), // Player committed the bet; it can no longer be cancelled
+  settledAt: timestamp("settled_at"), // Set once the bet is resolved as won or lost
+  refundedAt: timestamp("refunded_at"), // Set when a voided round returns the stake
+  refundReason: varchar("refund_reason", { length: 50 }), // e.g. 'server_restart'
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
-});
+}, (table) => ({
+  playerClientBetUnique: unique("bets_player_client_bet_id_unique").on(table.playerId, table.clientBetId),
+}));
 
 // Chat messages table
 export const chatMessages = pgTable("chat_messages", {
@@ -68,6 +84,8 @@ export const chatMessages = pgTable("chat_messages", {
   roomId: varchar("room_id", { length: 50 }).notNull(),
   playerId: integer("player_id").references(() => players.id).notNull(),
   message: text("message").notNull(),
+  deletedAt: timestamp("deleted_at"), // Removed by an admin; hidden from history
+  deletedBy: integer("deleted_by").references(() => users.id),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
@@ -85,6 +103,12 @@ export const andarBaharMatches = pgTable("andar_bahar_matches", {
   winnerPlayerId: integer("winner_player_id").references(() => players.id),
   status: varchar("status", { length: 30 }).default("waiting_for_players").notNull(), 
   // 'waiting_for_players', 'placing_bets', 'selecting_dealer', 'revealing_joker', 'choosing_side', 'dealing_cards', 'completed', 'cancelled'
+  deckHash: varchar("deck_hash", { length: 64 }), // sha256 of deckOrder, sent to both players in match-found
+  deckOrder: text("deck_order"), // Comma-separated card codes; deck[0] is the joker, the rest are dealt in order
+  seriesId: varchar("series_id", { length: 50 }), // matchId of the first match in a run of rematches
+  isPrivateChallenge: boolean("is_private_challenge").default(false).notNull(), // Started from an invite code, not matchmaking
+  inviteCode: varchar("invite_code", { length: 12 }),
+  escrowedAt: timestamp("escrowed_at"), // Both stakes were taken into the match pot; null for matches that predate escrow
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
   completedAt: timestamp("completed_at"),
 });
@@ -97,6 +121,12 @@ export const coinTossGames = pgTable("coin_toss_games", {
   totalBets: integer("total_bets").default(0).notNull(),
   totalPlayers: integer("total_players").notNull(),
   status: varchar("status", { length: 20 }).default("in_progress").notNull(),
+  // Provably fair commitment: hash is published before betting, seed revealed with the result
+  serverSeed: varchar("server_seed", { length: 64 }),
+  serverSeedHash: varchar("server_seed_hash", { length: 64 }),
+  clientSeed: varchar("client_seed", { length: 64 }),
+  nonce: integer("nonce"),
+  overridden: boolean("overridden").default(false).notNull(), // An admin forced the result, so it does not follow from the seeds
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
@@ -109,6 +139,76 @@ export const coinTossBets = pgTable("coin_toss_bets", {
   betType: varchar("bet_type", { length: 10 }).notNull(), // 'heads' or 'tails'
   won: boolean("won").notNull(),
   winAmount: integer("win_amount").default(0).notNull(),
+  clientBetId: varchar("client_bet_id", { length: 64 }), // idempotency key generated by the client
+  locked: boolean("locked").default(false).notNull(),
+  settledAt: timestamp("settled_at"),
+  refundedAt: timestamp("refunded_at"),
+  refundReason: varchar("refund_reason", { length: 50 }),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => ({
+  playerClientBetUnique: unique("coin_toss_bets_player_client_bet_id_unique").on(table.playerId, table.clientBetId),
+}));
+
+// Ledger entries: one row per chip movement, so any balance can be explained to the chip.
+// Each entry is one leg of a double entry; counterAccount names the other side.
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  playerId: integer("player_id").references(() => players.id).notNull(),
+  entryType: varchar("entry_type", { length: 30 }).notNull(),
+  // 'bet_stake', 'bet_payout', 'bet_refund', 'admin_credit', 'admin_debit', 'match_stake', 'match_settlement', 'deposit', 'withdrawal'
+  amount: integer("amount").notNull(), // Signed change to players.chips
+  balanceAfter: integer("balance_after").notNull(),
+  counterAccount: varchar("counter_account", { length: 30 }).notNull(), // 'house', 'cashier', 'match_pot'
+  referenceType: varchar("reference_type", { length: 30 }), // 'bet', 'coin_toss_bet', 'andar_bahar_match', 'wallet_request'
+  referenceId: varchar("reference_id", { length: 50 }),
+  description: text("description"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Responsible-gaming limits a player sets on themselves, one row per limit type and period.
+// Lowering applies at once; raising or removing is parked in pendingAmount until pendingEffectiveAt.
+export const playerLimits = pgTable("player_limits", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  limitType: varchar("limit_type", { length: 20 }).notNull(), // 'deposit', 'loss', 'wager'
+  period: varchar("period", { length: 20 }).notNull(), // 'daily', 'weekly', 'monthly'
+  amount: integer("amount").notNull(),
+  pendingAmount: integer("pending_amount"), // null with pendingEffectiveAt set means the limit is being removed
+  pendingEffectiveAt: timestamp("pending_effective_at"),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => ({
+  userLimitUnique: unique("player_limits_user_type_period_unique").on(table.userId, table.limitType, table.period),
+}));
+
+// Deposits and withdrawals players ask for and admins approve or reject.
+// Approval is what moves the chips; a pending withdrawal holds its amount so it cannot be staked.
+export const walletRequests = pgTable("wallet_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  playerId: integer("player_id").references(() => players.id).notNull(),
+  requestType: varchar("request_type", { length: 20 }).notNull(), // 'deposit', 'withdrawal'
+  amount: integer("amount").notNull(),
+  reference: varchar("reference", { length: 100 }).notNull(), // Payment reference or payout details from the player
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // 'pending', 'approved', 'rejected', 'cancelled'
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Append-only trail of admin actions: rows are inserted and read, never updated or deleted.
+// Actor and target are copied rather than referenced so the trail outlives the users it names.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorUserId: integer("actor_user_id"),
+  actorUsername: text("actor_username").notNull(),
+  action: varchar("action", { length: 50 }).notNull(), // See AuditAction
+  targetType: varchar("target_type", { length: 30 }), // 'user', 'game', 'coin_toss_game', 'chat_message', 'wallet_request', 'settings', 'database'
+  targetId: varchar("target_id", { length: 50 }),
+  description: text("description").notNull(),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  ipAddress: varchar("ip_address", { length: 64 }),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
@@ -120,6 +220,21 @@ export const depositSettings = pgTable("deposit_settings", {
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
+// Stake range per bet type, e.g. { lucky7: { minBet: 10, maxBet: 1000 } }
+export type BetTypeLimits = Record<string, { minBet: number; maxBet: number }>;
+
+// Round timings and table limits for the countdown games, one row per game
+export const gameSettings = pgTable("game_settings", {
+  id: serial("id").primaryKey(),
+  gameType: varchar("game_type", { length: 20 }).notNull().unique(), // 'lucky7', 'coin_toss'
+  bettingSeconds: integer("betting_seconds").default(20).notNull(), // Time bets are accepted
+  lockSeconds: integer("lock_seconds").default(10).notNull(), // Closed window before the reveal
+  resultDisplaySeconds: integer("result_display_seconds").default(6).notNull(), // Pause before the next round
+  betLimits: jsonb("bet_limits").$type<BetTypeLimits>(), // null falls back to the game's default limits
+  maxRoundWager: integer("max_round_wager"), // Most a player may stake in one round; null means no cap
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
 // Schema validation types
 export const insertPlayerSchema = createInsertSchema(players).pick({
   userId: true,
@@ -134,6 +249,10 @@ export const insertGameSchema = createInsertSchema(games).pick({
   cardColor: true,
   totalBets: true,
   totalPlayers: true,
+  serverSeed: true,
+  serverSeedHash: true,
+  clientSeed: true,
+  nonce: true,
 });
 
 export const insertBetSchema = createInsertSchema(bets).pick({
@@ -144,6 +263,7 @@ export const insertBetSchema = createInsertSchema(bets).pick({
   betValue: true,
   won: true,
   winAmount: true,
+  clientBetId: true,
 });
 
 export const insertChatMessageSchema = createInsertSchema(chatMessages).pick({
@@ -163,6 +283,11 @@ export const insertAndarBaharMatchSchema = createInsertSchema(andarBaharMatches)
   winningSide: true,
   winnerPlayerId: true,
   status: true,
+  deckHash: true,
+  deckOrder: true,
+  seriesId: true,
+  isPrivateChallenge: true,
+  inviteCode: true,
 });
 
 export const insertCoinTossGameSchema = createInsertSchema(coinTossGames).pick({
@@ -170,6 +295,10 @@ export const insertCoinTossGameSchema = createInsertSchema(coinTossGames).pick({
   result: true,
   totalBets: true,
   totalPlayers: true,
+  serverSeed: true,
+  serverSeedHash: true,
+  clientSeed: true,
+  nonce: true,
 });
 
 export const insertCoinTossBetSchema = createInsertSchema(coinTossBets).pick({
@@ -179,6 +308,30 @@ export const insertCoinTossBetSchema = createInsertSchema(coinTossBets).pick({
   betType: true,
   won: true,
   winAmount: true,
+  clientBetId: true,
+});
+
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries).pick({
+  playerId: true,
+  entryType: true,
+  amount: true,
+  balanceAfter: true,
+  counterAccount: true,
+  referenceType: true,
+  referenceId: true,
+  description: true,
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).pick({
+  actorUserId: true,
+  actorUsername: true,
+  action: true,
+  targetType: true,
+  targetId: true,
+  description: true,
+  before: true,
+  after: true,
+  ipAddress: true,
 });
 
 export const insertDepositSettingsSchema = createInsertSchema(depositSettings).pick({
@@ -186,6 +339,15 @@ export const insertDepositSettingsSchema = createInsertSchema(depositSettings).p
   depositMessage: true,
 });
 
+export const insertGameSettingsSchema = createInsertSchema(gameSettings).pick({
+  gameType: true,
+  bettingSeconds: true,
+  lockSeconds: true,
+  resultDisplaySeconds: true,
+  betLimits: true,
+  maxRoundWager: true,
+});
+
 // Type exports
 export type Player = typeof players.$inferSelect;
 export type Game = typeof games.$inferSelect;
@@ -195,6 +357,25 @@ export type AndarBaharMatch = typeof andarBaharMatches.$inferSelect;
 export type CoinTossGame = typeof coinTossGames.$inferSelect;
 export type CoinTossBet = typeof coinTossBets.$inferSelect;
 export type DepositSettings = typeof depositSettings.$inferSelect;
+export type GameSettings = typeof gameSettings.$inferSelect;
+export type GameSettingsType = 'lucky7' | 'coin_toss';
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type PlayerLimit = typeof playerLimits.$inferSelect;
+export type PlayerLimitType = 'deposit' | 'loss' | 'wager';
+export type PlayerLimitPeriod = 'daily' | 'weekly' | 'monthly';
+export type SelfExclusionPeriod = '24h' | '7d' | '30d' | 'permanent';
+export type WalletRequest = typeof walletRequests.$inferSelect;
+export type WalletRequestType = 'deposit' | 'withdrawal';
+export type WalletRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type AuditAction =
+  | 'user.status' | 'user.funds' | 'user.password' | 'user.role'
+  | 'game.override_result' | 'game.background'
+  | 'settings.deposit' | 'settings.game_timings' | 'settings.table_limits'
+  | 'chat.delete_message' | 'chat.mute'
+  | 'wallet.approve' | 'wallet.reject'
+  | 'data.reset';
+export type LedgerEntryType = 'bet_stake' | 'bet_payout' | 'bet_refund' | 'admin_credit' | 'admin_debit' | 'match_stake' | 'match_settlement' | 'deposit' | 'withdrawal';
 
 export type InsertPlayer = z.infer<typeof insertPlayerSchema>;
 export type InsertGame = z.infer<typeof insertGameSchema>;
@@ -204,3 +385,6 @@ export type InsertAndarBaharMatch = z.infer<typeof insertAndarBaharMatchSchema>;
 export type InsertCoinTossGame = z.infer<typeof insertCoinTossGameSchema>;
 export type InsertCoinTossBet = z.infer<typeof insertCoinTossBetSchema>;
 export type InsertDepositSettings = z.infer<typeof insertDepositSettingsSchema>;
+export type InsertGameSettings = z.infer<typeof insertGameSettingsSchema>;
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;